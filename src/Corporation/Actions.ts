@@ -8,14 +8,16 @@ import { Division } from "./Division";
 import * as corpConstants from "./data/Constants";
 import { OfficeSpace } from "./OfficeSpace";
 import { Material } from "./Material";
+import { Export } from "./Export";
 import { Product } from "./Product";
 import { Warehouse } from "./Warehouse";
+import { DivisionPolicies } from "./Policies";
 import { FactionName, IndustryType } from "@enums";
 import { ResearchMap } from "./ResearchMap";
 import { isRelevantMaterial } from "./ui/Helpers";
 import { CityName } from "@enums";
 import { getRandomIntInclusive } from "../utils/helpers/getRandomIntInclusive";
-import { getRecordValues } from "../Types/Record";
+import { getRecordEntries, getRecordValues } from "../Types/Record";
 import {
   calculateOfficeSizeUpgradeCost,
   sellSharesFailureReason,
@@ -433,6 +435,28 @@ export function throwParty(corp: Corporation, office: OfficeSpace, costPerEmploy
   return mult;
 }
 
+/** Replace the policies of a division. Throw on an invalid policy. */
+export function setPolicies(division: Division, policies: DivisionPolicies): void {
+  const amounts = {
+    "Minimum energy": policies.minEnergy,
+    "Minimum morale": policies.minMorale,
+    "Party cost per employee": policies.partyCostPerEmployee,
+  };
+  for (const [name, amount] of Object.entries(amounts)) {
+    if (!Number.isFinite(amount) || amount < 0) throw new Error(`${name} must be a non-negative number`);
+  }
+  for (const [job, ratio] of getRecordEntries(policies.jobRatios)) {
+    if (!Number.isFinite(ratio) || ratio < 0) throw new Error(`The ratio of ${job} must be a non-negative number`);
+  }
+  // A minimum that an office can't reach would buy tea or throw a party in it every cycle
+  const offices = getRecordValues(division.offices);
+  const maxEnergy = Math.min(...offices.map((office) => office.maxEnergy));
+  const maxMorale = Math.min(...offices.map((office) => office.maxMorale));
+  if (policies.minEnergy > maxEnergy) throw new Error(`Minimum energy must be at most ${maxEnergy}`);
+  if (policies.minMorale > maxMorale) throw new Error(`Minimum morale must be at most ${maxMorale}`);
+  division.policies = { ...policies, jobRatios: { ...policies.jobRatios } };
+}
+
 export function purchaseWarehouse(corp: Corporation, division: Division, city: CityName): void {
   if (corp.funds < corpConstants.warehouseInitialCost) return;
   if (division.warehouses[city]) return;
@@ -572,7 +596,17 @@ Attempted export amount: ${amount}`);
     }
   }
 
-  // Perform sanitization and tests
+  const exportObj = { division: targetDivision.name, city: targetCity, amount: sanitizeExportAmount(material, amount) };
+  material.exports.push(exportObj);
+}
+
+/** Change the amount of an existing export. Throw on an invalid amount. */
+export function updateExportMaterial(material: Material, exportObj: Export, amount: string): void {
+  exportObj.amount = sanitizeExportAmount(material, amount);
+}
+
+/** Sanitize the amount of an export and test that it can be evaluated. Throw on an invalid amount. */
+function sanitizeExportAmount(material: Material, amount: string): string {
   let sanitizedAmt = amount.replace(/\s+/g, "").toUpperCase();
   sanitizedAmt = sanitizedAmt.replace(/[^-()\d/*+.MAXEPRODINV]/g, "");
   for (const testReplacement of ["(1.23)", "(-1.23)"]) {
@@ -595,8 +629,7 @@ Error encountered: ${error}`);
     }
   }
 
-  const exportObj = { division: targetDivision.name, city: targetCity, amount: sanitizedAmt };
-  material.exports.push(exportObj);
+  return sanitizedAmt;
 }
 
 export function cancelExportMaterial(divisionName: string, cityName: CityName, material: Material): void {
@@ -0,0 +1,164 @@
+/**
+ * Competitors of the corporation in the markets for the products of its industries, see data/CompetitorData.ts.
+ * They are processed at the start of each cycle, for the industries in which the corporation makes products:
+ * they react to the prices of the corporation in the last cycle, launch products that increase the competition of the
+ * products of the corporation, and their market shares are updated. The market share of the corporation is a
+ * multiplier to the sales of its products.
+ */
+import type { CorpCompetitor } from "@nsdefs";
+import type { IndustryType } from "@enums";
+import type { Corporation } from "./Corporation";
+import type { Division } from "./Division";
+import { CompetitorData, CompetitorsData } from "./data/CompetitorData";
+import { getRecordKeys } from "../Types/Record";
+
+/** Prices below this, relative to the market price, don't increase the market share any further */
+const lowestPriceMult = 0.1;
+/** Bounds of the multiplier to the sales of products from the market share */
+const minSalesMultiplier = 0.5;
+const maxSalesMultiplier = 2;
+
+interface MarketPosition {
+  /** How much the products sell, from their ratings and prices */
+  strength: number;
+  /** Prices of the products in the cities where they were sold, relative to their market price */
+  priceMults: number[];
+}
+
+function createCompetitor(data: CompetitorData): CorpCompetitor {
+  return { name: data.name, products: data.products, rating: data.rating, priceMult: data.priceMult, marketShare: 0 };
+}
+
+/** Effect of a price relative to the market price on sales, like the markup multiplier of the sale of products */
+function getPriceFactor(priceMult: number): number {
+  priceMult = Math.max(priceMult, lowestPriceMult);
+  return priceMult > 1 ? Math.pow(priceMult, -2) : 1 / priceMult;
+}
+
+function getAverage(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((total, value) => total + value, 0) / values.length;
+}
+
+/**
+ * The position of the products of a division that were sold in the last cycle. The market price of a product is the
+ * highest price at which it sells without a penalty, as set by Market-TA.I.
+ */
+function getDivisionPosition(division: Division): MarketPosition {
+  let strength = 0;
+  const priceMults: number[] = [];
+  for (const product of division.products.values()) {
+    if (!product.finished) continue;
+    const productPriceMults: number[] = [];
+    for (const city of getRecordKeys(division.warehouses)) {
+      const cityData = product.cityData[city];
+      if (cityData.actualSellAmount <= 0) continue;
+      const marketPrice = cityData.productionCost + Math.max(cityData.effectiveRating, 0.001) / product.markup;
+      const price = product.uiMarketPrice[city];
+      if (!(marketPrice > 0) || !Number.isFinite(price)) continue;
+      productPriceMults.push(price / marketPrice);
+    }
+    const priceMult = getAverage(productPriceMults);
+    if (priceMult === null) continue;
+    strength += Math.pow(product.rating, 0.65) * getPriceFactor(priceMult);
+    priceMults.push(...productPriceMults);
+  }
+  return { strength, priceMults };
+}
+
+function getCompetitorStrength(competitor: CorpCompetitor): number {
+  return competitor.products * Math.pow(competitor.rating, 0.65) * getPriceFactor(competitor.priceMult);
+}
+
+/** Competitors lower their prices towards the prices of the corporation when undercut, and raise them back otherwise */
+function updatePrice(competitor: CorpCompetitor, data: CompetitorData, priceMult: number | null): void {
+  if (priceMult !== null && priceMult < competitor.priceMult) {
+    const undercut = competitor.priceMult - priceMult;
+    competitor.priceMult = Math.max(data.minPriceMult, competitor.priceMult - data.aggressiveness * undercut);
+  } else {
+    competitor.priceMult += 0.1 * (data.priceMult - competitor.priceMult);
+  }
+}
+
+/** Competitors launch products more often when the corporation sells at higher prices than them */
+function launchProduct(
+  competitor: CorpCompetitor,
+  data: CompetitorData,
+  priceMult: number | null,
+  divisions: Division[],
+): void {
+  const opportunity = priceMult === null ? 1 : Math.min(Math.max(priceMult / competitor.priceMult, 0.5), 2);
+  if (Math.random() >= data.launchChance * opportunity) return;
+
+  // At the maximum number of products, a new product replaces one of them. The ratings of the individual products
+  // aren't kept, so the replaced product has the average rating.
+  const rating = Math.min(competitor.rating * data.ratingGrowth, data.maxRating);
+  const replaced = competitor.products >= data.maxProducts ? 1 : 0;
+  competitor.rating =
+    (competitor.rating * (competitor.products - replaced) + rating) / (competitor.products - replaced + 1);
+  competitor.products += 1 - replaced;
+  for (const division of divisions) {
+    for (const product of division.products.values()) {
+      product.competition = Math.min(product.competition + data.launchCompetition * opportunity, 99.99);
+    }
+  }
+}
+
+/** Gets the competitors in an industry, starting them if the corporation hasn't processed that industry yet */
+export function getCompetitors(corporation: Corporation, industry: IndustryType): CorpCompetitor[] {
+  return corporation.competitors[industry] ?? (CompetitorsData[industry] ?? []).map(createCompetitor);
+}
+
+/** Share of the corporation of the market for the products of an industry during the last cycle, from 0 to 1 */
+export function getMarketShare(corporation: Corporation, industry: IndustryType): number {
+  const competitors = corporation.competitors[industry];
+  if (!competitors) return 0;
+  return Math.max(0, 1 - competitors.reduce((total, competitor) => total + competitor.marketShare, 0));
+}
+
+/**
+ * Multiplier to the sales of the products of an industry from the market share of the corporation. It is 1 when the
+ * corporation has the same share as each competitor, and it is bounded so that competitors can't stop the sales.
+ */
+export function getMarketShareSalesMultiplier(corporation: Corporation, industry: IndustryType): number {
+  const competitors = corporation.competitors[industry];
+  if (!competitors || competitors.length === 0) return 1;
+  const evenShare = 1 / (competitors.length + 1);
+  const multiplier = Math.sqrt(getMarketShare(corporation, industry) / evenShare);
+  return Math.min(Math.max(multiplier, minSalesMultiplier), maxSalesMultiplier);
+}
+
+export function processCompetitors(corporation: Corporation): void {
+  const divisionsByIndustry = new Map<IndustryType, Division[]>();
+  for (const division of corporation.divisions.values()) {
+    if (!division.makesProducts) continue;
+    divisionsByIndustry.set(division.type, [...(divisionsByIndustry.get(division.type) ?? []), division]);
+  }
+
+  for (const [industry, divisions] of divisionsByIndustry) {
+    const competitors = getCompetitors(corporation, industry);
+    corporation.competitors[industry] = competitors;
+
+    const positions = divisions.map(getDivisionPosition);
+    const strength = positions.reduce((total, position) => total + position.strength, 0);
+    const priceMult = getAverage(positions.flatMap((position) => position.priceMults));
+
+    for (const competitor of competitors) {
+      const data = CompetitorsData[industry]?.find((competitorData) => competitorData.name === competitor.name);
+      if (!data) continue;
+      updatePrice(competitor, data, priceMult);
+      launchProduct(competitor, data, priceMult, divisions);
+    }
+
+    const totalStrength = competitors.reduce(
+      (total, competitor) => total + getCompetitorStrength(competitor),
+      strength,
+    );
+    for (const competitor of competitors) {
+      competitor.marketShare = totalStrength > 0 ? getCompetitorStrength(competitor) / totalStrength : 0;
+    }
+  }
+  // The competitors start over if the corporation enters an industry again
+  for (const industry of getRecordKeys(corporation.competitors)) {
+    if (!divisionsByIndustry.has(industry)) delete corporation.competitors[industry];
+  }
+}
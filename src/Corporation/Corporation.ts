@@ -1,7 +1,7 @@
 import type { PromisePair } from "../Types/Promises";
 import { Player } from "@player";
-import { CorpStateName, InvestmentOffer } from "@nsdefs";
-import { CorpUnlockName, CorpUpgradeName, LiteratureName } from "@enums";
+import { CorpCompetitor, CorporationHistoryEntry, CorpStateName, InvestmentOffer } from "@nsdefs";
+import { CorpUnlockName, CorpUpgradeName, IndustryType, LiteratureName } from "@enums";
 import { CorporationState } from "./CorporationState";
 import { CorpUnlocks } from "./data/CorporationUnlocks";
 import { CorpUpgrades } from "./data/CorporationUpgrades";
@@ -9,6 +9,8 @@ import * as corpConstants from "./data/Constants";
 import { FundsSource, LongTermFundsSources } from "./data/FundsSource";
 import { Division } from "./Division";
 import { calculateUpgradeCost } from "./helpers";
+import { applyPolicies } from "./Policies";
+import { processCompetitors } from "./Competitors";
 
 import { currentNodeMults } from "../BitNode/BitNodeMultipliers";
 import { showLiterature } from "../Literature/LiteratureHelpers";
@@ -18,7 +20,7 @@ import { constructorsForReviver, Generic_toJSON, Generic_fromJSON, IReviverValue
 import { JSONMap, JSONSet } from "../Types/Jsonable";
 import { formatMoney } from "../ui/formatNumber";
 import { isPositiveInteger } from "../types";
-import { createEnumKeyedRecord, getRecordValues } from "../Types/Record";
+import { PartialRecord, createEnumKeyedRecord, getRecordValues } from "../Types/Record";
 import { getKeyList } from "../utils/helpers/getKeyList";
 
 export const CorporationPromise: PromisePair<CorpStateName> = { promise: null, resolve: null };
@@ -76,6 +78,18 @@ export class Corporation {
   // This is used for calculating cycle valuation.
   numberOfOfficesAndWarehouses = 0;
 
+  /** The funds gained (positive) or spent (negative) by source since the start of the current cycle */
+  cycleFundsBySource: Partial<Record<FundsSource, number>> = {};
+  /** Financial records of the last cycles, the oldest first. There are at most corpConstants.historyLength. */
+  history: CorporationHistoryEntry[] = [];
+  /** The competitors in the industries in which the corporation makes products */
+  competitors: PartialRecord<IndustryType, CorpCompetitor[]> = {};
+  /**
+   * The errors of the processing of a simulation of the corporation, which aren't shown to the player.
+   * null if this isn't a simulation. Not saved.
+   */
+  simulationWarnings: string[] | null = null;
+
   constructor(params: ICorporationParams = {}) {
     this.name = params.name || "The Corporation";
     this.seedFunded = params.seedFunded ?? false;
@@ -95,6 +109,7 @@ export class Corporation {
       this.totalAssets += Math.abs(amt);
     }
     this.funds += amt;
+    this.cycleFundsBySource[source] = (this.cycleFundsBySource[source] ?? 0) + amt;
   }
 
   loseFunds(amt: number, source: FundsSource): void {
@@ -113,80 +128,126 @@ export class Corporation {
     if (this.storedCycles < 0) this.storedCycles = 0;
 
     if (this.storedCycles >= corpConstants.gameCyclesPerCorpStateCycle) {
-      const state = this.getNextState();
-      const marketCycles = 1;
-      const gameCycles = marketCycles * corpConstants.gameCyclesPerCorpStateCycle;
-      this.storedCycles -= gameCycles;
+      this.storedCycles -= corpConstants.gameCyclesPerCorpStateCycle;
+      const state = this.processState();
 
-      // Can't combine these loops, imports must be completely cleared before
-      // we start processing exports of any division.
-      for (const ind of this.divisions.values()) {
-        ind.resetImports(state);
+      // Handle "nextUpdate" resolver after this update
+      if (CorporationPromise.resolve) {
+        CorporationPromise.resolve(state);
+        CorporationPromise.resolve = null;
+        CorporationPromise.promise = null;
       }
+    }
+  }
+
+  /**
+   * Shows an error of the processing of the corporation to the player. In a simulation, it is kept as a warning of the
+   * simulation instead.
+   */
+  showProcessingError(message: string): void {
+    if (!this.simulationWarnings) dialogBoxCreate(message);
+    else if (!this.simulationWarnings.includes(message)) this.simulationWarnings.push(message);
+  }
+
+  /**
+   * Processes the next state of the corporation and its divisions
+   * @returns The state that was processed
+   */
+  processState(): CorpStateName {
+    const state = this.getNextState();
+    const marketCycles = 1;
+    const gameCycles = marketCycles * corpConstants.gameCyclesPerCorpStateCycle;
+
+    // Can't combine these loops, imports must be completely cleared before
+    // we start processing exports of any division.
+    for (const ind of this.divisions.values()) {
+      ind.resetImports(state);
+    }
+    if (state === "START") {
+      processCompetitors(this);
       for (const ind of this.divisions.values()) {
-        ind.process(marketCycles, this);
+        applyPolicies(this, ind);
       }
+    }
+    for (const ind of this.divisions.values()) {
+      ind.process(marketCycles, this);
+    }
 
-      // Process cooldowns
-      if (this.shareSaleCooldown > 0) {
-        this.shareSaleCooldown -= gameCycles;
-      }
-      if (this.issueNewSharesCooldown > 0) {
-        this.issueNewSharesCooldown -= gameCycles;
-      }
+    // Process cooldowns
+    if (this.shareSaleCooldown > 0) {
+      this.shareSaleCooldown -= gameCycles;
+    }
+    if (this.issueNewSharesCooldown > 0) {
+      this.issueNewSharesCooldown -= gameCycles;
+    }
 
-      //At the start of a new cycle, calculate profits from previous cycle
-      if (state === "START") {
-        this.revenue = 0;
-        this.expenses = 0;
-        this.divisions.forEach((ind) => {
-          if (ind.lastCycleRevenue === -Infinity || ind.lastCycleRevenue === Infinity) {
-            return;
-          }
-          if (ind.lastCycleExpenses === -Infinity || ind.lastCycleExpenses === Infinity) {
-            return;
-          }
-          this.revenue = this.revenue + ind.lastCycleRevenue;
-          this.expenses = this.expenses + ind.lastCycleExpenses;
-        });
-        if (isNaN(this.funds) || this.funds === Infinity || this.funds === -Infinity) {
-          dialogBoxCreate(
-            "There was an error calculating your Corporations funds and they got reset to 0. " +
-              "This is a bug. Please report to game developer.\n\n" +
-              "(Your funds have been set to $150b for the inconvenience)",
-          );
-          this.funds = 150e9;
+    //At the start of a new cycle, calculate profits from previous cycle
+    if (state === "START") {
+      this.revenue = 0;
+      this.expenses = 0;
+      this.divisions.forEach((ind) => {
+        if (ind.lastCycleRevenue === -Infinity || ind.lastCycleRevenue === Infinity) {
+          return;
         }
-        const cycleRevenue = this.revenue * (marketCycles * corpConstants.secondsPerMarketCycle);
-        const cycleExpenses = this.expenses * (marketCycles * corpConstants.secondsPerMarketCycle);
-        const cycleProfit = cycleRevenue - cycleExpenses;
-        this.gainFunds(cycleRevenue, "operating revenue");
-        this.loseFunds(cycleExpenses, "operating expenses");
-        if (this.dividendRate > 0 && cycleProfit > 0) {
-          // Validate input again, just to be safe
-          if (isNaN(this.dividendRate) || this.dividendRate < 0 || this.dividendRate > corpConstants.dividendMaxRate) {
-            console.error(`Invalid Corporation dividend rate: ${this.dividendRate}`);
-          } else {
-            const totalDividends = this.dividendRate * cycleProfit;
-            Player.gainMoney(this.getCycleDividends(), "corporation");
-            this.loseFunds(totalDividends, "dividends");
-          }
+        if (ind.lastCycleExpenses === -Infinity || ind.lastCycleExpenses === Infinity) {
+          return;
         }
-        this.updateTotalAssets();
-        this.cycleValuation = this.determineCycleValuation();
-        this.determineValuation();
-        this.updateSharePrice();
+        this.revenue = this.revenue + ind.lastCycleRevenue;
+        this.expenses = this.expenses + ind.lastCycleExpenses;
+      });
+      if (isNaN(this.funds) || this.funds === Infinity || this.funds === -Infinity) {
+        this.showProcessingError(
+          "There was an error calculating your Corporations funds and they got reset to 0. " +
+            "This is a bug. Please report to game developer.\n\n" +
+            "(Your funds have been set to $150b for the inconvenience)",
+        );
+        this.funds = 150e9;
       }
+      const cycleRevenue = this.revenue * (marketCycles * corpConstants.secondsPerMarketCycle);
+      const cycleExpenses = this.expenses * (marketCycles * corpConstants.secondsPerMarketCycle);
+      const cycleProfit = cycleRevenue - cycleExpenses;
+      this.gainFunds(cycleRevenue, "operating revenue");
+      this.loseFunds(cycleExpenses, "operating expenses");
+      if (this.dividendRate > 0 && cycleProfit > 0) {
+        // Validate input again, just to be safe
+        if (isNaN(this.dividendRate) || this.dividendRate < 0 || this.dividendRate > corpConstants.dividendMaxRate) {
+          console.error(`Invalid Corporation dividend rate: ${this.dividendRate}`);
+        } else {
+          const totalDividends = this.dividendRate * cycleProfit;
+          // A simulation doesn't pay dividends to the player
+          if (!this.simulationWarnings) Player.gainMoney(this.getCycleDividends(), "corporation");
+          this.loseFunds(totalDividends, "dividends");
+        }
+      }
+      this.updateTotalAssets();
+      this.cycleValuation = this.determineCycleValuation();
+      this.determineValuation();
+      this.updateSharePrice();
+      this.recordHistory();
+    }
 
-      this.state.incrementState();
+    this.state.incrementState();
+    return state;
+  }
 
-      // Handle "nextUpdate" resolver after this update
-      if (CorporationPromise.resolve) {
-        CorporationPromise.resolve(state);
-        CorporationPromise.resolve = null;
-        CorporationPromise.promise = null;
-      }
+  /** Adds the cycle that just ended to the history */
+  recordHistory(): void {
+    const divisions: CorporationHistoryEntry["divisions"] = {};
+    for (const division of this.divisions.values()) {
+      divisions[division.name] = { revenue: division.lastCycleRevenue, expenses: division.lastCycleExpenses };
     }
+    this.history.push({
+      timestamp: Date.now(),
+      funds: this.funds,
+      revenue: this.revenue,
+      expenses: this.expenses,
+      valuation: this.valuation,
+      sharePrice: this.sharePrice,
+      fundsBySource: this.cycleFundsBySource,
+      divisions,
+    });
+    if (this.history.length > corpConstants.historyLength) this.history.shift();
+    this.cycleFundsBySource = {};
   }
 
   getCycleDividends(): number {
@@ -462,7 +523,9 @@ export class Corporation {
   }
 
   // Exclude numberOfOfficesAndWarehouses
-  static includedProperties = getKeyList(Corporation, { removedKeys: ["numberOfOfficesAndWarehouses"] });
+  static includedProperties = getKeyList(Corporation, {
+    removedKeys: ["numberOfOfficesAndWarehouses", "simulationWarnings"],
+  });
 
   /** Serialize the current object to a JSON save state. */
   toJSON(): IReviverValue {
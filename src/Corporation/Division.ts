@@ -7,7 +7,6 @@ import { getRandomIntInclusive } from "../utils/helpers/getRandomIntInclusive";
 import { calculateEffectWithFactors } from "../utils/calculateEffectWithFactors";
 import { OfficeSpace } from "./OfficeSpace";
 import { Product } from "./Product";
-import { dialogBoxCreate } from "../ui/React/DialogBox";
 import { MaterialInfo } from "./MaterialInfo";
 import { Warehouse } from "./Warehouse";
 import { Corporation } from "./Corporation";
@@ -16,6 +15,8 @@ import { PartialRecord, getRecordEntries, getRecordKeys, getRecordValues } from
 import { Material } from "./Material";
 import { getKeyList } from "../utils/helpers/getKeyList";
 import { calculateMarkupMultiplier } from "./helpers";
+import { DivisionPolicies, getDefaultPolicies } from "./Policies";
+import { getMarketShareSalesMultiplier } from "./Competitors";
 
 interface DivisionParams {
   name: string;
@@ -81,6 +82,9 @@ export class Division {
 
   numAdVerts = 0;
 
+  /** Automation of the offices and products of this division, applied at the start of each cycle */
+  policies: DivisionPolicies = getDefaultPolicies();
+
   constructor(params: DivisionParams | null = null) {
     if (!params) return;
     // Must be initialized inside the constructor because it references the industry
@@ -159,7 +163,7 @@ export class Division {
     if (state === "START") {
       if (isNaN(this.thisCycleRevenue) || isNaN(this.thisCycleExpenses)) {
         console.error("NaN in Corporation's computed revenue/expenses");
-        dialogBoxCreate(
+        corporation.showProcessingError(
           "Something went wrong when compting Corporation's revenue/expenses. This is a bug. Please report to game developer",
         );
         this.thisCycleRevenue = 0;
@@ -529,7 +533,7 @@ export class Division {
               try {
                 sellAmt = eval?.(tmp);
               } catch (e) {
-                dialogBoxCreate(
+                corporation.showProcessingError(
                   `Error evaluating your sell amount for material ${mat.name} in ${this.name}'s ${city} office. The sell amount is being set to zero`,
                 );
                 sellAmt = 0;
@@ -644,13 +648,13 @@ export class Division {
                 try {
                   amt = eval?.(amtStr);
                 } catch (e) {
-                  dialogBoxCreate(
+                  corporation.showProcessingError(
                     `Calculating export for ${mat.name} in ${this.name}'s ${city} division failed with error: ${e}`,
                   );
                   continue;
                 }
                 if (isNaN(amt)) {
-                  dialogBoxCreate(
+                  corporation.showProcessingError(
                     `Error calculating export amount for ${mat.name} in ${this.name}'s ${city} division.`,
                   );
                   continue;
@@ -832,6 +836,7 @@ export class Division {
           const businessFactor = this.getBusinessFactor(office); //Business employee productivity
           const advertisingFactor = this.getAdvertisingFactors()[0]; //Awareness + popularity
           const marketFactor = this.getMarketFactor(product); //Competition + demand
+          const marketShareFactor = getMarketShareSalesMultiplier(corporation, this.type); //Competitors
 
           // Parse player sell-amount input (needed for TA.II and selling)
           let sellAmt: number | string;
@@ -847,7 +852,7 @@ export class Division {
               tmp = eval?.(tmp);
               if (typeof tmp !== "number") throw "";
             } catch (e) {
-              dialogBoxCreate(
+              corporation.showProcessingError(
                 `Error evaluating your sell price expression for ${product.name} in ${this.name}'s ${city} office. Sell price is being set to MAX`,
               );
               tmp = product.maxSellAmount;
@@ -874,6 +879,7 @@ export class Division {
               0.5 *
               Math.pow(product.cityData[city].effectiveRating, 0.65) *
               marketFactor *
+              marketShareFactor *
               corporation.getSalesMult() *
               businessFactor *
               advertisingFactor *
@@ -914,6 +920,7 @@ export class Division {
             0.5 *
             Math.pow(product.cityData[city].effectiveRating, 0.65) *
             marketFactor *
+            marketShareFactor *
             corporation.getSalesMult() *
             markupMultiplier *
             businessFactor *
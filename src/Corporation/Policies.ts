@@ -0,0 +1,103 @@
+/**
+ * Policies of a division, which automate the management of its offices and products without a script.
+ * They are applied at the start of each cycle, before the offices are processed, so that the tea and parties bought
+ * by a policy have an effect in the same cycle.
+ */
+import { CorpEmployeeJob } from "@enums";
+import type { Corporation } from "./Corporation";
+import type { Division } from "./Division";
+import type { OfficeSpace } from "./OfficeSpace";
+import { buyTea, throwParty } from "./Actions";
+import { PartialRecord, getRecordEntries, getRecordValues } from "../Types/Record";
+
+export interface DivisionPolicies {
+  /**
+   * Buy tea for an office when the average energy of its employees is below this. 0 disables the policy.
+   * At most the maximum energy of the offices.
+   */
+  minEnergy: number;
+  /**
+   * Throw a party in an office when the average morale of its employees is below this. 0 disables the policy.
+   * At most the maximum morale of the offices.
+   */
+  minMorale: number;
+  /** How much a party of the morale policy costs per employee */
+  partyCostPerEmployee: number;
+  /** Hire employees until the offices are full */
+  hireToCapacity: boolean;
+  /**
+   * Assigns the unassigned employees of the offices so that the jobs have these ratios of employees.
+   * Jobs without a ratio don't get employees. Nothing is assigned if there are no ratios.
+   */
+  jobRatios: PartialRecord<CorpEmployeeJob, number>;
+  /** When the division has the maximum number of products and none is in development, discontinue the lowest rated */
+  discontinueLowestRatedProduct: boolean;
+}
+
+export function getDefaultPolicies(): DivisionPolicies {
+  return {
+    minEnergy: 0,
+    minMorale: 0,
+    partyCostPerEmployee: 500e3,
+    hireToCapacity: false,
+    jobRatios: {},
+    discontinueLowestRatedProduct: false,
+  };
+}
+
+export function getActivePolicyCount(policies: DivisionPolicies): number {
+  return [
+    policies.minEnergy > 0,
+    policies.minMorale > 0 && policies.partyCostPerEmployee > 0,
+    policies.hireToCapacity,
+    getRecordValues(policies.jobRatios).some((ratio) => ratio > 0),
+    policies.discontinueLowestRatedProduct,
+  ].filter((active) => active).length;
+}
+
+/** Assigns the unassigned employees one at a time, to the job that is the furthest below its ratio */
+function assignJobsByRatio(office: OfficeSpace, jobRatios: PartialRecord<CorpEmployeeJob, number>): void {
+  const ratios = getRecordEntries(jobRatios).filter(([job, ratio]) => job !== CorpEmployeeJob.Unassigned && ratio > 0);
+  const totalRatio = ratios.reduce((total, [, ratio]) => total + ratio, 0);
+  if (totalRatio <= 0) return;
+
+  while (office.employeeNextJobs[CorpEmployeeJob.Unassigned] > 0) {
+    let assignedJob = ratios[0][0];
+    let largestShortage = -Infinity;
+    for (const [job, ratio] of ratios) {
+      const shortage = (ratio / totalRatio) * office.numEmployees - office.employeeNextJobs[job];
+      if (shortage > largestShortage) {
+        assignedJob = job;
+        largestShortage = shortage;
+      }
+    }
+    office.autoAssignJob(assignedJob, office.employeeNextJobs[assignedJob] + 1);
+  }
+}
+
+function discontinueLowestRatedProduct(division: Division): void {
+  if (!division.makesProducts || !division.hasMaximumNumberProducts()) return;
+  const products = [...division.products.values()];
+  // Wait for the products in development, so that they get a rating before one is chosen
+  if (products.some((product) => !product.finished)) return;
+  const lowestRated = products.reduce((lowest, product) => (product.rating < lowest.rating ? product : lowest));
+  division.discontinueProduct(lowestRated.name);
+}
+
+/** Applies the policies of a division. Policies that can't be afforded are skipped. */
+export function applyPolicies(corporation: Corporation, division: Division): void {
+  const policies = division.policies;
+  for (const office of getRecordValues(division.offices)) {
+    if (policies.hireToCapacity) {
+      while (!office.atCapacity()) office.hireRandomEmployee(CorpEmployeeJob.Unassigned);
+    }
+    assignJobsByRatio(office, policies.jobRatios);
+    if (policies.minEnergy > 0 && office.avgEnergy < policies.minEnergy) {
+      buyTea(corporation, office);
+    }
+    if (policies.minMorale > 0 && policies.partyCostPerEmployee > 0 && office.avgMorale < policies.minMorale) {
+      throwParty(corporation, office, policies.partyCostPerEmployee);
+    }
+  }
+  if (policies.discontinueLowestRatedProduct) discontinueLowestRatedProduct(division);
+}
@@ -0,0 +1,165 @@
+/**
+ * Simulation of a corporation, used by ns.formulas.corporation.simulate.
+ * The simulation processes the states of a copy of the corporation, so it doesn't change the save. Errors of the
+ * processing are returned as warnings of the simulation instead of being shown to the player. Math.random is
+ * seeded by the snapshot during the simulation, so that simulations of the same snapshot have the same market changes.
+ */
+import type {
+  CorporationSimulationDecision,
+  CorporationSimulationDivision,
+  CorporationSimulationResult,
+  CorpMaterialName,
+} from "@nsdefs";
+import { CorpEmployeeJob } from "@enums";
+import { Corporation } from "./Corporation";
+import { buyMaterial, sellMaterial, sellProduct, setSmartSupply } from "./Actions";
+import { Reviver } from "../utils/JSONReviver";
+import { SFC32RNG } from "../Casino/RNG";
+import { isMember } from "../utils/EnumHelper";
+import { getRecordEntries, getRecordKeys, getRecordValues } from "../Types/Record";
+import { omit } from "lodash";
+
+/** The simulation runs synchronously, so the number of cycles is limited to keep the game responsive */
+export const maxSimulationCycles = 1000;
+
+export function getCorporationSnapshot(corporation: Corporation): string {
+  return JSON.stringify(corporation);
+}
+
+function parseSnapshot(snapshot: string): Corporation {
+  let corporation: unknown;
+  try {
+    corporation = JSON.parse(snapshot, Reviver);
+  } catch (error) {
+    throw new Error(`The snapshot is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!(corporation instanceof Corporation)) throw new Error("The snapshot is not a corporation.");
+  return corporation;
+}
+
+/** Makes a decision of the simulation, throwing an error if it is invalid */
+function applyDecision(corporation: Corporation, decision: CorporationSimulationDecision): void {
+  const division = corporation.divisions.get(decision.divisionName);
+  if (!division) throw new Error(`No division named '${decision.divisionName}'`);
+  if (!isMember("CityName", decision.city)) throw new Error(`Invalid city: '${decision.city}'`);
+  const office = division.offices[decision.city];
+  const warehouse = division.warehouses[decision.city];
+  switch (decision.type) {
+    case "buyMaterial":
+    case "sellMaterial": {
+      if (!warehouse) throw new Error(`${division.name} does not have a warehouse in '${decision.city}'`);
+      if (!isMember("CorpMaterialName", decision.materialName)) {
+        throw new Error(`Invalid material: '${decision.materialName}'`);
+      }
+      const material = warehouse.materials[decision.materialName];
+      if (decision.type === "buyMaterial") buyMaterial(division, material, decision.amount);
+      else sellMaterial(material, String(decision.amount), String(decision.price));
+      return;
+    }
+    case "sellProduct": {
+      const product = division.products.get(decision.productName);
+      if (!product) throw new Error(`No product named '${decision.productName}'`);
+      sellProduct(product, decision.city, String(decision.amount), String(decision.price), !!decision.all);
+      return;
+    }
+    case "setSmartSupply":
+      if (!warehouse) throw new Error(`${division.name} does not have a warehouse in '${decision.city}'`);
+      setSmartSupply(warehouse, !!decision.enabled);
+      return;
+    case "setAutoJobAssignment":
+      if (!office) throw new Error(`${division.name} has not expanded to '${decision.city}'`);
+      if (!isMember("CorpEmployeeJob", decision.job) || decision.job === CorpEmployeeJob.Unassigned) {
+        throw new Error(`Invalid job: '${decision.job}'`);
+      }
+      if (!Number.isInteger(decision.amount) || decision.amount < 0) {
+        throw new Error(`Invalid amount of employees: '${decision.amount}'`);
+      }
+      if (!office.autoAssignJob(decision.job, decision.amount)) {
+        throw new Error(`Not enough unassigned employees to bring '${decision.job}' employees to ${decision.amount}`);
+      }
+      return;
+    default:
+      throw new Error(`Invalid decision type: '${(decision as { type: unknown }).type}'`);
+  }
+}
+
+function getDivisionResult(corporation: Corporation): Record<string, CorporationSimulationDivision> {
+  const divisions: Record<string, CorporationSimulationDivision> = {};
+  for (const division of corporation.divisions.values()) {
+    const result: CorporationSimulationDivision = { materials: {}, products: {} };
+    for (const [city, warehouse] of getRecordEntries(division.warehouses)) {
+      result.materials[city] = Object.fromEntries(
+        getRecordValues(warehouse.materials).map((material) => [material.name, material.stored]),
+      ) as Record<CorpMaterialName, number>;
+    }
+    for (const product of division.products.values()) {
+      result.products[product.name] = {
+        developmentProgress: product.developmentProgress,
+        rating: product.rating,
+        effectiveRating: {},
+        stored: {},
+      };
+      for (const city of getRecordKeys(division.warehouses)) {
+        result.products[product.name].effectiveRating[city] = product.cityData[city].effectiveRating;
+        result.products[product.name].stored[city] = product.cityData[city].stored;
+      }
+    }
+    divisions[division.name] = result;
+  }
+  return divisions;
+}
+
+/**
+ * Simulates a corporation for a number of cycles
+ * @param snapshot - The corporation to simulate, as returned by getCorporationSnapshot
+ * @param cycles - The number of cycles to simulate, at most maxSimulationCycles
+ * @param decisions - Changes to the corporation, which are made after their number of simulated cycles
+ */
+export function simulateCorporation(
+  snapshot: string,
+  cycles: number,
+  decisions: CorporationSimulationDecision[],
+): CorporationSimulationResult {
+  for (const [index, decision] of decisions.entries()) {
+    if (!Number.isInteger(decision?.cycle) || decision.cycle < 0 || decision.cycle >= cycles) {
+      throw new Error(`Decision ${index} has an invalid cycle. It must be an integer from 0 to ${cycles - 1}.`);
+    }
+  }
+  const corporation = parseSnapshot(snapshot);
+  corporation.simulationWarnings = [];
+  const result: CorporationSimulationResult = { snapshot: "", cycles: [], funds: 0, divisions: {}, warnings: [] };
+
+  const random = Math.random;
+  Math.random = SFC32RNG(snapshot);
+  try {
+    // A cycle ends with a START state, which is not the first state of the simulation
+    let statesInCycle = 0;
+    while (result.cycles.length < cycles) {
+      if (statesInCycle === 0) {
+        for (const [index, decision] of decisions.entries()) {
+          if (decision.cycle !== result.cycles.length) continue;
+          try {
+            applyDecision(corporation, decision);
+          } catch (error) {
+            throw new Error(`Decision ${index}: ${error instanceof Error ? error.message : String(error)}`);
+          }
+        }
+      }
+      const state = corporation.processState();
+      if (state === "START" && statesInCycle > 0) {
+        result.cycles.push(omit(corporation.history[corporation.history.length - 1], "timestamp"));
+        statesInCycle = 0;
+      } else {
+        statesInCycle++;
+      }
+    }
+  } finally {
+    Math.random = random;
+  }
+
+  result.snapshot = getCorporationSnapshot(corporation);
+  result.funds = corporation.funds;
+  result.divisions = getDivisionResult(corporation);
+  result.warnings = corporation.simulationWarnings;
+  return result;
+}
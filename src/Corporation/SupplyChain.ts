@@ -0,0 +1,113 @@
+/**
+ * The supply chain of a corporation: the warehouses of its divisions, and the exports of materials between them.
+ * Used by the supply chain view of the corporation UI.
+ */
+import type { CorpMaterialName } from "@nsdefs";
+import type { CityName } from "@enums";
+import type { Corporation } from "./Corporation";
+import type { Division } from "./Division";
+import type { Export } from "./Export";
+import type { Material } from "./Material";
+import type { Warehouse } from "./Warehouse";
+import * as corpConstants from "./data/Constants";
+import { getRecordEntries } from "../Types/Record";
+
+/** How much the inflow and outflow of a material can differ, relative to the larger one, before it is a bottleneck */
+const imbalanceTolerance = 0.05;
+
+/** What happened to a material in a warehouse during the last cycle. All amounts are per second. */
+export interface MaterialFlow {
+  material: Material;
+  /** Negative for a material that is consumed by production */
+  production: number;
+  purchase: number;
+  import: number;
+  export: number;
+  sale: number;
+  /** Inflow minus outflow */
+  balance: number;
+  /**
+   * "surplus" if more of the material is produced and imported than is used, exported and sold, so that it piles up
+   * in the warehouse. "shortage" if more is used, exported and sold than comes in, and the warehouse will run out of it.
+   */
+  bottleneck: "surplus" | "shortage" | null;
+}
+
+export interface SupplyChainNode {
+  /** "division/city" */
+  id: string;
+  division: Division;
+  city: CityName;
+  warehouse: Warehouse;
+  /** The materials that the division uses, produces, buys or exports in this city */
+  flows: MaterialFlow[];
+}
+
+export interface SupplyChainEdge {
+  from: string;
+  to: string;
+  /** The exported material, in the warehouse of the source node */
+  material: Material;
+  export: Export;
+}
+
+export interface SupplyChain {
+  nodes: SupplyChainNode[];
+  edges: SupplyChainEdge[];
+}
+
+export function getNodeId(divisionName: string, city: CityName): string {
+  return `${divisionName}/${city}`;
+}
+
+function getMaterialFlow(material: Material): MaterialFlow {
+  const production = material.productionAmount;
+  const supplied = Math.max(production, 0) + material.importAmount;
+  const used = Math.max(-production, 0) + material.exportedLastCycle + material.actualSellAmount;
+  const inflow = supplied + material.buyAmount;
+  const tolerance = imbalanceTolerance * Math.max(inflow, used);
+
+  let bottleneck: MaterialFlow["bottleneck"] = null;
+  // Purchases are left out, they are usually meant to build up a stock
+  if (supplied - used > tolerance) bottleneck = "surplus";
+  else if (used - inflow > tolerance && material.stored < used * corpConstants.secondsPerMarketCycle) {
+    bottleneck = "shortage";
+  }
+  return {
+    material,
+    production,
+    purchase: material.buyAmount,
+    import: material.importAmount,
+    export: material.exportedLastCycle,
+    sale: material.actualSellAmount,
+    balance: inflow - used,
+    bottleneck,
+  };
+}
+
+function isUsedMaterial(division: Division, name: CorpMaterialName, material: Material): boolean {
+  if (division.requiredMaterials[name] || division.producedMaterials.includes(name)) return true;
+  return material.buyAmount !== 0 || material.importAmount !== 0 || material.exports.length > 0;
+}
+
+export function getSupplyChain(corporation: Corporation): SupplyChain {
+  const nodes: SupplyChainNode[] = [];
+  const edges: SupplyChainEdge[] = [];
+  for (const division of corporation.divisions.values()) {
+    for (const [city, warehouse] of getRecordEntries(division.warehouses)) {
+      const id = getNodeId(division.name, city);
+      const flows: MaterialFlow[] = [];
+      for (const [name, material] of getRecordEntries(warehouse.materials)) {
+        if (!isUsedMaterial(division, name, material)) continue;
+        flows.push(getMaterialFlow(material));
+        for (const exp of material.exports) {
+          edges.push({ from: id, to: getNodeId(exp.division, exp.city), material, export: exp });
+        }
+      }
+      nodes.push({ id, division, city, warehouse, flows });
+    }
+  }
+  // Exports to warehouses that no longer exist are not processed, so they are not shown
+  const ids = new Set(nodes.map((node) => node.id));
+  return { nodes, edges: edges.filter((edge) => ids.has(edge.to)) };
+}
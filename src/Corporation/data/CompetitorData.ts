@@ -0,0 +1,280 @@
+import { IndustryType } from "@enums";
+import { PartialRecord } from "../../Types/Record";
+
+/** A competitor of the corporation in the market for the products of an industry */
+export interface CompetitorData {
+  name: string;
+  /** Number of products on the market when the corporation enters the industry */
+  products: number;
+  /** Maximum number of products on the market. At the maximum, a new product replaces one of them. */
+  maxProducts: number;
+  /** Average rating of its products when the corporation enters the industry */
+  rating: number;
+  /** Multiplier to the average rating of its products for the rating of a new product */
+  ratingGrowth: number;
+  /** Highest rating of its products */
+  maxRating: number;
+  /** Chance of launching a product each cycle */
+  launchChance: number;
+  /** How much the competition of the products of the corporation increases when it launches a product */
+  launchCompetition: number;
+  /** Price of its products relative to the market price, when it isn't undercut */
+  priceMult: number;
+  /** Lowest price it goes down to when it is undercut, relative to the market price */
+  minPriceMult: number;
+  /** How much of the difference to the price of the corporation it closes each cycle when it is undercut */
+  aggressiveness: number;
+}
+
+export const CompetitorsData: PartialRecord<IndustryType, CompetitorData[]> = {
+  [IndustryType.Restaurant]: [
+    {
+      name: "Noodle Bar",
+      products: 2,
+      maxProducts: 3,
+      rating: 15,
+      ratingGrowth: 1.01,
+      maxRating: 300,
+      launchChance: 0.004,
+      launchCompetition: 0.5,
+      priceMult: 0.9,
+      minPriceMult: 0.7,
+      aggressiveness: 0.2,
+    },
+    {
+      name: "FoodNStuff",
+      products: 3,
+      maxProducts: 5,
+      rating: 10,
+      ratingGrowth: 1.01,
+      maxRating: 200,
+      launchChance: 0.003,
+      launchCompetition: 0.5,
+      priceMult: 0.8,
+      minPriceMult: 0.6,
+      aggressiveness: 0.1,
+    },
+  ],
+  [IndustryType.Tobacco]: [
+    {
+      name: "Blue Haze Tobacco",
+      products: 3,
+      maxProducts: 4,
+      rating: 20,
+      ratingGrowth: 1.02,
+      maxRating: 400,
+      launchChance: 0.004,
+      launchCompetition: 1,
+      priceMult: 1,
+      minPriceMult: 0.8,
+      aggressiveness: 0.15,
+    },
+    {
+      name: "Ishima Leaf Company",
+      products: 2,
+      maxProducts: 3,
+      rating: 30,
+      ratingGrowth: 1.02,
+      maxRating: 600,
+      launchChance: 0.002,
+      launchCompetition: 1.5,
+      priceMult: 1.2,
+      minPriceMult: 1,
+      aggressiveness: 0.05,
+    },
+  ],
+  [IndustryType.Pharmaceutical]: [
+    {
+      name: "Global Pharmaceuticals",
+      products: 3,
+      maxProducts: 5,
+      rating: 40,
+      ratingGrowth: 1.03,
+      maxRating: 800,
+      launchChance: 0.003,
+      launchCompetition: 1.5,
+      priceMult: 1.1,
+      minPriceMult: 0.9,
+      aggressiveness: 0.1,
+    },
+    {
+      name: "Helios Labs",
+      products: 1,
+      maxProducts: 3,
+      rating: 60,
+      ratingGrowth: 1.04,
+      maxRating: 1200,
+      launchChance: 0.002,
+      launchCompetition: 2,
+      priceMult: 1.3,
+      minPriceMult: 1.1,
+      aggressiveness: 0.05,
+    },
+  ],
+  [IndustryType.Computers]: [
+    {
+      name: "CompuTek",
+      products: 3,
+      maxProducts: 4,
+      rating: 30,
+      ratingGrowth: 1.02,
+      maxRating: 600,
+      launchChance: 0.004,
+      launchCompetition: 1,
+      priceMult: 0.9,
+      minPriceMult: 0.7,
+      aggressiveness: 0.25,
+    },
+    {
+      name: "Icarus Microsystems",
+      products: 2,
+      maxProducts: 3,
+      rating: 45,
+      ratingGrowth: 1.03,
+      maxRating: 900,
+      launchChance: 0.003,
+      launchCompetition: 1.5,
+      priceMult: 1.1,
+      minPriceMult: 0.9,
+      aggressiveness: 0.1,
+    },
+    {
+      name: "Galactic Cybersystems",
+      products: 1,
+      maxProducts: 3,
+      rating: 60,
+      ratingGrowth: 1.03,
+      maxRating: 1200,
+      launchChance: 0.002,
+      launchCompetition: 2,
+      priceMult: 1.3,
+      minPriceMult: 1.1,
+      aggressiveness: 0.05,
+    },
+  ],
+  [IndustryType.Robotics]: [
+    {
+      name: "Storm Technologies",
+      products: 2,
+      maxProducts: 4,
+      rating: 40,
+      ratingGrowth: 1.03,
+      maxRating: 800,
+      launchChance: 0.003,
+      launchCompetition: 1.5,
+      priceMult: 1,
+      minPriceMult: 0.8,
+      aggressiveness: 0.15,
+    },
+    {
+      name: "OmniTek Incorporated",
+      products: 2,
+      maxProducts: 3,
+      rating: 60,
+      ratingGrowth: 1.03,
+      maxRating: 1200,
+      launchChance: 0.002,
+      launchCompetition: 2,
+      priceMult: 1.2,
+      minPriceMult: 1,
+      aggressiveness: 0.1,
+    },
+  ],
+  [IndustryType.Software]: [
+    {
+      name: "Omega Software",
+      products: 3,
+      maxProducts: 5,
+      rating: 25,
+      ratingGrowth: 1.02,
+      maxRating: 500,
+      launchChance: 0.005,
+      launchCompetition: 1,
+      priceMult: 0.8,
+      minPriceMult: 0.6,
+      aggressiveness: 0.3,
+    },
+    {
+      name: "NetLink Technologies",
+      products: 2,
+      maxProducts: 4,
+      rating: 35,
+      ratingGrowth: 1.02,
+      maxRating: 700,
+      launchChance: 0.004,
+      launchCompetition: 1,
+      priceMult: 1,
+      minPriceMult: 0.8,
+      aggressiveness: 0.15,
+    },
+    {
+      name: "Omnia Cybersystems",
+      products: 1,
+      maxProducts: 3,
+      rating: 50,
+      ratingGrowth: 1.03,
+      maxRating: 1000,
+      launchChance: 0.003,
+      launchCompetition: 1.5,
+      priceMult: 1.2,
+      minPriceMult: 1,
+      aggressiveness: 0.05,
+    },
+  ],
+  [IndustryType.Healthcare]: [
+    {
+      name: "Nova Medical",
+      products: 2,
+      maxProducts: 3,
+      rating: 50,
+      ratingGrowth: 1.03,
+      maxRating: 1000,
+      launchChance: 0.002,
+      launchCompetition: 2,
+      priceMult: 1.2,
+      minPriceMult: 1,
+      aggressiveness: 0.1,
+    },
+    {
+      name: "Vita Life",
+      products: 2,
+      maxProducts: 4,
+      rating: 40,
+      ratingGrowth: 1.02,
+      maxRating: 800,
+      launchChance: 0.003,
+      launchCompetition: 1.5,
+      priceMult: 1,
+      minPriceMult: 0.8,
+      aggressiveness: 0.15,
+    },
+  ],
+  [IndustryType.RealEstate]: [
+    {
+      name: "Rho Construction",
+      products: 3,
+      maxProducts: 5,
+      rating: 30,
+      ratingGrowth: 1.02,
+      maxRating: 600,
+      launchChance: 0.003,
+      launchCompetition: 1,
+      priceMult: 1,
+      minPriceMult: 0.8,
+      aggressiveness: 0.1,
+    },
+    {
+      name: "Alpha Enterprises",
+      products: 2,
+      maxProducts: 4,
+      rating: 35,
+      ratingGrowth: 1.02,
+      maxRating: 700,
+      launchChance: 0.003,
+      launchCompetition: 1,
+      priceMult: 1.1,
+      minPriceMult: 0.9,
+      aggressiveness: 0.2,
+    },
+  ],
+};
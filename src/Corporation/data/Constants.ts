@@ -69,6 +69,8 @@ export const stateNames: CorpStateName[] = ["START", "PURCHASE", "PRODUCTION", "
   fundingRoundShares = [0.1, 0.35, 0.25, 0.2],
   fundingRoundMultiplier = [3, 2, 2, 1.5],
   valuationLength = 10,
+  /** Number of cycles that are kept in the financial history of the corporation */
+  historyLength = 100,
   /** Minimum decay value for employee morale/energy */
   minEmployeeDecay = 10,
   /** smart supply options */
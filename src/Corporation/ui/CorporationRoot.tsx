@@ -7,6 +7,7 @@ import { NewDivisionTab } from "./NewDivisionTab";
 import { Player } from "@player";
 import { Context } from "./Context";
 import { Overview } from "./Overview";
+import { SupplyChainView } from "./SupplyChain";
 
 import Tabs from "@mui/material/Tabs";
 import Tab from "@mui/material/Tab";
@@ -33,9 +34,11 @@ export function CorporationRoot(): React.ReactElement {
           <Tab key={div.name} label={div.name} value={div.name} />
         ))}
         {canExpand && <Tab label={"Expand"} value={-1} />}
+        {corporation.divisions.size > 0 && <Tab label={"Supply chain"} value={-2} />}
       </Tabs>
       {divisionName === "Overview" && <Overview rerender={rerender} />}
       {divisionName === -1 && <NewDivisionTab setDivisionName={setDivisionName} />}
+      {divisionName === -2 && <SupplyChainView />}
       {typeof divisionName === "string" && divisionName !== "Overview" && (
         <MainPanel rerender={rerender} divisionName={divisionName + ""} />
       )}
@@ -5,10 +5,13 @@ import { MathJax } from "better-react-mathjax";
 
 import { CorpUnlockName, IndustryType } from "@enums";
 import { hireAdVert } from "../Actions";
-import { formatBigNumber, formatCorpMultiplier } from "../../ui/formatNumber";
+import { formatBigNumber, formatCorpMultiplier, formatPercent } from "../../ui/formatNumber";
 import { createProgressBarText } from "../../utils/helpers/createProgressBarText";
 import { MakeProductModal } from "./modals/MakeProductModal";
 import { ResearchModal } from "./modals/ResearchModal";
+import { PoliciesModal } from "./modals/PoliciesModal";
+import { getActivePolicyCount } from "../Policies";
+import { getCompetitors, getMarketShare, getMarketShareSalesMultiplier } from "../Competitors";
 import { Money } from "../../ui/React/Money";
 import { MoneyRate } from "../../ui/React/MoneyRate";
 import { StatsTable } from "../../ui/React/StatsTable";
@@ -91,6 +94,49 @@ function MakeProductButton(): React.ReactElement {
   );
 }
 
+function MarketShare(): React.ReactElement {
+  const corp = useCorporation();
+  const division = useDivision();
+  const competitors = getCompetitors(corp, division.type);
+  if (competitors.length === 0) return <></>;
+
+  return (
+    <>
+      <br />
+      <Tooltip
+        title={
+          <Typography>
+            Your share of the market for {division.type} products during the last cycle. It grows with the rating of
+            your products, and shrinks when you sell them above their market price. Competitors launch products, which
+            increases the competition of your products, and lower their prices when your products undercut them.
+            <br />
+            <br />
+            Your products sell more when your share is larger than the share of each competitor, and less when it is
+            smaller, from half as much to twice as much.
+          </Typography>
+        }
+      >
+        <Typography>
+          Market share: {formatPercent(getMarketShare(corp, division.type))} (sales multiplier:{" "}
+          {formatCorpMultiplier(getMarketShareSalesMultiplier(corp, division.type))})
+        </Typography>
+      </Tooltip>
+      <StatsTable
+        rows={[
+          ["Competitor", "Products", "Rating", "Price", "Market share"],
+          ...competitors.map((competitor) => [
+            competitor.name,
+            competitor.products,
+            formatBigNumber(competitor.rating),
+            formatCorpMultiplier(competitor.priceMult),
+            formatPercent(competitor.marketShare),
+          ]),
+        ]}
+      />
+    </>
+  );
+}
+
 interface DivisionOverviewProps {
   rerender: () => void;
 }
@@ -100,6 +146,7 @@ export function DivisionOverview(props: DivisionOverviewProps): React.ReactEleme
   const division = useDivision();
   const [helpOpen, setHelpOpen] = useState(false);
   const [researchOpen, setResearchOpen] = useState(false);
+  const [policiesOpen, setPoliciesOpen] = useState(false);
   const profit = division.lastCycleRevenue - division.lastCycleExpenses;
 
   let advertisingInfo = false;
@@ -162,6 +209,7 @@ export function DivisionOverview(props: DivisionOverviewProps): React.ReactEleme
           ["Profit:", <MoneyRate key="profit" money={profit} />],
         ]}
       />
+      {division.makesProducts && <MarketShare />}
       <br />
       <Box display="flex" alignItems="center">
         <Tooltip
@@ -213,6 +261,15 @@ export function DivisionOverview(props: DivisionOverviewProps): React.ReactEleme
         </Button>
         <ResearchModal open={researchOpen} onClose={() => setResearchOpen(false)} industry={division} />
       </Box>
+      <Box display="flex" alignItems="center">
+        <Tooltip title={"Policies automate the tea, parties, hiring and job assignments of the offices, and products."}>
+          <Typography>Policies: {getActivePolicyCount(division.policies)} active</Typography>
+        </Tooltip>
+        <Button sx={{ mx: 1 }} onClick={() => setPoliciesOpen(true)}>
+          Policies
+        </Button>
+        {policiesOpen && <PoliciesModal open={policiesOpen} onClose={() => setPoliciesOpen(false)} />}
+      </Box>
       <br />
       <Box display="flex" alignItems="center">
         <ButtonWithTooltip
@@ -0,0 +1,99 @@
+// React Component for displaying the financial history of the Corporation
+import React, { useState } from "react";
+
+import Box from "@mui/material/Box";
+import MenuItem from "@mui/material/MenuItem";
+import Paper from "@mui/material/Paper";
+import Select, { SelectChangeEvent } from "@mui/material/Select";
+import Typography from "@mui/material/Typography";
+
+import * as corpConstants from "../data/Constants";
+import { useCorporation } from "./Context";
+import { LineChart, LineChartSeries } from "../../ui/React/LineChart";
+import { Money } from "../../ui/React/Money";
+import { StatsTable } from "../../ui/React/StatsTable";
+import { formatMoney } from "../../ui/formatNumber";
+
+enum HistoryChartType {
+  Funds = "Funds",
+  Profit = "Revenue and expenses",
+  Divisions = "Profit by division",
+  Valuation = "Valuation",
+  SharePrice = "Share price",
+}
+
+export function HistoryChart(): React.ReactElement {
+  const corp = useCorporation();
+  const [chartType, setChartType] = useState(HistoryChartType.Funds);
+  const history = corp.history;
+
+  let series: LineChartSeries[];
+  let formatValue = (value: number) => formatMoney(value);
+  switch (chartType) {
+    case HistoryChartType.Funds:
+      series = [{ label: "Funds", values: history.map((cycle) => cycle.funds) }];
+      break;
+    case HistoryChartType.Profit:
+      series = [
+        { label: "Revenue", values: history.map((cycle) => cycle.revenue) },
+        { label: "Expenses", values: history.map((cycle) => cycle.expenses) },
+        { label: "Profit", values: history.map((cycle) => cycle.revenue - cycle.expenses) },
+      ];
+      formatValue = (value) => `${formatMoney(value)} / s`;
+      break;
+    case HistoryChartType.Divisions:
+      series = [...corp.divisions.keys()].map((name) => ({
+        label: name,
+        // Cycles before the division existed are left out
+        values: history
+          .filter((cycle) => cycle.divisions[name])
+          .map((cycle) => cycle.divisions[name].revenue - cycle.divisions[name].expenses),
+      }));
+      formatValue = (value) => `${formatMoney(value)} / s`;
+      break;
+    case HistoryChartType.Valuation:
+      series = [{ label: "Valuation", values: history.map((cycle) => cycle.valuation) }];
+      break;
+    case HistoryChartType.SharePrice:
+      series = [{ label: "Share price", values: history.map((cycle) => cycle.sharePrice) }];
+      break;
+  }
+
+  // What the funds were gained and spent on in the last cycle, the biggest amounts first
+  const lastCycle = history.length > 0 ? history[history.length - 1] : null;
+  const fundsRows = Object.entries(lastCycle?.fundsBySource ?? {})
+    .filter(([, amount]) => amount !== 0)
+    .sort(([, a], [, b]) => Math.abs(b) - Math.abs(a))
+    .map(([source, amount]) => [source, <Money key={source} money={amount} />]);
+
+  return (
+    <Paper sx={{ p: 1, my: 1 }}>
+      <Box display="flex" alignItems="center">
+        <Typography variant="h4" sx={{ flexGrow: 1 }}>
+          History
+        </Typography>
+        <Select
+          size="small"
+          value={chartType}
+          onChange={(event: SelectChangeEvent<HistoryChartType>) =>
+            setChartType(event.target.value as HistoryChartType)
+          }
+        >
+          {Object.values(HistoryChartType).map((type) => (
+            <MenuItem key={type} value={type}>
+              {type}
+            </MenuItem>
+          ))}
+        </Select>
+      </Box>
+      <Typography>The last {corpConstants.historyLength} cycles.</Typography>
+      <LineChart series={series} formatValue={formatValue} />
+      {fundsRows.length > 0 && (
+        <>
+          <br />
+          <StatsTable title="Funds gained and spent in the last cycle:" rows={fundsRows} />
+        </>
+      )}
+    </Paper>
+  );
+}
@@ -33,6 +33,7 @@ import { getRecordKeys } from "../../Types/Record";
 import { PositiveInteger } from "../../types";
 import { ButtonWithTooltip } from "../../ui/Components/ButtonWithTooltip";
 import { CreateCorporationModal } from "./modals/CreateCorporationModal";
+import { HistoryChart } from "./HistoryChart";
 
 interface IProps {
   rerender: () => void;
@@ -124,6 +125,7 @@ export function Overview({ rerender }: IProps): React.ReactElement {
       </div>
       <div>{corp.public ? <PublicButtons rerender={rerender} /> : <PrivateButtons rerender={rerender} />}</div>
       <br />
+      <HistoryChart />
       <Upgrades rerender={rerender} />
     </>
   );
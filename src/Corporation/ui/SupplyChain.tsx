@@ -0,0 +1,324 @@
+// React Component for the supply chain of the Corporation: the warehouses of
+// all divisions, and the exports of materials between them
+import React, { useState } from "react";
+
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Paper from "@mui/material/Paper";
+import TableBody from "@mui/material/TableBody";
+import TableHead from "@mui/material/TableHead";
+import TableRow from "@mui/material/TableRow";
+import TextField from "@mui/material/TextField";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+
+import { CityName } from "@enums";
+import { Export } from "../Export";
+import { Material } from "../Material";
+import { MaterialFlow, SupplyChainEdge, SupplyChainNode, getSupplyChain } from "../SupplyChain";
+import * as actions from "../Actions";
+import { useCorporation } from "./Context";
+import { ExportModal } from "./modals/ExportModal";
+import { Settings } from "../../Settings/Settings";
+import { Table, TableCell } from "../../ui/React/Table";
+import { dialogBoxCreate } from "../../ui/React/DialogBox";
+import { formatBigNumber } from "../../ui/formatNumber";
+
+const nodeWidth = 160;
+const nodeHeight = 44;
+const columnWidth = 240;
+const rowHeight = 80;
+/** Space around the graph for the curves of exports within a column */
+const margin = 40;
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+function getFlowColor(flow: MaterialFlow): string | undefined {
+  if (flow.bottleneck === "shortage") return Settings.theme.error;
+  if (flow.bottleneck === "surplus") return Settings.theme.warning;
+  return undefined;
+}
+
+function getNodeColor(node: SupplyChainNode): string {
+  if (node.flows.some((flow) => flow.bottleneck === "shortage")) return Settings.theme.error;
+  if (node.flows.some((flow) => flow.bottleneck === "surplus")) return Settings.theme.warning;
+  return Settings.theme.primary;
+}
+
+interface EdgeProps {
+  edge: SupplyChainEdge;
+  from: Point;
+  to: Point;
+  /** Separates the exports between the same warehouses */
+  offset: number;
+  selected: boolean;
+  onSelect: () => void;
+}
+
+function EdgeView({ edge, from, to, offset, selected, onSelect }: EdgeProps): React.ReactElement {
+  // Exports to the right leave from the right side of a warehouse and enter the left side of the other one.
+  // Other exports curve around the right side of both warehouses.
+  const forward = to.x > from.x;
+  const start = { x: from.x + nodeWidth, y: from.y + nodeHeight / 2 + offset };
+  const end = { x: forward ? to.x : to.x + nodeWidth, y: to.y + nodeHeight / 2 + offset };
+  const control1 = { x: start.x + margin, y: start.y };
+  const control2 = { x: forward ? end.x - margin : end.x + margin, y: end.y };
+  const middle = {
+    x: (start.x + 3 * control1.x + 3 * control2.x + end.x) / 8,
+    y: (start.y + 3 * control1.y + 3 * control2.y + end.y) / 8,
+  };
+  const color = selected ? Settings.theme.info : Settings.theme.secondary;
+  return (
+    <g onClick={onSelect} style={{ cursor: "pointer" }}>
+      <title>
+        {edge.material.name} to {edge.to}: {edge.export.amount} / s
+      </title>
+      <path
+        d={`M ${start.x} ${start.y} C ${control1.x} ${control1.y}, ${control2.x} ${control2.y}, ${end.x} ${end.y}`}
+        fill="none"
+        stroke={color}
+        strokeWidth={selected ? 3 : 2}
+        markerEnd="url(#supply-chain-arrow)"
+      />
+      <text x={middle.x} y={middle.y - 4} fill={color} fontSize={12} textAnchor="middle">
+        {edge.material.name}: {edge.export.amount}
+      </text>
+    </g>
+  );
+}
+
+interface NodeDetailsProps {
+  node: SupplyChainNode;
+}
+
+/** The materials of a warehouse, with what happened to them during the last cycle */
+function NodeDetails({ node }: NodeDetailsProps): React.ReactElement {
+  const [exportMaterial, setExportMaterial] = useState<Material | null>(null);
+  const formatRate = (amount: number) => (amount === 0 ? "-" : `${formatBigNumber(amount)} / s`);
+  return (
+    <>
+      <Typography variant="h6">
+        Warehouse of {node.division.name} in {node.city}
+      </Typography>
+      <Table size="small" padding="none">
+        <TableHead>
+          <TableRow>
+            {["Material", "Stored", "Production", "Purchase", "Import", "Export", "Sale", "Balance", ""].map(
+              (heading) => (
+                <TableCell key={heading}>
+                  <Typography>{heading}</Typography>
+                </TableCell>
+              ),
+            )}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {node.flows.map((flow) => (
+            <Tooltip
+              key={flow.material.name}
+              title={
+                flow.bottleneck === "surplus"
+                  ? "More is produced and imported than is used, exported and sold. It piles up in the warehouse."
+                  : flow.bottleneck === "shortage"
+                  ? "More is used, exported and sold than comes in. The warehouse will run out of it."
+                  : ""
+              }
+            >
+              <TableRow>
+                {[
+                  flow.material.name,
+                  formatBigNumber(flow.material.stored),
+                  formatRate(flow.production),
+                  formatRate(flow.purchase),
+                  formatRate(flow.import),
+                  formatRate(flow.export),
+                  formatRate(flow.sale),
+                  formatRate(flow.balance),
+                ].map((value, index) => (
+                  <TableCell key={index} sx={{ pr: 2 }}>
+                    <Typography sx={{ color: getFlowColor(flow) }}>{value}</Typography>
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <Button size="small" onClick={() => setExportMaterial(flow.material)}>
+                    Export
+                  </Button>
+                </TableCell>
+              </TableRow>
+            </Tooltip>
+          ))}
+        </TableBody>
+      </Table>
+      {exportMaterial && <ExportModal open={true} onClose={() => setExportMaterial(null)} mat={exportMaterial} />}
+    </>
+  );
+}
+
+interface EdgeEditorProps {
+  edge: SupplyChainEdge;
+  onRemove: () => void;
+}
+
+function EdgeEditor({ edge, onRemove }: EdgeEditorProps): React.ReactElement {
+  const [amount, setAmount] = useState(edge.export.amount);
+
+  function updateExport(): void {
+    try {
+      actions.updateExportMaterial(edge.material, edge.export, amount);
+      setAmount(edge.export.amount);
+    } catch (err) {
+      dialogBoxCreate(err + "");
+    }
+  }
+
+  function removeExport(): void {
+    actions.cancelExportMaterial(edge.export.division, edge.export.city, edge.material);
+    onRemove();
+  }
+
+  return (
+    <>
+      <Typography variant="h6">
+        Export of {edge.material.name} from {edge.from} to {edge.to}
+      </Typography>
+      <Typography>
+        The amount to export per second. It can use 'MAX', 'EINV', 'IINV', 'EPROD' and 'IPROD', see the export options
+        of the material in its warehouse.
+      </Typography>
+      <Box display="flex" alignItems="center">
+        <TextField
+          placeholder="Export amount / s"
+          value={amount}
+          onChange={(event) => setAmount(event.target.value)}
+          onKeyDown={(event) => event.key === "Enter" && updateExport()}
+        />
+        <Button sx={{ mx: 1 }} onClick={updateExport}>
+          Update
+        </Button>
+        <Button color="error" onClick={removeExport}>
+          Remove
+        </Button>
+      </Box>
+    </>
+  );
+}
+
+export function SupplyChainView(): React.ReactElement {
+  const corp = useCorporation();
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+  const [selectedExport, setSelectedExport] = useState<Export | null>(null);
+  const { nodes, edges } = getSupplyChain(corp);
+
+  if (nodes.length === 0) {
+    return <Typography>Your divisions don't have any warehouses yet.</Typography>;
+  }
+
+  // Divisions are columns and cities are rows, leaving out the cities without warehouses
+  const divisionNames = [...new Set(nodes.map((node) => node.division.name))];
+  const cities = Object.values(CityName).filter((city) => nodes.some((node) => node.city === city));
+  const positions = new Map<string, Point>(
+    nodes.map((node) => [
+      node.id,
+      {
+        x: margin + divisionNames.indexOf(node.division.name) * columnWidth,
+        y: margin + cities.indexOf(node.city) * rowHeight,
+      },
+    ]),
+  );
+  const width = 2 * margin + (divisionNames.length - 1) * columnWidth + nodeWidth;
+  const height = 2 * margin + (cities.length - 1) * rowHeight + nodeHeight;
+
+  const pairCounts = new Map<string, number>();
+  const offsets = edges.map((edge) => {
+    const pair = `${edge.from}>${edge.to}`;
+    const count = pairCounts.get(pair) ?? 0;
+    pairCounts.set(pair, count + 1);
+    return (count % 2 === 0 ? 1 : -1) * Math.ceil(count / 2) * 8;
+  });
+
+  const nodeDetails = nodes.find((node) => node.id === selectedNode);
+  const edgeDetails = edges.find((edge) => edge.export === selectedExport);
+
+  return (
+    <>
+      <Paper sx={{ p: 1, my: 1 }}>
+        <Typography>
+          Each box is the warehouse of a division in a city, and each arrow is an export of a material between two
+          warehouses. A warehouse is shown in <span style={{ color: Settings.theme.warning }}>yellow</span> if a
+          material piles up in it, and in <span style={{ color: Settings.theme.error }}>red</span> if it is running out
+          of a material. Click on a warehouse to see its materials, or on an export to change its amount.
+        </Typography>
+        <Box sx={{ overflowX: "auto" }}>
+          <svg width={width} height={height}>
+            <defs>
+              <marker id="supply-chain-arrow" viewBox="0 0 8 8" refX={8} refY={4} markerWidth={8} markerHeight={8}>
+                <path d="M 0 0 L 8 4 L 0 8 z" fill={Settings.theme.secondary} />
+              </marker>
+            </defs>
+            {nodes.map((node) => {
+              const position = positions.get(node.id) as Point;
+              const color = getNodeColor(node);
+              return (
+                <g
+                  key={node.id}
+                  onClick={() => {
+                    setSelectedNode(node.id);
+                    setSelectedExport(null);
+                  }}
+                  style={{ cursor: "pointer" }}
+                >
+                  <rect
+                    x={position.x}
+                    y={position.y}
+                    width={nodeWidth}
+                    height={nodeHeight}
+                    fill={Settings.theme.backgroundsecondary}
+                    stroke={color}
+                    strokeWidth={node.id === selectedNode ? 3 : 1}
+                  />
+                  <text x={position.x + 6} y={position.y + 18} fill={color} fontSize={14}>
+                    {node.division.name}
+                  </text>
+                  <text x={position.x + 6} y={position.y + 36} fill={color} fontSize={12}>
+                    {node.city}
+                  </text>
+                </g>
+              );
+            })}
+            {edges.map((edge, index) => (
+              <EdgeView
+                key={`${edge.from}>${edge.to}>${edge.material.name}`}
+                edge={edge}
+                from={positions.get(edge.from) as Point}
+                to={positions.get(edge.to) as Point}
+                offset={offsets[index]}
+                selected={edge.export === selectedExport}
+                onSelect={() => {
+                  setSelectedExport(edge.export);
+                  setSelectedNode(null);
+                }}
+              />
+            ))}
+          </svg>
+        </Box>
+      </Paper>
+      {nodeDetails && (
+        <Paper sx={{ p: 1, my: 1 }}>
+          <NodeDetails node={nodeDetails} />
+        </Paper>
+      )}
+      {edgeDetails && (
+        <Paper sx={{ p: 1, my: 1 }}>
+          <EdgeEditor
+            key={`${edgeDetails.from}>${edgeDetails.to}>${edgeDetails.material.name}`}
+            edge={edgeDetails}
+            onRemove={() => setSelectedExport(null)}
+          />
+        </Paper>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,125 @@
+import React, { useState } from "react";
+import { dialogBoxCreate } from "../../../ui/React/DialogBox";
+import { Modal } from "../../../ui/React/Modal";
+import { NumberInput } from "../../../ui/React/NumberInput";
+import { CorpEmployeeJob } from "@enums";
+import { DivisionPolicies } from "../../Policies";
+import * as actions from "../../Actions";
+import { useDivision } from "../Context";
+import Typography from "@mui/material/Typography";
+import Button from "@mui/material/Button";
+import Box from "@mui/material/Box";
+import FormControlLabel from "@mui/material/FormControlLabel";
+import Switch from "@mui/material/Switch";
+
+interface IProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const assignableJobs = Object.values(CorpEmployeeJob).filter((job) => job !== CorpEmployeeJob.Unassigned);
+
+// Create a popup that lets the player automate the offices and products of the current division
+export function PoliciesModal(props: IProps): React.ReactElement {
+  const division = useDivision();
+  const [policies, setPolicies] = useState<DivisionPolicies>({
+    ...division.policies,
+    jobRatios: { ...division.policies.jobRatios },
+  });
+
+  function setJobRatio(job: CorpEmployeeJob, ratio: number): void {
+    const jobRatios = { ...policies.jobRatios };
+    // An empty ratio removes the job from the policy
+    if (isNaN(ratio)) delete jobRatios[job];
+    else jobRatios[job] = ratio;
+    setPolicies({ ...policies, jobRatios });
+  }
+
+  function save(): void {
+    try {
+      actions.setPolicies(division, policies);
+    } catch (err) {
+      dialogBoxCreate(err + "");
+      return;
+    }
+    props.onClose();
+  }
+
+  return (
+    <Modal open={props.open} onClose={props.onClose}>
+      <Typography>
+        Policies manage the offices and products of {division.name} at the start of every cycle, so that you don't have
+        to. A policy that your corporation can't afford is skipped for that cycle.
+      </Typography>
+      <br />
+      <Typography>
+        Buy tea for an office when the average energy of its employees is below (0 to disable, at most the maximum
+        energy):
+      </Typography>
+      <NumberInput
+        defaultValue={policies.minEnergy}
+        onChange={(minEnergy) => setPolicies({ ...policies, minEnergy })}
+        placeholder="Minimum energy"
+      />
+      <Typography>
+        Throw a party in an office when the average morale of its employees is below (0 to disable, at most the maximum
+        morale), and how much to spend per employee:
+      </Typography>
+      <Box display="flex" alignItems="center">
+        <NumberInput
+          defaultValue={policies.minMorale}
+          onChange={(minMorale) => setPolicies({ ...policies, minMorale })}
+          placeholder="Minimum morale"
+        />
+        <NumberInput
+          defaultValue={policies.partyCostPerEmployee}
+          onChange={(partyCostPerEmployee) => setPolicies({ ...policies, partyCostPerEmployee })}
+          placeholder="$ / employee"
+        />
+      </Box>
+      <FormControlLabel
+        control={
+          <Switch
+            checked={policies.hireToCapacity}
+            onChange={(event) => setPolicies({ ...policies, hireToCapacity: event.target.checked })}
+          />
+        }
+        label={<Typography>Hire employees until the offices are full</Typography>}
+      />
+      <br />
+      <Typography>
+        Assign the unassigned employees of the offices so that the jobs have these ratios of employees. Jobs without a
+        ratio don't get employees.
+      </Typography>
+      <Box display="grid" sx={{ gridTemplateColumns: "1fr 1fr 1fr", gap: 1, my: 1 }}>
+        {assignableJobs.map((job) => (
+          <NumberInput
+            key={job}
+            label={job}
+            defaultValue={policies.jobRatios[job] ?? ""}
+            onChange={(ratio) => setJobRatio(job, ratio)}
+          />
+        ))}
+      </Box>
+      {division.makesProducts && (
+        <>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={policies.discontinueLowestRatedProduct}
+                onChange={(event) => setPolicies({ ...policies, discontinueLowestRatedProduct: event.target.checked })}
+              />
+            }
+            label={
+              <Typography>
+                Discontinue the lowest rated product when the division has the maximum number of products
+              </Typography>
+            }
+          />
+          <br />
+        </>
+      )}
+      <Button onClick={save}>Save policies</Button>
+    </Modal>
+  );
+}
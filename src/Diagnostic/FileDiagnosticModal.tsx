@@ -17,12 +17,57 @@ import AccordionDetails from "@mui/material/AccordionDetails";
 import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import { ServerName } from "../Types/strings";
 import { allContentFiles } from "../Paths/ContentFile";
+import { isLegacyScript } from "../Paths/ScriptFilePath";
+import { type ScriptDiagnostic, getFileType, lintScript, parseAST } from "../utils/ScriptTransformer";
 
 interface File {
   name: string;
   size: number;
 }
 
+interface ScriptProblem {
+  filename: string;
+  line: number;
+  diagnostic: ScriptDiagnostic;
+}
+
+function ScriptProblems(props: { problems: ScriptProblem[] }): React.ReactElement {
+  return (
+    <TableContainer component={Paper} sx={{ mt: 1 }}>
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableCell>
+              <Typography>Script</Typography>
+            </TableCell>
+            <TableCell>
+              <Typography>Line</Typography>
+            </TableCell>
+            <TableCell>
+              <Typography>Possible mistake</Typography>
+            </TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {props.problems.map(({ filename, line, diagnostic }) => (
+            <TableRow key={`${filename}:${diagnostic.rule}:${diagnostic.start}`}>
+              <TableCell component="th" scope="row">
+                <Typography>{filename}</Typography>
+              </TableCell>
+              <TableCell>
+                <Typography>{line}</Typography>
+              </TableCell>
+              <TableCell>
+                <Typography>{diagnostic.message}</Typography>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
+
 function ServerAccordion(props: { hostname: ServerName }): React.ReactElement {
   const server = GetServer(props.hostname);
   if (server === null) throw new Error(`server '${props.hostname}' should not be null`);
@@ -37,11 +82,28 @@ function ServerAccordion(props: { hostname: ServerName }): React.ReactElement {
 
   files.sort((a: File, b: File): number => b.size - a.size);
 
+  const problems: ScriptProblem[] = [];
+  for (const script of server.scripts.values()) {
+    if (isLegacyScript(script.filename)) continue;
+    let diagnostics;
+    try {
+      diagnostics = lintScript(parseAST(script.code, getFileType(script.filename)), script.code);
+    } catch (error) {
+      // Scripts with syntax errors can't be checked
+      continue;
+    }
+    for (const diagnostic of diagnostics) {
+      const line = script.code.slice(0, diagnostic.start).split("\n").length;
+      problems.push({ filename: script.filename, line, diagnostic });
+    }
+  }
+
   return (
     <Accordion TransitionProps={{ unmountOnExit: true }}>
       <AccordionSummary expandIcon={<ExpandMoreIcon />}>
         <Typography>
           {server.hostname} ({formatBigNumber(totalSize)}b)
+          {problems.length > 0 && `, ${problems.length} possible script mistake${problems.length === 1 ? "" : "s"}`}
         </Typography>
       </AccordionSummary>
       <AccordionDetails>
@@ -71,6 +133,7 @@ function ServerAccordion(props: { hostname: ServerName }): React.ReactElement {
             </TableBody>
           </Table>
         </TableContainer>
+        {problems.length > 0 && <ScriptProblems problems={problems} />}
         <ul></ul>
       </AccordionDetails>
     </Accordion>
@@ -93,7 +156,8 @@ export function FileDiagnosticModal(props: IProps): React.ReactElement {
       <>
         <Typography>
           Welcome to the file diagnostic! If your save file is really big it's likely because you have too many
-          text/scripts. This tool can help you narrow down where they are.
+          text/scripts. This tool can help you narrow down where they are. It also lists possible mistakes in the use of
+          the Netscript API, like missing awaits and infinite loops, that are found by checking your scripts.
         </Typography>
         {keys.map((hostname: string) => (
           <ServerAccordion key={hostname} hostname={hostname} />
@@ -1,13 +1,14 @@
 import React, { useState } from "react";
 import { Button, Link, TextField, Tooltip, Typography } from "@mui/material";
 import { GameOptionsPage } from "./GameOptionsPage";
-import { Settings } from "../../Settings/Settings";
+import { Settings, getRemoteFileApiSecret, setRemoteFileApiSecret } from "../../Settings/Settings";
 import { ConnectionBauble } from "./ConnectionBauble";
 import { isRemoteFileApiConnectionLive, newRemoteFileApiConnection } from "../../RemoteFileAPI/RemoteFileAPI";
 
 export const RemoteAPIPage = (): React.ReactElement => {
   const [remoteFileApiPort, setRemoteFileApiPort] = useState(Settings.RemoteFileApiPort);
   const [remoteFileApiAddress, setRemoteFileApiAddress] = useState(Settings.RemoteFileApiAddress);
+  const [remoteFileApiSecret, setRemoteFileApiSecretValue] = useState(getRemoteFileApiSecret);
 
   function handleRemoteFileApiPortChange(event: React.ChangeEvent<HTMLInputElement>): void {
     setRemoteFileApiPort(Number(event.target.value));
@@ -19,6 +20,11 @@ export const RemoteAPIPage = (): React.ReactElement => {
     Settings.RemoteFileApiAddress = String(event.target.value);
   }
 
+  function handleRemoteFileApiSecretChange(event: React.ChangeEvent<HTMLInputElement>): void {
+    setRemoteFileApiSecretValue(String(event.target.value));
+    setRemoteFileApiSecret(String(event.target.value));
+  }
+
   return (
     <GameOptionsPage title="Remote API">
       <Typography>
@@ -78,6 +84,27 @@ export const RemoteAPIPage = (): React.ReactElement => {
         />
       </Tooltip>
       <br />
+      <Tooltip
+        title={
+          <Typography>
+            When set, the Remote API must send this secret in an "authenticate" request before any other request is
+            handled. The secret is only stored in this browser, not in your save file. Leave empty to not require
+            authentication.
+          </Typography>
+        }
+      >
+        <TextField
+          key={"remoteAPISecret"}
+          type="password"
+          InputProps={{
+            startAdornment: <Typography>Secret:&nbsp;</Typography>,
+          }}
+          value={remoteFileApiSecret}
+          onChange={handleRemoteFileApiSecretChange}
+          size={"medium"}
+        />
+      </Tooltip>
+      <br />
       <Button onClick={newRemoteFileApiConnection}>Connect</Button>
     </GameOptionsPage>
   );
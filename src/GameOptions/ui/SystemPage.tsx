@@ -11,6 +11,7 @@ export const SystemPage = (): React.ReactElement => {
   const [logSize, setLogSize] = useState(Settings.MaxLogCapacity);
   const [portSize, setPortSize] = useState(Settings.MaxPortCapacity);
   const [terminalSize, setTerminalSize] = useState(Settings.MaxTerminalCapacity);
+  const [scriptRevisions, setScriptRevisions] = useState(Settings.MaxScriptRevisions);
   const [autosaveInterval, setAutosaveInterval] = useState(Settings.AutosaveInterval);
   const [tailrenderInterval, setTailRenderInterval] = useState(Settings.TailRenderInterval);
 
@@ -39,6 +40,11 @@ export const SystemPage = (): React.ReactElement => {
     Settings.MaxRecentScriptsCapacity = newValue as number;
   }
 
+  function handleScriptRevisionsChange(_event: Event | React.SyntheticEvent, newValue: number | number[]): void {
+    setScriptRevisions(newValue as number);
+    Settings.MaxScriptRevisions = newValue as number;
+  }
+
   function handleLogSizeChange(_event: Event | React.SyntheticEvent, newValue: number | number[]): void {
     setLogSize(newValue as number);
     Settings.MaxLogCapacity = newValue as number;
@@ -128,6 +134,21 @@ export const SystemPage = (): React.ReactElement => {
           }
           marks
         />
+        <OptionsSlider
+          label="Script revision history size"
+          initialValue={scriptRevisions}
+          callback={handleScriptRevisionsChange}
+          step={1}
+          min={0}
+          max={50}
+          tooltip={
+            <>
+              The number of previous versions that are kept of each script, so that overwriting a script can be undone
+              with the revert command or in the script editor. The revision history is disabled (0) by default. Setting
+              this too high can make your save file a lot bigger, especially if your scripts overwrite scripts often.
+            </>
+          }
+        />
         <OptionsSlider
           label="Autosave interval (s)"
           initialValue={autosaveInterval}
@@ -184,6 +205,18 @@ export const SystemPage = (): React.ReactElement => {
           </>
         }
       />
+      <OptionSwitch
+        checked={Settings.ProfileScripts}
+        onChange={(newValue) => (Settings.ProfileScripts = newValue)}
+        text="Profile scripts"
+        tooltip={
+          <>
+            If this is set, scripts are started with the profiler enabled. The profiler counts the calls, the time spent
+            and the errors of each ns function a script calls. The profile is shown in Active Scripts and returned by
+            ns.getProfile. Profiling makes ns calls slightly slower.
+          </>
+        }
+      />
     </GameOptionsPage>
   );
 };
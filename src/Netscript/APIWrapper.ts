@@ -1,6 +1,7 @@
 import { getRamCost } from "./RamCostGenerator";
 import type { WorkerScript } from "./WorkerScript";
 import { helpers } from "./NetscriptHelpers";
+import { profileCall } from "./Profiler";
 
 /** Permissive type for the documented API functions */
 type APIFn = (...args: any[]) => unknown;
@@ -79,7 +80,14 @@ class NSProxyHandler<API extends GenericAPI<API>> {
         // What remains *must* be called every time.
         helpers.checkEnvFlags(ctx);
         helpers.updateDynamicRam(ctx, getRamCost(arrayPath));
-        return func(...args);
+        const { profile, recorder, replayer } = ctx.workerScript;
+        if (!profile && !recorder && !replayer) return func(...args);
+        const call = (): unknown => {
+          if (replayer) return replayer.replay(ctx, args, () => func(...args));
+          if (recorder) return recorder.record(ctx, args, () => func(...args));
+          return func(...args);
+        };
+        return profile ? profileCall(profile, functionPath, call) : call();
       };
       Object.defineProperty(this.memoed, key, { ...descriptor, value: wrappedFunction });
       return wrappedFunction;
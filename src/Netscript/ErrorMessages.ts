@@ -52,7 +52,7 @@ export function errorMessage(ctx: NetscriptContext, msg: string, type = "RUNTIME
     userstack.push(`${filename}:L${call.line}@${call.func}`);
   }
 
-  log(ctx, () => msg);
+  ws.log(caller, () => msg, "error");
   let rejectMsg = `${caller}: ${msg}`;
   if (userstack.length !== 0) rejectMsg += `\n\nStack:\n${userstack.join("\n")}`;
   return basicErrorMessage(ws, rejectMsg, type);
@@ -86,6 +86,8 @@ export const helpers = {
   scriptIdentifier,
   hack,
   portNumber,
+  channelName,
+  channelOptions,
   person,
   server,
   gang,
@@ -113,6 +115,11 @@ export interface CompleteRunOptions {
 export interface CompleteSpawnOptions extends CompleteRunOptions {
   spawnDelay: number;
 }
+/** ChannelOptions with type-validated members. A null capacity means the channel's existing or default capacity. */
+export interface CompleteChannelOptions {
+  capacity: PositiveInteger | null;
+  scope: "global" | "host";
+}
 /** HGWOptions with non-optional, type-validated members, for passing between internal functions. */
 export interface CompleteHGWOptions {
   threads: PositiveNumber;
@@ -553,6 +560,30 @@ function portNumber(ctx: NetscriptContext, _n: unknown): PortNumber {
   return n as PortNumber;
 }
 
+function channelName(ctx: NetscriptContext, _name: unknown): string {
+  const name = string(ctx, "name", _name);
+  if (!name) throw errorMessage(ctx, "Channel name cannot be empty.");
+  return name;
+}
+
+function channelOptions(ctx: NetscriptContext, _options: unknown): CompleteChannelOptions {
+  const result: CompleteChannelOptions = { capacity: null, scope: "global" };
+  if (_options === undefined || _options === null) return result;
+  if (typeof _options !== "object") throw errorMessage(ctx, "options must be an object.", "TYPE");
+  // Safe assertion since _options type has been narrowed to a non-null object
+  const options = _options as Unknownify<CompleteChannelOptions>;
+  if (options.capacity !== undefined && options.capacity !== null) {
+    result.capacity = positiveInteger(ctx, "ChannelOptions.capacity", options.capacity);
+  }
+  if (options.scope !== undefined && options.scope !== null) {
+    if (options.scope !== "global" && options.scope !== "host") {
+      throw errorMessage(ctx, `ChannelOptions.scope must be "global" or "host", was ${options.scope}`, "TYPE");
+    }
+    result.scope = options.scope;
+  }
+  return result;
+}
+
 function person(ctx: NetscriptContext, p: unknown): IPerson {
   const fakePerson = {
     hp: undefined,
@@ -0,0 +1,59 @@
+/**
+ * Opt-in profiler for the ns functions called by a script. It is fed by the API wrapper (see APIWrapper.ts) and counts,
+ * per function, how often it was called, how long the calls took and how many of them threw an error.
+ * For async functions, the time is measured until the returned promise settles, so it includes the awaited time.
+ */
+import type { ProfileEntry, ScriptProfile as IScriptProfile } from "@nsdefs";
+import { ScriptDeath } from "./ScriptDeath";
+
+export class ScriptProfile {
+  /** Timestamp of when the profiling started */
+  startTime = Date.now();
+
+  /** Statistics by function path, e.g. "hack" or "corporation.getDivision" */
+  entries = new Map<string, ProfileEntry>();
+
+  getEntry(functionPath: string): ProfileEntry {
+    let entry = this.entries.get(functionPath);
+    if (!entry) {
+      entry = { calls: 0, time: 0, errors: 0 };
+      this.entries.set(functionPath, entry);
+    }
+    return entry;
+  }
+
+  /** A copy of the profile that can be handed to a script */
+  toJSON(): IScriptProfile {
+    const functions: Record<string, ProfileEntry> = {};
+    for (const [functionPath, entry] of this.entries) functions[functionPath] = { ...entry };
+    return { startTime: this.startTime, duration: Date.now() - this.startTime, functions };
+  }
+}
+
+/** Calls an ns function and records the call in the profile */
+export function profileCall(profile: ScriptProfile, functionPath: string, call: () => unknown): unknown {
+  const entry = profile.getEntry(functionPath);
+  entry.calls++;
+  const start = performance.now();
+  const fail = (error: unknown) => {
+    entry.time += performance.now() - start;
+    // The script being killed while it waits for a function is not an error of that function
+    if (!(error instanceof ScriptDeath)) entry.errors++;
+    throw error;
+  };
+
+  let result: unknown;
+  try {
+    result = call();
+  } catch (error) {
+    fail(error);
+  }
+  if (result instanceof Promise) {
+    return result.then((value: unknown) => {
+      entry.time += performance.now() - start;
+      return value;
+    }, fail);
+  }
+  entry.time += performance.now() - start;
+  return result;
+}
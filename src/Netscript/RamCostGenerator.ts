@@ -388,6 +388,13 @@ const ui = {
   windowSize: 0,
 } as const;
 
+// RPC API
+const rpc = {
+  serve: 0,
+  unserve: 0,
+  call: 0,
+} as const;
+
 // Grafting API
 const grafting = {
   getAugmentationGraftPrice: 3.75,
@@ -412,6 +419,7 @@ const corporation = {
   goPublic: RamCostConstants.CorporationAction,
   bribe: RamCostConstants.CorporationAction,
   getCorporation: RamCostConstants.CorporationInfo,
+  getHistory: RamCostConstants.CorporationInfo,
   getDivision: RamCostConstants.CorporationInfo,
   expandIndustry: RamCostConstants.CorporationAction,
   expandCity: RamCostConstants.CorporationAction,
@@ -482,6 +490,7 @@ export const RamCosts: RamCostTree<NSFull> = {
   stanek,
   ui,
   grafting,
+  rpc,
 
   sprintf: 0,
   vsprintf: 0,
@@ -502,6 +511,8 @@ export const RamCosts: RamCostTree<NSFull> = {
   weakenAnalyze: RamCostConstants.WeakenAnalyze,
   print: 0,
   printf: 0,
+  log: 0,
+  setLogLevel: 0,
   tprint: 0,
   tprintf: 0,
   clearLog: 0,
@@ -566,6 +577,7 @@ export const RamCosts: RamCostTree<NSFull> = {
   nextPortWrite: 0,
   readPort: 0,
   getPortHandle: 0,
+  getChannel: 0,
   rm: RamCostConstants.ReadWrite,
   scriptRunning: RamCostConstants.ArbScript,
   scriptKill: RamCostConstants.ArbScript,
@@ -579,6 +591,7 @@ export const RamCosts: RamCostTree<NSFull> = {
   getTotalScriptExpGain: RamCostConstants.GetScript,
   getScriptExpGain: RamCostConstants.GetScript,
   getRunningScript: RamCostConstants.GetRunningScript,
+  getProfile: RamCostConstants.GetRunningScript,
   ramOverride: 0,
   formatNumber: 0,
   formatRam: 0,
@@ -673,6 +686,10 @@ export const RamCosts: RamCostTree<NSFull> = {
     bladeburner: {
       skillMaxUpgradeCount: 0,
     },
+    corporation: {
+      getSnapshot: 0,
+      simulate: 0,
+    },
   },
 } as const;
 
@@ -0,0 +1,279 @@
+/**
+ * Record and replay of the ns calls of a script, to reproduce bugs that depend on the game state.
+ * A script started with "run --record" writes every ns call and its result to a trace file when it ends. A script
+ * started with "run --replay" gets the recorded results instead of calling the functions, so it takes the same path
+ * as in the recorded run. Both are fed by the API wrapper (see APIWrapper.ts).
+ */
+import type { ScriptArg } from "@nsdefs";
+import type { NetscriptContext } from "./APIWrapper";
+import type { RunningScript } from "../Script/RunningScript";
+import type { WorkerScript } from "./WorkerScript";
+import { ScriptDeath } from "./ScriptDeath";
+import { helpers } from "./NetscriptHelpers";
+import { killWorkerScript } from "./killWorkerScript";
+import { GetServer } from "../Server/AllServers";
+import { type TextFilePath, resolveTextFilePath } from "../Paths/TextFilePath";
+import { SnackbarEvents } from "../ui/React/Snackbar";
+import { ToastVariant } from "@enums";
+
+/** A recorded ns call */
+export interface TraceCall {
+  /** The function path, e.g. "hack" or "corporation.getDivision" */
+  function: string;
+  args: unknown[];
+  /** Whether the function returned a promise */
+  async?: true;
+  /** "pending" if the script was stopped before the call returned, e.g. by ns.exit or by being killed */
+  status: "returned" | "threw" | "pending";
+  /** The value that the function returned, or that its promise resolved to */
+  result?: unknown;
+  /** The error that the function threw, or that its promise rejected with. Its message if it was an Error. */
+  error?: string;
+  /** The name of the error, e.g. "TypeError", if it was an Error rather than a string */
+  errorName?: string;
+}
+
+export interface ScriptTrace {
+  version: 1;
+  script: string;
+  hostname: string;
+  args: ScriptArg[];
+  threads: number;
+  /** Timestamp of when the recording started */
+  startTime: number;
+  /** Whether calls were dropped because the trace was full */
+  truncated: boolean;
+  calls: TraceCall[];
+}
+
+/** Limits the size of trace files. The calls after this many are not recorded. */
+export const maxTraceCalls = 100000;
+
+/**
+ * Functions that only affect the script itself, like printing to its log. They still run during a replay, so that the
+ * replay shows the same log and ends like the recorded run.
+ */
+const liveFunctions = new Set([
+  "print",
+  "printf",
+  "printRaw",
+  "tprint",
+  "tprintf",
+  "tprintRaw",
+  "log",
+  "setLogLevel",
+  "clearLog",
+  "disableLog",
+  "enableLog",
+  "isLogEnabled",
+  "tail",
+  "closeTail",
+  "moveTail",
+  "resizeTail",
+  "setTitle",
+  "toast",
+  "atExit",
+  "exit",
+  "getProfile",
+]);
+
+/**
+ * Functions that return objects with methods, like port handles. Their results can't be written to a trace, and the
+ * calls of their methods don't go through the API wrapper, so they would be neither recorded nor replayed. Scripts that
+ * call them can't be recorded or replayed.
+ */
+const unrecordableFunctions = new Set(["getPortHandle", "getChannel"]);
+
+/** Throws an error if a function can't be recorded or replayed */
+function checkRecordable(ctx: NetscriptContext, kind: "RECORD" | "REPLAY"): void {
+  if (!unrecordableFunctions.has(ctx.functionPath)) return;
+  throw helpers.errorMessage(
+    ctx,
+    `${ctx.functionPath} returns an object with methods, which can't be ${
+      kind === "RECORD" ? "recorded" : "replayed"
+    }.`,
+    kind,
+  );
+}
+
+/** Whether a value has functions, which are lost in the trace file */
+function hasFunctions(value: unknown, seen = new Set<unknown>()): boolean {
+  if (typeof value === "function") return true;
+  if (typeof value !== "object" || value === null || seen.has(value)) return false;
+  seen.add(value);
+  return Object.values(value).some((property) => hasFunctions(property, seen));
+}
+
+/** A copy of a value that survives a round trip through the trace file */
+function toTraceValue(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch (error) {
+    // e.g. circular objects
+    return null;
+  }
+}
+
+function errorToString(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The error of a recorded call, with the same shape as in the recorded run */
+function getRecordedError(entry: TraceCall): unknown {
+  if (entry.errorName === undefined) return entry.error;
+  const error = new Error(entry.error);
+  error.name = entry.errorName;
+  return error;
+}
+
+export class ScriptRecorder {
+  trace: ScriptTrace;
+
+  constructor(runningScript: RunningScript) {
+    this.trace = {
+      version: 1,
+      script: runningScript.filename,
+      hostname: runningScript.server,
+      args: toTraceValue(runningScript.args) as ScriptArg[],
+      threads: runningScript.threads,
+      startTime: Date.now(),
+      truncated: false,
+      calls: [],
+    };
+  }
+
+  /** Calls an ns function and records the call and its result */
+  record(ctx: NetscriptContext, args: unknown[], call: () => unknown): unknown {
+    checkRecordable(ctx, "RECORD");
+    if (this.trace.calls.length >= maxTraceCalls) {
+      this.trace.truncated = true;
+      return call();
+    }
+    // The call is added before it runs, so that the calls are in the order in which the script made them
+    const entry: TraceCall = { function: ctx.functionPath, args: toTraceValue(args) as unknown[], status: "pending" };
+    this.trace.calls.push(entry);
+    const settle = (result: unknown) => {
+      if (hasFunctions(result)) {
+        throw helpers.errorMessage(ctx, "The result has functions, which can't be recorded.", "RECORD");
+      }
+      entry.status = "returned";
+      entry.result = toTraceValue(result);
+      return result;
+    };
+    const fail = (error: unknown) => {
+      // The script being stopped is not a result of the call, a replay stops at this call instead
+      if (!(error instanceof ScriptDeath)) {
+        entry.status = "threw";
+        entry.error = errorToString(error);
+        if (error instanceof Error) entry.errorName = error.name;
+      }
+      throw error;
+    };
+
+    let result: unknown;
+    try {
+      result = call();
+    } catch (error) {
+      fail(error);
+    }
+    if (result instanceof Promise) {
+      entry.async = true;
+      return result.then(settle, fail);
+    }
+    return settle(result);
+  }
+}
+
+export class ScriptReplayer {
+  trace: ScriptTrace;
+  /** The index of the next call in the trace */
+  position = 0;
+
+  constructor(trace: ScriptTrace) {
+    this.trace = trace;
+  }
+
+  /** Returns the recorded result of the next call, instead of calling the ns function */
+  replay(ctx: NetscriptContext, args: unknown[], call: () => unknown): unknown {
+    checkRecordable(ctx, "REPLAY");
+    const entry = this.trace.calls[this.position] as TraceCall | undefined;
+    const callNumber = ++this.position;
+    if (!entry) {
+      return this.finish(
+        ctx,
+        `The recorded run made no more calls${this.trace.truncated ? " that fit the trace" : ""}.`,
+      );
+    }
+    const argsJson = JSON.stringify(toTraceValue(args) ?? []);
+    if (entry.function !== ctx.functionPath || JSON.stringify(entry.args) !== argsJson) {
+      throw helpers.errorMessage(
+        ctx,
+        `The replay diverged from the recorded run at call ${callNumber}.\n` +
+          `Recorded: ${entry.function}(${JSON.stringify(entry.args).slice(1, -1)})\n` +
+          `Replayed: ${ctx.functionPath}(${argsJson.slice(1, -1)})`,
+        "REPLAY",
+      );
+    }
+    if (liveFunctions.has(entry.function)) return call();
+
+    switch (entry.status) {
+      case "pending":
+        return this.finish(ctx, "The recorded run was stopped during this call.");
+      case "threw": {
+        const error = getRecordedError(entry);
+        if (entry.async) return Promise.reject(error);
+        throw error;
+      }
+      case "returned":
+        return entry.async ? Promise.resolve(entry.result) : entry.result;
+    }
+  }
+
+  /** Stops the script, because the replay reached the end of the recorded run */
+  finish(ctx: NetscriptContext, reason: string): never {
+    helpers.log(ctx, () => `Replay finished: ${reason}`);
+    killWorkerScript(ctx.workerScript);
+    throw new ScriptDeath(ctx.workerScript);
+  }
+}
+
+/** Reads a trace file, throwing an error that explains what is wrong with it */
+export function parseTrace(text: string): ScriptTrace {
+  let trace: unknown;
+  try {
+    trace = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${errorToString(error)}`);
+  }
+  if (typeof trace !== "object" || trace === null || (trace as ScriptTrace).version !== 1) {
+    throw new Error("The file is not a trace of a script.");
+  }
+  const { args, threads, calls } = trace as Partial<ScriptTrace>;
+  if (!Array.isArray(args) || !Array.isArray(calls) || typeof threads !== "number") {
+    throw new Error("The trace is missing its args, threads or calls.");
+  }
+  if (!calls.every((call: Partial<TraceCall>) => typeof call.function === "string" && Array.isArray(call.args))) {
+    throw new Error("The trace has invalid calls.");
+  }
+  return trace as ScriptTrace;
+}
+
+/** The trace file of a recorded script, e.g. hack-12.trace.json next to hack.js */
+export function getTracePath(ws: WorkerScript): TextFilePath | null {
+  return resolveTextFilePath(`${ws.name.replace(/\.[^.]+$/, "")}-${ws.pid}.trace.json`);
+}
+
+/** Writes the trace of a recorded script to its server, once the script has ended */
+export function writeTraceFile(ws: WorkerScript): void {
+  if (!ws.recorder) return;
+  const server = GetServer(ws.hostname);
+  const path = getTracePath(ws);
+  if (!server || !path) return;
+  server.writeToTextFile(path, JSON.stringify(ws.recorder.trace));
+  SnackbarEvents.emit(
+    `Wrote the trace of ${ws.name} (${ws.recorder.trace.calls.length} calls) to ${path} on ${server.hostname}`,
+    ToastVariant.SUCCESS,
+    5000,
+  );
+}
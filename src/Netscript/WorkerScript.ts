@@ -12,12 +12,16 @@ import type { NSFull } from "../NetscriptFunctions";
 import type { ScriptFilePath } from "../Paths/ScriptFilePath";
 import type { RunningScript } from "../Script/RunningScript";
 import type { Script } from "../Script/Script";
-import type { ScriptArg } from "@nsdefs";
+import type { LogLevel, ScriptArg } from "@nsdefs";
 import type { ScriptDeath } from "./ScriptDeath";
+import type { ScriptRecorder, ScriptReplayer } from "./Recorder";
 
 import { Environment } from "./Environment";
 import { RamCostConstants } from "./RamCostGenerator";
 import { GetServer } from "../Server/AllServers";
+import { ScriptProfile } from "./Profiler";
+import { logLevels } from "../Script/RunningScript";
+import { Settings } from "../Settings/Settings";
 
 export class WorkerScript {
   /** Script's arguments */
@@ -38,6 +42,9 @@ export class WorkerScript {
   /** Stores names of all functions that have logging disabled */
   disableLogs: Record<string, boolean> = {};
 
+  /** Log entries below this level are dropped. The logs of ns functions have the debug level. */
+  logLevel: LogLevel = "debug";
+
   /**
    * Used for dynamic RAM calculation. Stores names of all functions that have
    * already been checked by this script.
@@ -78,6 +85,21 @@ export class WorkerScript {
   /**Map of functions called when the script ends. */
   atExit: Map<string, () => void> = new Map();
 
+  /** RPC handlers registered by this script with ns.rpc.serve, by service name */
+  rpcHandlers: Map<string, (...args: unknown[]) => unknown> = new Map();
+
+  /** Callbacks that fail the RPC calls this script is still handling. Called if the script dies before responding. */
+  pendingRpcCalls: Set<() => void> = new Set();
+
+  /** Statistics about the ns calls of this script. Null unless profiling is enabled for this script. */
+  profile: ScriptProfile | null = Settings.ProfileScripts ? new ScriptProfile() : null;
+
+  /** Records the ns calls of this script to a trace file. Null unless the script was started with "run --record". */
+  recorder: ScriptRecorder | null = null;
+
+  /** Feeds the results of a recorded run to the ns calls of this script. Null unless it was started with "run --replay". */
+  replayer: ScriptReplayer | null = null;
+
   constructor(runningScriptObj: RunningScript, pid: number, nsFuncsGenerator?: (ws: WorkerScript) => NSFull) {
     this.name = runningScriptObj.filename;
     this.hostname = runningScriptObj.server;
@@ -134,16 +156,16 @@ export class WorkerScript {
     return !(this.disableLogs.ALL || this.disableLogs[fn]);
   }
 
-  log(func: string, txt: () => string): void {
-    if (this.shouldLog(func)) {
-      if (func && txt) {
-        this.scriptRef.log(`${func}: ${txt()}`);
-      } else if (func) {
-        this.scriptRef.log(func);
-      } else {
-        this.scriptRef.log(txt());
-      }
-    }
+  /** Whether entries of the given level are logged, see logLevel */
+  shouldLogLevel(level: LogLevel): boolean {
+    return logLevels.indexOf(level) >= logLevels.indexOf(this.logLevel);
+  }
+
+  log(func: string, txt: () => string, level: LogLevel = "debug"): void {
+    if (!this.shouldLog(func)) return;
+    // Messages without a function are about the script itself, e.g. that it finished running
+    if (!func) this.scriptRef.log(txt());
+    else if (this.shouldLogLevel(level)) this.scriptRef.log(`${func}: ${txt()}`, level);
   }
 
   print(txt: React.ReactNode): void {
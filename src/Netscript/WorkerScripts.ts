@@ -2,3 +2,6 @@ import { WorkerScript } from "./WorkerScript";
 
 /** Global pool of all active scripts (scripts that are currently running) */
 export const workerScripts = new Map<number, WorkerScript>();
+
+/** Names of the RPC services registered with ns.rpc.serve, mapped to the pid of the script serving them */
+export const rpcServices = new Map<string, number>();
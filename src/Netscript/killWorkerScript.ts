@@ -4,7 +4,7 @@
  */
 import { ScriptDeath } from "./ScriptDeath";
 import { WorkerScript } from "./WorkerScript";
-import { workerScripts } from "./WorkerScripts";
+import { rpcServices, workerScripts } from "./WorkerScripts";
 
 import { GetServer } from "../Server/AllServers";
 import { AddRecentScript } from "./RecentScripts";
@@ -12,6 +12,7 @@ import { ITutorial } from "../InteractiveTutorial";
 import { AlertEvents } from "../ui/React/AlertManager";
 import { handleUnknownError } from "./ErrorMessages";
 import { roundToTwo } from "../utils/helpers/roundToTwo";
+import { writeTraceFile } from "./Recorder";
 
 export function killWorkerScript(ws: WorkerScript): boolean {
   if (ITutorial.isRunning) {
@@ -62,6 +63,8 @@ function stopAndCleanUpWorkerScript(ws: WorkerScript): void {
 
   ws.env.stopFlag = true;
   removeWorkerScript(ws);
+  removeRpcServices(ws);
+  if (ws.recorder) writeTraceFile(ws);
 }
 
 /**
@@ -101,3 +104,12 @@ function removeWorkerScript(workerScript: WorkerScript): void {
     AddRecentScript(workerScript);
   }
 }
+
+/** Unregisters the RPC services of a dead script, and fails the calls it was still handling. */
+function removeRpcServices(workerScript: WorkerScript): void {
+  for (const name of workerScript.rpcHandlers.keys()) rpcServices.delete(name);
+  workerScript.rpcHandlers.clear();
+  const pendingCalls = [...workerScript.pendingRpcCalls];
+  workerScript.pendingRpcCalls.clear();
+  for (const failCall of pendingCalls) failCall();
+}
@@ -27,7 +27,7 @@ import {
   CompanyName,
 } from "@enums";
 import { PromptEvent } from "./ui/React/PromptManager";
-import { GetServer, DeleteServer, AddToAllServers, createUniqueRandomIp } from "./Server/AllServers";
+import { GetServer, DeleteServer, AddToAllServers, createUniqueRandomIp, ServerAddedEvents } from "./Server/AllServers";
 import {
   getServerOnNetwork,
   numCycleForGrowth,
@@ -80,7 +80,8 @@ import { NetscriptCorporation } from "./NetscriptFunctions/Corporation";
 import { NetscriptFormulas } from "./NetscriptFunctions/Formulas";
 import { NetscriptStockMarket } from "./NetscriptFunctions/StockMarket";
 import { NetscriptGrafting } from "./NetscriptFunctions/Grafting";
-import { NS, RecentScript, ProcessInfo, NSEnums } from "@nsdefs";
+import { NetscriptRpc } from "./NetscriptFunctions/Rpc";
+import { NS, RecentScript, ProcessInfo, NSEnums, LogLevel } from "@nsdefs";
 import { NetscriptSingularity } from "./NetscriptFunctions/Singularity";
 
 import { dialogBoxCreate } from "./ui/React/DialogBox";
@@ -91,14 +92,26 @@ import { Flags } from "./NetscriptFunctions/Flags";
 import { calculateIntelligenceBonus } from "./PersonObjects/formulas/intelligence";
 import { CalculateShareMult, StartSharing } from "./NetworkShare/Share";
 import { recentScripts } from "./Netscript/RecentScripts";
-import { InternalAPI, setRemovedFunctions, NSProxy } from "./Netscript/APIWrapper";
+import { InternalAPI, NetscriptContext, setRemovedFunctions, NSProxy } from "./Netscript/APIWrapper";
 import { INetscriptExtra } from "./NetscriptFunctions/Extra";
 import { ScriptDeath } from "./Netscript/ScriptDeath";
+import { logLevels } from "./Script/RunningScript";
 import { getBitNodeMultipliers } from "./BitNode/BitNode";
 import { assert, arrayAssert, stringAssert, objectAssert } from "./utils/helpers/typeAssertion";
 import { escapeRegExp } from "lodash";
 import numeral from "numeral";
-import { clearPort, peekPort, portHandle, readPort, tryWritePort, writePort, nextPortWrite } from "./NetscriptPort";
+import {
+  channelHandle,
+  channelKey,
+  clearPort,
+  getChannel,
+  peekPort,
+  portHandle,
+  readPort,
+  tryWritePort,
+  writePort,
+  nextPortWrite,
+} from "./NetscriptPort";
 import { FilePath, resolveFilePath } from "./Paths/FilePath";
 import { hasScriptExtension } from "./Paths/ScriptFilePath";
 import { hasTextExtension } from "./Paths/TextFilePath";
@@ -144,6 +157,7 @@ export const ns: InternalAPI<NSFull> = {
   formulas: NetscriptFormulas(),
   stock: NetscriptStockMarket(),
   grafting: NetscriptGrafting(),
+  rpc: NetscriptRpc(),
   hacknet: NetscriptHacknet(),
   sprintf: () => sprintf,
   vsprintf: () => vsprintf,
@@ -437,6 +451,20 @@ export const ns: InternalAPI<NSFull> = {
       }
       ctx.workerScript.print(vsprintf(format, args));
     },
+  log: (ctx) => (_level, _message, _fields) => {
+    const level = logLevel(ctx, _level);
+    const message = helpers.string(ctx, "message", _message);
+    const fields = _fields ?? {};
+    assert(fields, objectAssert, (type) =>
+      helpers.errorMessage(ctx, `Invalid type for fields: ${type}. Should be object.`, "TYPE"),
+    );
+    if (!ctx.workerScript.shouldLogLevel(level)) return;
+    const formattedFields = Object.entries(fields).map(([key, value]) => ` ${key}=${helpers.argsToString([value])}`);
+    ctx.workerScript.scriptRef.log(`${level.toUpperCase()} ${message}${formattedFields.join("")}`, level);
+  },
+  setLogLevel: (ctx) => (_level) => {
+    ctx.workerScript.logLevel = logLevel(ctx, _level);
+  },
   tprint:
     (ctx) =>
     (...args) => {
@@ -1248,6 +1276,7 @@ export const ns: InternalAPI<NSFull> = {
     const homeComputer = Player.getHomeComputer();
     homeComputer.serversOnNetwork.push(newServ.hostname);
     newServ.serversOnNetwork.push(homeComputer.hostname);
+    ServerAddedEvents.emit(newServ);
     Player.loseMoney(cost, "servers");
     helpers.log(ctx, () => `Purchased new server with hostname '${newServ.hostname}' for ${formatMoney(cost)}`);
     return newServ.hostname;
@@ -1427,8 +1456,8 @@ export const ns: InternalAPI<NSFull> = {
     const server = ctx.workerScript.getServer();
     const file = server.getContentFile(path);
     if (!file) throw helpers.errorMessage(ctx, `${path} does not exist on ${server.hostname}`);
-    // The content setter handles invalidating script modules where applicable.
-    file.content = "";
+    // Overwriting handles invalidating script modules where applicable.
+    server.writeToContentFile(path, "");
   },
   clearPort: (ctx) => (_portNumber) => {
     const portNumber = helpers.portNumber(ctx, _portNumber);
@@ -1438,6 +1467,19 @@ export const ns: InternalAPI<NSFull> = {
     const portNumber = helpers.portNumber(ctx, _portNumber);
     return portHandle(portNumber);
   },
+  getChannel: (ctx) => (_name: unknown, _options: unknown) => {
+    const name = helpers.channelName(ctx, _name);
+    const { capacity, scope } = helpers.channelOptions(ctx, _options);
+    const hostname = scope === "host" ? ctx.workerScript.hostname : null;
+    const channel = getChannel(channelKey(name, hostname), capacity);
+    if (capacity !== null && channel.maxCapacity !== capacity) {
+      throw helpers.errorMessage(
+        ctx,
+        `Channel ${name} already exists with capacity ${channel.maxCapacity}, cannot open it with capacity ${capacity}.`,
+      );
+    }
+    return channelHandle(name, hostname, channel.capacity);
+  },
   rm: (ctx) => (_fn, _hostname) => {
     const filepath = helpers.filePath(ctx, "fn", _fn);
     const hostname = helpers.string(ctx, "hostname", _hostname ?? ctx.workerScript.hostname);
@@ -1498,6 +1540,15 @@ export const ns: InternalAPI<NSFull> = {
       if (runningScript === null) return null;
       return helpers.createPublicRunningScript(runningScript, ctx.workerScript);
     },
+  getProfile: (ctx) => (_pid) => {
+    const pid = _pid === undefined ? ctx.workerScript.pid : helpers.positiveInteger(ctx, "pid", _pid);
+    const workerScript = workerScripts.get(pid);
+    if (!workerScript) {
+      helpers.log(ctx, () => `No script with pid ${pid} is running.`);
+      return null;
+    }
+    return workerScript.profile?.toJSON() ?? null;
+  },
   ramOverride: (ctx) => (_ram) => {
     const newRam = roundToTwo(helpers.number(ctx, "ram", _ram || 0));
     const rs = ctx.workerScript.scriptRef;
@@ -1857,6 +1908,14 @@ possibleLogs.ALL = true;
 // Any script that needs a custom set of values will use a fresh object.
 const allDisabled = { ALL: true } as const;
 
+function logLevel(ctx: NetscriptContext, level: unknown): LogLevel {
+  const levelString = helpers.string(ctx, "level", level);
+  if (!logLevels.includes(levelString as LogLevel)) {
+    throw helpers.errorMessage(ctx, `Invalid log level: ${levelString}. Should be one of ${logLevels.join(", ")}.`);
+  }
+  return levelString as LogLevel;
+}
+
 /** Provides an array of all function names on a nested object */
 function getFunctionNames(obj: object, prefix: string): string[] {
   const functionNames: string[] = [];
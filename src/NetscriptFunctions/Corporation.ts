@@ -60,6 +60,7 @@ import { CorpUnlockName, CorpUpgradeName, CorpEmployeeJob, CityName } from "@enu
 import { IndustriesData, IndustryResearchTrees } from "../Corporation/data/IndustryData";
 import * as corpConstants from "../Corporation/data/Constants";
 import { ResearchMap } from "../Corporation/ResearchMap";
+import { getCompetitors, getMarketShare } from "../Corporation/Competitors";
 import { InternalAPI, NetscriptContext, setRemovedFunctions } from "../Netscript/APIWrapper";
 import { helpers } from "../Netscript/NetscriptHelpers";
 import { getEnumHelper } from "../utils/EnumHelper";
@@ -598,7 +599,12 @@ export function NetscriptCorporation(): InternalAPI<NSCorporation> {
     getIndustryData: (ctx) => (_industryName) => {
       checkAccess(ctx);
       const industryName = getEnumHelper("IndustryType").nsGetMember(ctx, _industryName, "industryName");
-      return structuredClone(IndustriesData[industryName]);
+      const corporation = getCorporation();
+      return {
+        ...structuredClone(IndustriesData[industryName]),
+        competitors: structuredClone(getCompetitors(corporation, industryName)),
+        marketShare: getMarketShare(corporation, industryName),
+      };
     },
     getMaterialData: (ctx) => (_materialName) => {
       checkAccess(ctx);
@@ -691,6 +697,10 @@ export function NetscriptCorporation(): InternalAPI<NSCorporation> {
       });
       return data;
     },
+    getHistory: (ctx) => () => {
+      checkAccess(ctx);
+      return structuredClone(getCorporation().history);
+    },
     createCorporation:
       (ctx) =>
       (_corporationName, _selfFund = true): boolean => {
@@ -52,6 +52,7 @@ import { getEnumHelper } from "../utils/EnumHelper";
 import { CompanyPositions } from "../Company/CompanyPositions";
 import { findCrime } from "../Crime/CrimeHelpers";
 import { Skills } from "../Bladeburner/data/Skills";
+import { getCorporationSnapshot, maxSimulationCycles, simulateCorporation } from "../Corporation/Simulation";
 
 export function NetscriptFormulas(): InternalAPI<IFormulas> {
   const checkFormulasAccess = function (ctx: NetscriptContext): void {
@@ -444,6 +445,24 @@ export function NetscriptFormulas(): InternalAPI<IFormulas> {
         return skill.calculateMaxUpgradeCount(level, skillPoints);
       },
     },
+    corporation: {
+      getSnapshot: (ctx) => () => {
+        checkFormulasAccess(ctx);
+        if (!Player.corporation) throw new Error("You do not own a corporation.");
+        return getCorporationSnapshot(Player.corporation);
+      },
+      simulate: (ctx) => (_snapshot, _cycles, _decisions) => {
+        checkFormulasAccess(ctx);
+        const snapshot = helpers.string(ctx, "snapshot", _snapshot);
+        const cycles = helpers.positiveInteger(ctx, "cycles", _cycles);
+        if (cycles > maxSimulationCycles) {
+          throw new Error(`cycles must be at most ${maxSimulationCycles}, but it is ${cycles}.`);
+        }
+        const decisions = _decisions ?? [];
+        if (!Array.isArray(decisions)) throw new Error("decisions must be an array.");
+        return simulateCorporation(snapshot, cycles, decisions);
+      },
+    },
   };
 
   // Removed functions
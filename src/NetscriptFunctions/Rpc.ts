@@ -0,0 +1,104 @@
+import type { Rpc as IRpc } from "@nsdefs";
+import type { Unknownify } from "../types";
+
+import { InternalAPI, NetscriptContext } from "../Netscript/APIWrapper";
+import { helpers } from "../Netscript/NetscriptHelpers";
+import { assertFunction } from "../Netscript/TypeAssertion";
+import { rpcServices, workerScripts } from "../Netscript/WorkerScripts";
+
+/** Clones values passed between scripts, so that scripts never share objects. Same as ports. */
+function cloneRpcValue(ctx: NetscriptContext, description: string, value: unknown): unknown {
+  try {
+    return structuredClone(value);
+  } catch (error) {
+    throw helpers.errorMessage(ctx, `Cannot send ${description}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function rpcCallTimeout(ctx: NetscriptContext, _options: unknown): number | null {
+  if (_options === undefined || _options === null) return null;
+  if (typeof _options !== "object") throw helpers.errorMessage(ctx, "options must be an object.", "TYPE");
+  // Safe assertion since _options type has been narrowed to a non-null object
+  const { timeout } = _options as Unknownify<{ timeout: number }>;
+  if (timeout === undefined || timeout === null) return null;
+  return helpers.positiveNumber(ctx, "RpcCallOptions.timeout", timeout);
+}
+
+export function NetscriptRpc(): InternalAPI<IRpc> {
+  return {
+    serve: (ctx) => (_name, handler) => {
+      const name = helpers.string(ctx, "name", _name);
+      if (!name) throw helpers.errorMessage(ctx, "Service name cannot be empty.");
+      assertFunction(ctx, "handler", handler);
+      const ws = ctx.workerScript;
+      const servingPid = rpcServices.get(name);
+      if (servingPid !== undefined && servingPid !== ws.pid) {
+        throw helpers.errorMessage(ctx, `Service ${name} is already being served by pid ${servingPid}.`);
+      }
+      rpcServices.set(name, ws.pid);
+      ws.rpcHandlers.set(name, handler);
+      helpers.log(ctx, () => `Serving ${name}.`);
+    },
+    unserve: (ctx) => (_name) => {
+      const name = helpers.string(ctx, "name", _name);
+      const ws = ctx.workerScript;
+      if (!ws.rpcHandlers.delete(name)) return false;
+      rpcServices.delete(name);
+      helpers.log(ctx, () => `Stopped serving ${name}.`);
+      return true;
+    },
+    call:
+      (ctx) =>
+      (_name, _args = [], _options) => {
+        const name = helpers.string(ctx, "name", _name);
+        if (!Array.isArray(_args)) throw helpers.errorMessage(ctx, "args must be an array.", "TYPE");
+        const timeout = rpcCallTimeout(ctx, _options);
+        const pid = rpcServices.get(name);
+        const server = pid === undefined ? undefined : workerScripts.get(pid);
+        const handler = server?.rpcHandlers.get(name);
+        if (!server || !handler) throw helpers.errorMessage(ctx, `No script is serving ${name}.`);
+        const args = cloneRpcValue(ctx, `arguments to ${name}`, _args) as unknown[];
+
+        return new Promise((resolve, reject) => {
+          let settled = false;
+          let timer: number | undefined;
+          const settle = (): boolean => {
+            if (settled) return false;
+            settled = true;
+            server.pendingRpcCalls.delete(failOnServerDeath);
+            if (timer !== undefined) clearTimeout(timer);
+            return true;
+          };
+          const failOnServerDeath = () => {
+            if (!settle()) return;
+            reject(helpers.errorMessage(ctx, `${server.name} (pid ${server.pid}) died before responding to ${name}.`));
+          };
+          server.pendingRpcCalls.add(failOnServerDeath);
+          if (timeout !== null) {
+            timer = window.setTimeout(() => {
+              if (!settle()) return;
+              reject(helpers.errorMessage(ctx, `Call to ${name} timed out after ${timeout}ms.`));
+            }, timeout);
+          }
+          // The handler runs as part of the serving script, and may be async.
+          Promise.resolve()
+            .then(() => handler(...args))
+            .then(
+              (result) => {
+                if (!settle()) return;
+                try {
+                  resolve(cloneRpcValue(ctx, `result of ${name}`, result));
+                } catch (error) {
+                  reject(error);
+                }
+              },
+              (error: unknown) => {
+                if (!settle()) return;
+                const reason = error instanceof Error ? error.message : String(error);
+                reject(helpers.errorMessage(ctx, `${name} failed in ${server.name} (pid ${server.pid}):\n${reason}`));
+              },
+            );
+        });
+      },
+  };
+}
@@ -1,17 +1,41 @@
 import { Settings } from "./Settings/Settings";
-import { NetscriptPort } from "@nsdefs";
-import { NetscriptPorts } from "./NetscriptWorker";
-import { PositiveInteger } from "./types";
+import { NetscriptChannel, NetscriptPort } from "@nsdefs";
+import { NetscriptChannels, NetscriptPorts } from "./NetscriptWorker";
+import { PositiveInteger, isPositiveInteger } from "./types";
+import { assertLoadingType } from "./utils/TypeAssertion";
 
 type Resolver = () => void;
 const emptyPortData = "NULL PORT DATA";
 /** The object property is for typechecking and is not present at runtime */
 export type PortNumber = PositiveInteger & { __PortNumber: true };
+/** Channels are keyed by their name, and also by hostname when they are host-scoped.
+ * The object property is for typechecking and is not present at runtime */
+export type ChannelKey = string & { __ChannelKey: true };
 
 function isObjectLike(value: unknown): value is object {
   return (typeof value === "object" && value !== null) || typeof value === "function";
 }
 
+/** Persistent ports are saved as JSON, so their data is limited to values that survive a JSON round trip.
+ * @returns A description of the first value that cannot be saved, or null if the whole value can be saved. */
+function getUnpersistableValue(value: unknown, ancestors = new Set<object>()): string | null {
+  if (value === null || typeof value === "string" || typeof value === "boolean") return null;
+  if (typeof value === "number") return Number.isFinite(value) ? null : String(value);
+  if (!isObjectLike(value)) return typeof value;
+  if (ancestors.has(value)) return "a circular reference";
+  const prototype = Object.getPrototypeOf(value);
+  if (!Array.isArray(value) && prototype !== Object.prototype && prototype !== null) {
+    return `an instance of ${prototype?.constructor?.name ?? "an unknown class"}`;
+  }
+  ancestors.add(value);
+  for (const entry of Object.values(value)) {
+    const unpersistable = getUnpersistableValue(entry, ancestors);
+    if (unpersistable) return unpersistable;
+  }
+  ancestors.delete(value);
+  return null;
+}
+
 /** Gets the numbered port, initializing it if it doesn't already exist.
  * Only using for functions that write data/resolvers. Use NetscriptPorts.get(n) for */
 export function getPort(n: PortNumber) {
@@ -26,14 +50,84 @@ export class Port {
   data: any[] = [];
   resolver: Resolver | null = null;
   promise: Promise<void> | null = null;
+  /** Capacity override for this port. Numbered ports use Settings.MaxPortCapacity, which can change at any time. */
+  capacity: PositiveInteger | null = null;
+  /** Persistent ports are saved with the game, and are not freed when they are emptied. */
+  persistent = false;
+
+  constructor(capacity: PositiveInteger | null = null) {
+    this.capacity = capacity;
+  }
+
+  get maxCapacity(): number {
+    return this.capacity ?? Settings.MaxPortCapacity;
+  }
+
   add(data: any) {
+    if (this.persistent) this.assertPersistable(data);
     this.data.push(data);
     if (!this.resolver) return;
     this.resolver();
     this.resolver = null;
     this.promise = null;
   }
+
+  write(value: unknown): any {
+    // Primitives don't need to be cloned.
+    this.add(isObjectLike(value) ? structuredClone(value) : value);
+    if (this.data.length > this.maxCapacity) return this.data.shift();
+    return null;
+  }
+
+  tryWrite(value: unknown): boolean {
+    if (this.data.length >= this.maxCapacity) return false;
+    // Primitives don't need to be cloned.
+    this.add(isObjectLike(value) ? structuredClone(value) : value);
+    return true;
+  }
+
+  read(): any {
+    if (!this.data.length) return emptyPortData;
+    return this.data.shift();
+  }
+
+  peek(): any {
+    if (!this.data.length) return emptyPortData;
+    // Needed to avoid exposing internal objects.
+    return isObjectLike(this.data[0]) ? structuredClone(this.data[0]) : this.data[0];
+  }
+
+  /** All callers waiting on the same port share one promise, so every waiting reader is woken by the next write. */
+  nextWrite(): Promise<void> {
+    if (!this.promise) this.promise = new Promise<void>((res) => (this.resolver = res));
+    return this.promise;
+  }
+
+  setPersistent(persistent: boolean): void {
+    if (persistent) this.data.forEach((data) => this.assertPersistable(data));
+    this.persistent = persistent;
+  }
+
+  /** Throws if data cannot be saved with the game. Data is checked after it was structured cloned, so this only has to
+   * reject what survives structuredClone but not JSON (Map, Set, Date, non-finite numbers, etc). */
+  assertPersistable(data: unknown): void {
+    const unpersistable = getUnpersistableValue(data);
+    if (!unpersistable) return;
+    throw new Error(
+      `Cannot store ${unpersistable} in a persistent port. Persistent ports can only hold strings, finite numbers, ` +
+        "booleans, null, arrays and plain objects.",
+    );
+  }
+
+  full(): boolean {
+    return this.data.length >= this.maxCapacity;
+  }
+
+  empty(): boolean {
+    return this.data.length === 0;
+  }
 }
+
 export function portHandle(n: PortNumber): NetscriptPort {
   return {
     write: (value: unknown) => writePort(n, value),
@@ -44,61 +138,170 @@ export function portHandle(n: PortNumber): NetscriptPort {
     full: () => isFullPort(n),
     empty: () => isEmptyPort(n),
     clear: () => clearPort(n),
+    isPersistent: () => NetscriptPorts.get(n)?.persistent ?? false,
+    setPersistent: (persistent: boolean) => setPortPersistence(n, !!persistent),
   };
 }
 
 export function writePort(n: PortNumber, value: unknown): any {
-  const port = getPort(n);
-  // Primitives don't need to be cloned.
-  port.add(isObjectLike(value) ? structuredClone(value) : value);
-  if (port.data.length > Settings.MaxPortCapacity) return port.data.shift();
-  return null;
+  return getPort(n).write(value);
 }
 
 export function tryWritePort(n: PortNumber, value: unknown): boolean {
-  const port = getPort(n);
-  if (port.data.length >= Settings.MaxPortCapacity) return false;
-  // Primitives don't need to be cloned.
-  port.add(isObjectLike(value) ? structuredClone(value) : value);
-  return true;
+  return getPort(n).tryWrite(value);
 }
 
 export function readPort(n: PortNumber): any {
   const port = NetscriptPorts.get(n);
-  if (!port || !port.data.length) return emptyPortData;
-  const returnVal = port.data.shift();
-  if (!port.data.length && !port.resolver) NetscriptPorts.delete(n);
+  if (!port) return emptyPortData;
+  const returnVal = port.read();
+  if (!port.data.length && !port.resolver && !port.persistent) NetscriptPorts.delete(n);
   return returnVal;
 }
 
 export function peekPort(n: PortNumber): any {
   const port = NetscriptPorts.get(n);
-  if (!port || !port.data.length) return emptyPortData;
-  // Needed to avoid exposing internal objects.
-  return isObjectLike(port.data[0]) ? structuredClone(port.data[0]) : port.data[0];
+  if (!port) return emptyPortData;
+  return port.peek();
 }
 
 export function nextPortWrite(n: PortNumber) {
-  const port = getPort(n);
-  if (!port.promise) port.promise = new Promise<void>((res) => (port.resolver = res));
-  return port.promise;
+  return getPort(n).nextWrite();
 }
 
 function isFullPort(n: PortNumber) {
   const port = NetscriptPorts.get(n);
   if (!port) return false;
-  return port.data.length >= Settings.MaxPortCapacity;
+  return port.full();
 }
 
 function isEmptyPort(n: PortNumber) {
   const port = NetscriptPorts.get(n);
   if (!port) return true;
-  return port.data.length === 0;
+  return port.empty();
 }
 
 export function clearPort(n: PortNumber) {
   const port = NetscriptPorts.get(n);
   if (!port) return;
-  if (!port.resolver) NetscriptPorts.delete(n);
+  if (!port.resolver && !port.persistent) NetscriptPorts.delete(n);
   port.data.length = 0;
 }
+
+export function setPortPersistence(n: PortNumber, persistent: boolean) {
+  if (!persistent) {
+    const port = NetscriptPorts.get(n);
+    if (!port) return;
+    port.setPersistent(false);
+    if (!port.data.length && !port.resolver) NetscriptPorts.delete(n);
+    return;
+  }
+  getPort(n).setPersistent(true);
+}
+
+/** Hostname is null for globally scoped channels. */
+export function channelKey(name: string, hostname: string | null): ChannelKey {
+  return JSON.stringify([hostname, name]) as ChannelKey;
+}
+
+/** Gets the named channel, initializing it if it doesn't already exist.
+ * Unlike numbered ports, channels keep their configured capacity, so they are only freed by closeChannel. */
+export function getChannel(key: ChannelKey, capacity: PositiveInteger | null): Port {
+  let channel = NetscriptChannels.get(key);
+  if (channel) return channel;
+  channel = new Port(capacity);
+  NetscriptChannels.set(key, channel);
+  return channel;
+}
+
+/** Removes a channel and its data. Anything waiting on the channel is woken so it doesn't wait forever. */
+export function closeChannel(key: ChannelKey): void {
+  const channel = NetscriptChannels.get(key);
+  if (!channel) return;
+  NetscriptChannels.delete(key);
+  channel.data.length = 0;
+  if (!channel.resolver) return;
+  channel.resolver();
+  channel.resolver = null;
+  channel.promise = null;
+}
+
+export function channelHandle(
+  name: string,
+  hostname: string | null,
+  capacity: PositiveInteger | null,
+): NetscriptChannel {
+  const key = channelKey(name, hostname);
+  // A closed channel is transparently recreated by the next operation on any of its handles.
+  const channel = () => getChannel(key, capacity);
+  return {
+    name,
+    host: hostname,
+    get capacity() {
+      return channel().maxCapacity;
+    },
+    write: (value: unknown) => channel().write(value),
+    tryWrite: (value: unknown) => channel().tryWrite(value),
+    read: () => channel().read(),
+    peek: () => channel().peek(),
+    nextWrite: () => channel().nextWrite(),
+    full: () => channel().full(),
+    empty: () => channel().empty(),
+    clear: () => void (channel().data.length = 0),
+    isPersistent: () => channel().persistent,
+    setPersistent: (persistent: boolean) => channel().setPersistent(!!persistent),
+    close: () => closeChannel(key),
+  };
+}
+
+interface PortSaveData {
+  data: unknown[];
+  capacity: PositiveInteger | null;
+}
+
+interface PortsSaveFormat {
+  ports: [PortNumber, PortSaveData][];
+  channels: [ChannelKey, PortSaveData][];
+}
+
+/** Only persistent ports and channels are saved. Everything else is lost on reload, like running scripts' state. */
+export function getPortsSave(): PortsSaveFormat {
+  const toSaveData = (port: Port): PortSaveData => ({ data: port.data, capacity: port.capacity });
+  return {
+    ports: [...NetscriptPorts].filter(([, port]) => port.persistent).map(([n, port]) => [n, toSaveData(port)]),
+    channels: [...NetscriptChannels].filter(([, port]) => port.persistent).map(([k, port]) => [k, toSaveData(port)]),
+  };
+}
+
+export function loadPorts(saveString: unknown): void {
+  NetscriptPorts.clear();
+  NetscriptChannels.clear();
+  if (!saveString || typeof saveString !== "string") return;
+  // Not using Reviver here, port data is arbitrary player data and could contain a "ctor" property.
+  const saveData: unknown = JSON.parse(saveString);
+  if (!saveData || typeof saveData !== "object") return;
+  assertLoadingType<PortsSaveFormat>(saveData);
+
+  const loadPort = (portData: unknown): Port | null => {
+    if (!portData || typeof portData !== "object") return null;
+    assertLoadingType<PortSaveData>(portData);
+    if (!Array.isArray(portData.data)) return null;
+    const capacity = isPositiveInteger(portData.capacity) ? portData.capacity : null;
+    const port = new Port(capacity);
+    port.persistent = true;
+    port.data = portData.data;
+    return port;
+  };
+  if (Array.isArray(saveData.ports)) {
+    for (const [n, portData] of saveData.ports) {
+      const port = loadPort(portData);
+      if (isPositiveInteger(n) && port) NetscriptPorts.set(n as PortNumber, port);
+    }
+  }
+  if (Array.isArray(saveData.channels)) {
+    for (const [key, portData] of saveData.channels) {
+      const port = loadPort(portData);
+      if (typeof key === "string" && port) NetscriptChannels.set(key as ChannelKey, port);
+    }
+  }
+}
@@ -12,7 +12,7 @@ import { CONSTANTS } from "./Constants";
 import { Interpreter } from "./ThirdParty/JSInterpreter";
 import { NetscriptFunctions } from "./NetscriptFunctions";
 import { compile, Node } from "./NetscriptJSEvaluator";
-import { Port, PortNumber } from "./NetscriptPort";
+import { ChannelKey, Port, PortNumber } from "./NetscriptPort";
 import { RunningScript } from "./Script/RunningScript";
 import { scriptCalculateOfflineProduction } from "./Script/ScriptHelpers";
 import { Script } from "./Script/Script";
@@ -38,6 +38,7 @@ import { isLegacyScript, legacyScriptExtension, resolveScriptFilePath, ScriptFil
 import { root } from "./Paths/Directory";
 
 export const NetscriptPorts = new Map<PortNumber, Port>();
+export const NetscriptChannels = new Map<ChannelKey, Port>();
 
 export function prestigeWorkerScripts(): void {
   for (const ws of workerScripts.values()) {
@@ -45,6 +46,7 @@ export function prestigeWorkerScripts(): void {
   }
 
   NetscriptPorts.clear();
+  NetscriptChannels.clear();
 }
 
 async function startNetscript2Script(workerScript: WorkerScript): Promise<void> {
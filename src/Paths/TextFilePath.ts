@@ -7,7 +7,12 @@ export type TextFilePath = FilePath & WithTextExtension;
 
 /** Check extension only */
 export function hasTextExtension(path: string): path is WithTextExtension {
-  return path.endsWith(".txt") || path.endsWith(".json");
+  return path.endsWith(".txt") || path.endsWith(".json") || hasShellScriptExtension(path);
+}
+
+/** Text files that can be run as terminal shell scripts */
+export function hasShellScriptExtension(path: string): path is WithTextExtension {
+  return path.endsWith(".sh");
 }
 
 /** Sanitize a player input, resolve any relative paths, and for imports add the correct extension if missing */
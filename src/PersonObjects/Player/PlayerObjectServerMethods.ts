@@ -5,7 +5,7 @@ import { currentNodeMults } from "../../BitNode/BitNodeMultipliers";
 import { Server } from "../../Server/Server";
 import { BaseServer } from "../../Server/BaseServer";
 import { HacknetServer } from "../../Hacknet/HacknetServer";
-import { GetServer, AddToAllServers, createUniqueRandomIp } from "../../Server/AllServers";
+import { GetServer, AddToAllServers, createUniqueRandomIp, ServerAddedEvents } from "../../Server/AllServers";
 import { SpecialServers } from "../../Server/data/SpecialServers";
 import { hasHacknetServers } from "../../Hacknet/HacknetHelpers";
 
@@ -59,6 +59,7 @@ export function createHacknetServer(this: PlayerObject): HacknetServer {
   const homeComputer = this.getHomeComputer();
   homeComputer.serversOnNetwork.push(server.hostname);
   server.serversOnNetwork.push(SpecialServers.Home);
+  ServerAddedEvents.emit(server);
 
   return server;
 }
@@ -1,14 +1,39 @@
 import type { BaseServer } from "../Server/BaseServer";
+import type { ScriptArg } from "@nsdefs";
+
+/** Error codes of JSON-RPC 2.0, and the codes in its range reserved for server errors that are used by the game. */
+export const RFAErrorCode = {
+  /** The message is not valid JSON */
+  ParseError: -32700,
+  /** The message is not a valid request object */
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  /** The game encountered an unexpected error while handling the request */
+  InternalError: -32603,
+  /** The request was valid but could not be fulfilled, e.g. because a file does not exist */
+  RequestFailed: -32000,
+  /** The client did not authenticate with the secret configured in the game options, or the secret was wrong */
+  Unauthorized: -32001,
+} as const;
+export type RFAErrorCode = (typeof RFAErrorCode)[keyof typeof RFAErrorCode];
+
+export interface RFAError {
+  code: RFAErrorCode;
+  message: string;
+}
 
 export class RFAMessage {
   jsonrpc = "2.0"; // Transmits version of JSON-RPC. Compliance maybe allows some funky interaction with external tools?
   public method?: string; // Is defined when it's a request/notification, otherwise undefined
   public result?: ResultType; // Is defined when it's a response, otherwise undefined
   public params?: FileMetadata; // Optional parameters to method
-  public error?: string; // Only defined on error
-  public id?: number; // ID to keep track of request -> response interaction, undefined with notifications, defined with request/response
+  public error?: RFAError; // Only defined on error
+  public id?: number | null; // ID to keep track of request -> response interaction, undefined with notifications, defined with request/response. Null when the request's id could not be read.
 
-  constructor(obj: { method?: string; result?: ResultType; params?: FileMetadata; error?: string; id?: number } = {}) {
+  constructor(
+    obj: { method?: string; result?: ResultType; params?: FileMetadata; error?: RFAError; id?: number | null } = {},
+  ) {
     this.method = obj.method;
     this.result = obj.result;
     this.params = obj.params;
@@ -17,8 +42,17 @@ export class RFAMessage {
   }
 }
 
-type ResultType = string | number | string[] | FileContent[] | RFAServerData[];
-type FileMetadata = FileData | FileContent | FileLocation | FileServer;
+type ResultType = string | number | string[] | FileContent[] | RFAServerData[] | RFARunningScriptData[];
+type FileMetadata =
+  | FileData
+  | FileContent
+  | FileLocation
+  | FileServer
+  | ScriptExecution
+  | ScriptPid
+  | ScriptLogLine
+  | RFAServerData
+  | AuthenticationData;
 
 export interface FileData {
   filename: string;
@@ -40,24 +74,89 @@ export interface FileServer {
   server: string;
 }
 
+export interface AuthenticationData {
+  secret: string;
+}
+
+export interface ScriptExecution {
+  filename: string;
+  server: string;
+  threads?: number;
+  args?: ScriptArg[];
+}
+
+export interface ScriptPid {
+  pid: number;
+}
+
+/** Params of the scriptLog notification, sent for each line logged by a script whose log is subscribed to */
+export interface ScriptLogLine {
+  pid: number;
+  line: string;
+}
+
 export type RFAServerData = Pick<BaseServer, "hostname" | "hasAdminRights" | "purchasedByPlayer">;
 
+export interface RFARunningScriptData {
+  pid: number;
+  filename: string;
+  server: string;
+  threads: number;
+  args: ScriptArg[];
+  ramUsage: number;
+}
+
+/** Requests must have a method, and an id unless they are notifications. */
+export function isRFARequest(msg: unknown): msg is RFAMessage & { method: string } {
+  if (!msg || typeof msg !== "object" || Array.isArray(msg)) return false;
+  const request = msg as RFAMessage;
+  return typeof request.method === "string" && (request.id === undefined || typeof request.id === "number");
+}
+
 export function isFileData(p: unknown): p is FileData {
+  if (!p || typeof p !== "object") return false;
   const pf = p as FileData;
   return typeof pf.server === "string" && typeof pf.filename === "string" && typeof pf.content === "string";
 }
 
 export function isFileLocation(p: unknown): p is FileLocation {
+  if (!p || typeof p !== "object") return false;
   const pf = p as FileLocation;
   return typeof pf.server === "string" && typeof pf.filename === "string";
 }
 
 export function isFileContent(p: unknown): p is FileContent {
+  if (!p || typeof p !== "object") return false;
   const pf = p as FileContent;
   return typeof pf.filename === "string" && typeof pf.content === "string";
 }
 
 export function isFileServer(p: unknown): p is FileServer {
+  if (!p || typeof p !== "object") return false;
   const pf = p as FileServer;
   return typeof pf.server === "string";
 }
+
+export function isScriptExecution(p: unknown): p is ScriptExecution {
+  if (!p || typeof p !== "object") return false;
+  const pf = p as ScriptExecution;
+  return (
+    typeof pf.server === "string" &&
+    typeof pf.filename === "string" &&
+    (pf.threads === undefined || typeof pf.threads === "number") &&
+    (pf.args === undefined ||
+      (Array.isArray(pf.args) && pf.args.every((arg) => ["string", "number", "boolean"].includes(typeof arg))))
+  );
+}
+
+export function isAuthenticationData(p: unknown): p is AuthenticationData {
+  if (!p || typeof p !== "object") return false;
+  const pf = p as AuthenticationData;
+  return typeof pf.secret === "string";
+}
+
+export function isScriptPid(p: unknown): p is ScriptPid {
+  if (!p || typeof p !== "object") return false;
+  const pf = p as ScriptPid;
+  return typeof pf.pid === "number";
+}
@@ -2,25 +2,35 @@ import { resolveFilePath } from "../Paths/FilePath";
 import { hasTextExtension } from "../Paths/TextFilePath";
 import { hasScriptExtension } from "../Paths/ScriptFilePath";
 import { GetServer, GetAllServers } from "../Server/AllServers";
+import { RunningScript } from "../Script/RunningScript";
+import { startWorkerScript } from "../NetscriptWorker";
+import { killWorkerScriptByPid } from "../Netscript/killWorkerScript";
+import { workerScripts } from "../Netscript/WorkerScripts";
+import { isPositiveInteger } from "../types";
 import {
   RFAMessage,
+  RFAErrorCode,
   FileData,
   FileContent,
   isFileServer,
   isFileLocation,
   FileLocation,
   isFileData,
+  isScriptExecution,
+  isScriptPid,
+  RFARunningScriptData,
 } from "./MessageDefinitions";
+import { logSubscriptions } from "./Notifications";
 
 import libSource from "../ScriptEditor/NetscriptDefinitions.d.ts?raw";
 
-function error(errorMsg: string, { id }: RFAMessage): RFAMessage {
-  return new RFAMessage({ error: errorMsg, id: id });
+function error(errorMsg: string, { id }: RFAMessage, code: RFAErrorCode = RFAErrorCode.RequestFailed): RFAMessage {
+  return new RFAMessage({ error: { code, message: errorMsg }, id: id });
 }
 
 export const RFARequestHandler: Record<string, (message: RFAMessage) => void | RFAMessage> = {
   pushFile: function (msg: RFAMessage): RFAMessage {
-    if (!isFileData(msg.params)) return error("Misses parameters", msg);
+    if (!isFileData(msg.params)) return error("Misses parameters", msg, RFAErrorCode.InvalidParams);
 
     const fileData: FileData = msg.params;
     const filePath = resolveFilePath(fileData.filename);
@@ -37,7 +47,7 @@ export const RFARequestHandler: Record<string, (message: RFAMessage) => void | R
   },
 
   getFile: function (msg: RFAMessage): RFAMessage {
-    if (!isFileLocation(msg.params)) return error("Message misses parameters", msg);
+    if (!isFileLocation(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
 
     const fileData: FileLocation = msg.params;
     const filePath = resolveFilePath(fileData.filename);
@@ -53,7 +63,7 @@ export const RFARequestHandler: Record<string, (message: RFAMessage) => void | R
   },
 
   deleteFile: function (msg: RFAMessage): RFAMessage {
-    if (!isFileLocation(msg.params)) return error("Message misses parameters", msg);
+    if (!isFileLocation(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
 
     const fileData: FileLocation = msg.params;
     const filePath = resolveFilePath(fileData.filename);
@@ -68,7 +78,7 @@ export const RFARequestHandler: Record<string, (message: RFAMessage) => void | R
   },
 
   getFileNames: function (msg: RFAMessage): RFAMessage {
-    if (!isFileServer(msg.params)) return error("Message misses parameters", msg);
+    if (!isFileServer(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
 
     const server = GetServer(msg.params.server);
     if (!server) return error("Server hostname invalid", msg);
@@ -79,7 +89,7 @@ export const RFARequestHandler: Record<string, (message: RFAMessage) => void | R
   },
 
   getAllFiles: function (msg: RFAMessage): RFAMessage {
-    if (!isFileServer(msg.params)) return error("Message misses parameters", msg);
+    if (!isFileServer(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
 
     const server = GetServer(msg.params.server);
     if (!server) return error("Server hostname invalid", msg);
@@ -92,7 +102,7 @@ export const RFARequestHandler: Record<string, (message: RFAMessage) => void | R
   },
 
   calculateRam: function (msg: RFAMessage): RFAMessage {
-    if (!isFileLocation(msg.params)) return error("Message misses parameters", msg);
+    if (!isFileLocation(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
     const fileData: FileLocation = msg.params;
     const filePath = resolveFilePath(fileData.filename);
     if (!filePath) return error("Invalid filename", msg);
@@ -121,4 +131,67 @@ export const RFARequestHandler: Record<string, (message: RFAMessage) => void | R
 
     return new RFAMessage({ result: servers, id: msg.id });
   },
+
+  execScript: function (msg: RFAMessage): RFAMessage {
+    if (!isScriptExecution(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
+    const filePath = resolveFilePath(msg.params.filename);
+    if (!filePath) return error("Invalid filename", msg);
+
+    const server = GetServer(msg.params.server);
+    if (!server) return error("Server hostname invalid", msg);
+
+    if (!hasScriptExtension(filePath)) return error("Filename isn't a script filename", msg);
+    const script = server.scripts.get(filePath);
+    if (!script) return error("File doesn't exist", msg);
+    if (!server.hasAdminRights) return error("Need root access to run script", msg);
+
+    const threads = msg.params.threads ?? 1;
+    if (!isPositiveInteger(threads)) return error("Number of threads must be a positive integer", msg);
+    const ramUsage = script.getRamUsage(server.scripts);
+    if (!ramUsage) return error("Ram cost could not be calculated", msg);
+    if (ramUsage * threads > server.maxRam - server.ramUsed + 0.001) return error("Not enough RAM", msg);
+
+    const runningScript = new RunningScript(script, ramUsage, msg.params.args ?? []);
+    runningScript.threads = threads;
+    const pid = startWorkerScript(runningScript, server);
+    if (!pid) return error("Failed to start script", msg);
+    return new RFAMessage({ result: pid, id: msg.id });
+  },
+
+  killScript: function (msg: RFAMessage): RFAMessage {
+    if (!isScriptPid(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
+    if (!killWorkerScriptByPid(msg.params.pid)) return error("No script is running with that pid", msg);
+    return new RFAMessage({ result: "OK", id: msg.id });
+  },
+
+  getRunningScripts: function (msg: RFAMessage): RFAMessage {
+    // The server is optional, scripts on all servers are listed without it.
+    let hostname: string | null = null;
+    if (msg.params !== undefined) {
+      if (!isFileServer(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
+      if (!GetServer(msg.params.server)) return error("Server hostname invalid", msg);
+      hostname = msg.params.server;
+    }
+
+    const scripts: RFARunningScriptData[] = [];
+    for (const { scriptRef } of workerScripts.values()) {
+      if (hostname !== null && scriptRef.server !== hostname) continue;
+      const { pid, filename, server, threads, args, ramUsage } = scriptRef;
+      scripts.push({ pid, filename, server, threads, args: args.slice(), ramUsage });
+    }
+    return new RFAMessage({ result: scripts, id: msg.id });
+  },
+
+  subscribeLog: function (msg: RFAMessage): RFAMessage {
+    if (!isScriptPid(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
+    if (!workerScripts.has(msg.params.pid)) return error("No script is running with that pid", msg);
+    logSubscriptions.add(msg.params.pid);
+    return new RFAMessage({ result: "OK", id: msg.id });
+  },
+
+  unsubscribeLog: function (msg: RFAMessage): RFAMessage {
+    if (!isScriptPid(msg.params)) return error("Message misses parameters", msg, RFAErrorCode.InvalidParams);
+    if (!logSubscriptions.delete(msg.params.pid)) return error("Not subscribed to that pid", msg);
+    return new RFAMessage({ result: "OK", id: msg.id });
+  },
 };
@@ -0,0 +1,53 @@
+import type React from "react";
+import type { RunningScript } from "../Script/RunningScript";
+import type { ContentFilePath } from "../Paths/ContentFile";
+import type { BaseServer } from "../Server/BaseServer";
+
+import { FileData, FileLocation, RFAMessage, RFAServerData, ScriptLogLine } from "./MessageDefinitions";
+import { EventEmitter } from "../utils/EventEmitter";
+
+/** Notifications are sent to the connected client without being requested, so they have no id. */
+export const RFANotificationEvents = new EventEmitter<[RFAMessage]>();
+
+/** Pids of the scripts whose logs are streamed to the client. Cleared when the connection closes. */
+export const logSubscriptions = new Set<number>();
+
+/** Set while a request from the client is handled, so its own file changes are not echoed back to it. */
+let handlingRequest = false;
+
+export function handleRequest<T>(handler: () => T): T {
+  handlingRequest = true;
+  try {
+    return handler();
+  } finally {
+    handlingRequest = false;
+  }
+}
+
+/** Listener for ContentFileWriteEvents */
+export function notifyFileChanged(hostname: string, filename: ContentFilePath, content: string): void {
+  if (handlingRequest) return;
+  const params: FileData = { server: hostname, filename, content };
+  RFANotificationEvents.emit(new RFAMessage({ method: "fileChanged", params }));
+}
+
+/** Listener for ContentFileDeleteEvents */
+export function notifyFileDeleted(hostname: string, filename: ContentFilePath): void {
+  if (handlingRequest) return;
+  const params: FileLocation = { server: hostname, filename };
+  RFANotificationEvents.emit(new RFAMessage({ method: "fileDeleted", params }));
+}
+
+/** Listener for ServerAddedEvents */
+export function notifyServerAdded({ hostname, hasAdminRights, purchasedByPlayer }: BaseServer): void {
+  const params: RFAServerData = { hostname, hasAdminRights, purchasedByPlayer };
+  RFANotificationEvents.emit(new RFAMessage({ method: "serverAdded", params }));
+}
+
+/** Listener for RunningScriptLogEvents, sending the entries of subscribed logs as notifications. */
+export function notifyScriptLog(runningScript: RunningScript, entry: React.ReactNode): void {
+  // Only text can be sent. Log entries that are React elements (from ns.printRaw) are skipped.
+  if (!logSubscriptions.has(runningScript.pid) || typeof entry !== "string") return;
+  const params: ScriptLogLine = { pid: runningScript.pid, line: entry };
+  RFANotificationEvents.emit(new RFAMessage({ method: "scriptLog", params }));
+}
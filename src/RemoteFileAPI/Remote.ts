@@ -1,10 +1,32 @@
-import { RFAMessage } from "./MessageDefinitions";
+import { RFAErrorCode, RFAMessage, isAuthenticationData, isRFARequest } from "./MessageDefinitions";
 import { RFARequestHandler } from "./MessageHandlers";
+import {
+  RFANotificationEvents,
+  handleRequest,
+  logSubscriptions,
+  notifyFileChanged,
+  notifyFileDeleted,
+  notifyScriptLog,
+  notifyServerAdded,
+} from "./Notifications";
+import { RunningScriptLogEvents } from "../Script/RunningScript";
+import { ContentFileDeleteEvents, ContentFileWriteEvents } from "../Server/ContentFileEvents";
+import { ServerAddedEvents } from "../Server/AllServers";
+import { getRemoteFileApiSecret } from "../Settings/Settings";
 import { SnackbarEvents } from "../ui/React/Snackbar";
 import { ToastVariant } from "@enums";
 
+function errorResponse(code: RFAErrorCode, message: string, id: number | null = null): RFAMessage {
+  return new RFAMessage({ error: { code, message }, id });
+}
+
 export class Remote {
   connection?: WebSocket;
+  stopNotifications?: () => void;
+  /** Requests other than "authenticate" are refused, and no notifications are sent, until this is true. */
+  authenticated = false;
+  /** Set when the client sent a wrong secret. The connection is closed once the response has been sent. */
+  authenticationFailed = false;
   static protocol = "ws";
   ipaddr: string;
   port: number;
@@ -20,34 +42,108 @@ export class Remote {
 
   public startConnection(): void {
     const address = Remote.protocol + "://" + this.ipaddr + ":" + this.port;
-    this.connection = new WebSocket(address);
+    const connection = new WebSocket(address);
+    this.connection = connection;
+    this.authenticated = getRemoteFileApiSecret() === "";
+    this.authenticationFailed = false;
 
-    this.connection.addEventListener("error", (e: Event) =>
+    connection.addEventListener("error", (e: Event) =>
       SnackbarEvents.emit(`Error with websocket ${address}, details: ${JSON.stringify(e)}`, ToastVariant.ERROR, 5000),
     );
-    this.connection.addEventListener("message", handleMessageEvent);
-    this.connection.addEventListener("open", () =>
+    connection.addEventListener("message", (e: MessageEvent) => this.handleMessageEvent(connection, e));
+    connection.addEventListener("open", () => {
+      this.stopNotifications?.();
+      const unsubscribers = [
+        RFANotificationEvents.subscribe((msg) => {
+          if (this.authenticated) connection.send(JSON.stringify(msg));
+        }),
+        RunningScriptLogEvents.subscribe(notifyScriptLog),
+        ContentFileWriteEvents.subscribe(notifyFileChanged),
+        ContentFileDeleteEvents.subscribe(notifyFileDeleted),
+        ServerAddedEvents.subscribe(notifyServerAdded),
+      ];
+      this.stopNotifications = () => unsubscribers.forEach((unsubscribe) => unsubscribe());
       SnackbarEvents.emit(
         `Remote API connection established on ${this.ipaddr}:${this.port}`,
         ToastVariant.SUCCESS,
         2000,
-      ),
-    );
-    this.connection.addEventListener("close", () =>
-      SnackbarEvents.emit("Remote API connection closed", ToastVariant.WARNING, 2000),
-    );
+      );
+    });
+    connection.addEventListener("close", () => {
+      this.stopNotifications?.();
+      this.stopNotifications = undefined;
+      logSubscriptions.clear();
+      SnackbarEvents.emit("Remote API connection closed", ToastVariant.WARNING, 2000);
+    });
   }
-}
 
-function handleMessageEvent(this: WebSocket, e: MessageEvent): void {
-  const msg: RFAMessage = JSON.parse(e.data);
+  private handleMessageEvent(connection: WebSocket, e: MessageEvent): void {
+    let request: unknown;
+    try {
+      request = JSON.parse(e.data);
+    } catch {
+      connection.send(JSON.stringify(errorResponse(RFAErrorCode.ParseError, "Message is not valid JSON")));
+      return;
+    }
+
+    if (Array.isArray(request)) {
+      // A batch is answered with one array holding the responses to all of its requests, except notifications.
+      if (request.length === 0) {
+        connection.send(JSON.stringify(errorResponse(RFAErrorCode.InvalidRequest, "Batch is empty")));
+        return;
+      }
+      const responses = request
+        .map((entry) => this.handleRequestObject(entry))
+        .filter((response): response is RFAMessage => response !== null);
+      if (responses.length > 0) connection.send(JSON.stringify(responses));
+    } else {
+      const response = this.handleRequestObject(request);
+      if (response) connection.send(JSON.stringify(response));
+    }
+
+    if (!this.authenticationFailed) return;
+    SnackbarEvents.emit("Remote API sent a wrong secret, closing the connection", ToastVariant.ERROR, 5000);
+    connection.close();
+  }
+
+  /** @returns The response to the request, or null if it was a notification, which must not be answered. */
+  private handleRequestObject(msg: unknown): RFAMessage | null {
+    if (!isRFARequest(msg)) return errorResponse(RFAErrorCode.InvalidRequest, "Message is not a valid request");
+    const response = this.getResponse(msg);
+    if (msg.id === undefined) return null;
+    return response ?? null;
+  }
+
+  private getResponse(msg: RFAMessage & { method: string }): RFAMessage | void {
+    if (this.authenticationFailed) return errorResponse(RFAErrorCode.Unauthorized, "Authentication failed", msg.id);
+    if (msg.method === "authenticate") return this.authenticate(msg);
+    if (!this.authenticated) {
+      return errorResponse(RFAErrorCode.Unauthorized, "Authenticate before sending other requests", msg.id);
+    }
+    if (!Object.hasOwn(RFARequestHandler, msg.method)) {
+      return errorResponse(RFAErrorCode.MethodNotFound, `Unknown method ${msg.method}`, msg.id);
+    }
+    const handler = RFARequestHandler[msg.method];
+    try {
+      return handleRequest(() => handler(msg));
+    } catch (error) {
+      console.error(error);
+      return errorResponse(RFAErrorCode.InternalError, String(error), msg.id);
+    }
+  }
 
-  if (!msg.method || !RFARequestHandler[msg.method]) {
-    const response = new RFAMessage({ error: "Unknown message received", id: msg.id });
-    this.send(JSON.stringify(response));
-    return;
+  private authenticate(msg: RFAMessage): RFAMessage {
+    if (!isAuthenticationData(msg.params)) {
+      return errorResponse(RFAErrorCode.InvalidParams, "Message misses parameters", msg.id);
+    }
+    // Without a configured secret, authenticating always succeeds, so clients can authenticate unconditionally.
+    const secret = getRemoteFileApiSecret();
+    if (secret !== "" && msg.params.secret !== secret) {
+      // Clients only get one attempt per connection, so the secret can't be guessed.
+      this.authenticationFailed = true;
+      return errorResponse(RFAErrorCode.Unauthorized, "Wrong secret", msg.id);
+    }
+    this.authenticated = true;
+    return new RFAMessage({ result: "OK", id: msg.id });
   }
-  const response = RFARequestHandler[msg.method](msg);
-  if (!response) return;
-  this.send(JSON.stringify(response));
 }
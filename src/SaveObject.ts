@@ -38,6 +38,7 @@ import { Terminal } from "./Terminal";
 import { getRecordValues } from "./Types/Record";
 import { exportMaterial } from "./Corporation/Actions";
 import { getGoSave, loadGo } from "./Go/SaveLoad";
+import { getPortsSave, loadPorts } from "./NetscriptPort";
 import { SaveData } from "./types";
 import { SaveDataError, canUseBinaryFormat, decodeSaveData, encodeJsonSaveString } from "./utils/SaveDataUtils";
 import { isBinaryFormat } from "../electron/saveDataBinaryFormat";
@@ -97,6 +98,7 @@ class BitburnerSaveObject {
   LastExportBonus = "0";
   StaneksGiftSave = "";
   GoSave = "";
+  PortsSave = "";
 
   async getSaveData(forceExcludeRunningScripts = false): Promise<SaveData> {
     this.PlayerSave = JSON.stringify(Player);
@@ -117,6 +119,7 @@ class BitburnerSaveObject {
     this.LastExportBonus = JSON.stringify(ExportBonus.LastExportBonus);
     this.StaneksGiftSave = JSON.stringify(staneksGift);
     this.GoSave = JSON.stringify(getGoSave());
+    this.PortsSave = JSON.stringify(getPortsSave());
 
     if (Player.gang) this.AllGangsSave = JSON.stringify(AllGangs);
 
@@ -810,6 +813,16 @@ async function loadGame(saveData: SaveData): Promise<boolean> {
       console.error("ERROR: Failed to parse last export bonus Settings " + err);
     }
   }
+  if (Object.hasOwn(saveObj, "PortsSave")) {
+    try {
+      loadPorts(saveObj.PortsSave);
+    } catch (e) {
+      console.error("ERROR: Failed to parse PortsSave: " + e);
+      loadPorts("");
+    }
+  } else {
+    loadPorts("");
+  }
   if (Player.gang && Object.hasOwn(saveObj, "AllGangsSave")) {
     try {
       loadAllGangs(saveObj.AllGangsSave);
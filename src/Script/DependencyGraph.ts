@@ -0,0 +1,163 @@
+/**
+ * Builds the import graph of a script, with the RAM cost that each module adds to the script.
+ * Used by the deps terminal command and the dependencies view of the script editor.
+ */
+import type { Node } from "../NetscriptJSEvaluator";
+import type { Script } from "./Script";
+import type { ScriptFilePath } from "../Paths/ScriptFilePath";
+import type { ServerName } from "../Types/strings";
+import { type RamCalculation, type RamUsageEntry, calculateRamUsage } from "./RamCalculations";
+import { getFileType, getFileTypeFeature, getModuleScript, parseAST } from "../utils/ScriptTransformer";
+
+export interface ModuleNode {
+  filename: ScriptFilePath;
+  /** The modules that this module imports or re-exports from, in the order of their declarations */
+  imports: ScriptFilePath[];
+  /** The costs that are caused by references in the code of this module. The base cost belongs to the script. */
+  entries: RamUsageEntry[];
+  /** The sum of the entries. A function that is referenced in several modules counts for each of them. */
+  ram: number;
+  /** Whether this module imports itself, directly or through other modules */
+  inCycle: boolean;
+  /** Why some imports of the module are unknown, e.g. a syntax error or a missing module */
+  error?: string;
+}
+
+export interface DependencyGraph {
+  root: ScriptFilePath;
+  /** The script and all the modules it depends on, in breadth-first order */
+  modules: Map<ScriptFilePath, ModuleNode>;
+  /**
+   * An import cycle in each group of modules that import each other: each module imports the next one, and the last
+   * one imports the first. A group can have more modules than its cycle, they are marked with inCycle.
+   */
+  cycles: ScriptFilePath[][];
+  /** The RAM cost of the whole script */
+  ram: RamCalculation;
+}
+
+/** The modules imported by the top-level declarations of a module */
+function findImports(node: ModuleNode, code: string, scripts: Map<ScriptFilePath, Script>): void {
+  const fileType = getFileType(node.filename);
+  let ast;
+  try {
+    ast = parseAST(code, fileType);
+  } catch (error) {
+    node.error = `Cannot parse module: ${error instanceof Error ? error.message : String(error)}`;
+    return;
+  }
+  const isTypeScript = getFileTypeFeature(fileType).isTypeScript;
+  for (const statement of (ast as Node).body as Node[]) {
+    if (!["ImportDeclaration", "ExportNamedDeclaration", "ExportAllDeclaration"].includes(statement.type)) continue;
+    const moduleName: unknown = statement.source?.value;
+    if (typeof moduleName !== "string") continue;
+    // Path aliases of NetscriptDefinitions.d.ts, see RamCalculations
+    if (isTypeScript && (moduleName === "@nsdefs" || moduleName === "@ns")) continue;
+    try {
+      const filename = getModuleScript(moduleName, node.filename, scripts).filename;
+      if (!node.imports.includes(filename)) node.imports.push(filename);
+    } catch (error) {
+      node.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+}
+
+/** Strongly connected components of the graph with more than one module, or with a module that imports itself */
+function findImportGroups(modules: Map<ScriptFilePath, ModuleNode>): ScriptFilePath[][] {
+  // Tarjan's algorithm
+  const index = new Map<ScriptFilePath, number>();
+  const lowLink = new Map<ScriptFilePath, number>();
+  const stack: ScriptFilePath[] = [];
+  const groups: ScriptFilePath[][] = [];
+
+  function visit(filename: ScriptFilePath): void {
+    index.set(filename, index.size);
+    lowLink.set(filename, index.get(filename) as number);
+    stack.push(filename);
+    for (const imported of modules.get(filename)?.imports ?? []) {
+      if (!index.has(imported)) {
+        visit(imported);
+        lowLink.set(filename, Math.min(lowLink.get(filename) as number, lowLink.get(imported) as number));
+      } else if (stack.includes(imported)) {
+        lowLink.set(filename, Math.min(lowLink.get(filename) as number, index.get(imported) as number));
+      }
+    }
+    if (lowLink.get(filename) !== index.get(filename)) return;
+    const component = stack.splice(stack.indexOf(filename));
+    if (component.length > 1 || modules.get(filename)?.imports.includes(filename)) groups.push(component);
+  }
+
+  for (const filename of modules.keys()) {
+    if (!index.has(filename)) visit(filename);
+  }
+  return groups;
+}
+
+/** The shortest import cycle from the first module of a group back to it, following only imports within the group */
+function findCycle(modules: Map<ScriptFilePath, ModuleNode>, group: ScriptFilePath[]): ScriptFilePath[] {
+  const start = group[0];
+  // Breadth-first search, with the module from which each module was reached
+  const previous = new Map<ScriptFilePath, ScriptFilePath>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const filename = queue.shift() as ScriptFilePath;
+    for (const imported of modules.get(filename)?.imports ?? []) {
+      if (imported === start) {
+        const cycle = [filename];
+        while (cycle[0] !== start) cycle.unshift(previous.get(cycle[0]) as ScriptFilePath);
+        return cycle;
+      }
+      if (!group.includes(imported) || previous.has(imported)) continue;
+      previous.set(imported, filename);
+      queue.push(imported);
+    }
+  }
+  // Unreachable for a strongly connected group
+  return group;
+}
+
+/**
+ * Builds the import graph of a script
+ * @param code - The code of the script, which may differ from the saved code
+ * @param scriptName - The script's name. Used to resolve relative imports
+ * @param server - Servername of the scripts for Error Message
+ * @param otherScripts - The scripts on the server, which are the modules that can be imported
+ */
+export function getDependencyGraph(
+  code: string,
+  scriptName: ScriptFilePath,
+  server: ServerName,
+  otherScripts: Map<ScriptFilePath, Script>,
+): DependencyGraph {
+  const modules = new Map<ScriptFilePath, ModuleNode>();
+  const queue: [ScriptFilePath, string][] = [[scriptName, code]];
+  while (queue.length > 0) {
+    const [filename, moduleCode] = queue.shift() as [ScriptFilePath, string];
+    const node: ModuleNode = { filename, imports: [], entries: [], ram: 0, inCycle: false };
+    modules.set(filename, node);
+    findImports(node, moduleCode, otherScripts);
+    for (const imported of node.imports) {
+      if (modules.has(imported) || queue.some(([queued]) => queued === imported)) continue;
+      const script = otherScripts.get(imported);
+      if (script) queue.push([imported, script.code]);
+    }
+  }
+
+  const ram = calculateRamUsage(code, scriptName, server, otherScripts);
+  for (const entry of ram.entries ?? []) {
+    // Costs without a location, like the base cost, belong to the script itself
+    const filenames = new Set(entry.locations?.map((location) => location.filename) ?? [scriptName]);
+    for (const filename of filenames) {
+      const node = modules.get(filename);
+      if (!node) continue;
+      node.entries.push(entry);
+      node.ram += entry.cost;
+    }
+  }
+
+  const groups = findImportGroups(modules);
+  for (const group of groups) {
+    for (const filename of group) (modules.get(filename) as ModuleNode).inCycle = true;
+  }
+  return { root: scriptName, modules, cycles: groups.map((group) => findCycle(modules, group)), ram };
+}
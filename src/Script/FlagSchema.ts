@@ -0,0 +1,142 @@
+import type * as acorn from "acorn";
+import type { FlagSchema, ScriptArg } from "@nsdefs";
+import type { Script } from "./Script";
+
+import libarg from "arg";
+import { isLegacyScript } from "../Paths/ScriptFilePath";
+import { AcornASTProgram, getFileType, parseAST } from "../utils/ScriptTransformer";
+
+/** Name of the export that holds the flag schema of a script */
+const flagSchemaExport = "flagSchema";
+
+type FlagType = StringConstructor | NumberConstructor | BooleanConstructor | StringConstructor[];
+
+/** Thrown when a flag schema cannot be read, or when flags don't match the schema */
+export class FlagSchemaError extends Error {}
+
+/** The flag as it is written on the command line, e.g. -v or --target. Same as ns.flags. */
+export function flagOption(name: string): string {
+  return (name.length > 1 ? "--" : "-") + name;
+}
+
+/** Same as ns.flags, the type of a flag is determined by its default value */
+function flagType(defaultValue: ScriptArg | string[]): FlagType {
+  if (typeof defaultValue === "number") return Number;
+  if (typeof defaultValue === "boolean") return Boolean;
+  if (Array.isArray(defaultValue)) return [String];
+  return String;
+}
+
+/** Evaluates an expression that only consists of literals. TypeScript "as" and "satisfies" expressions are ignored. */
+function evaluateLiteral(node: acorn.Expression | acorn.SpreadElement | null): unknown {
+  const type: string = node?.type ?? "";
+  if (type === "TSAsExpression" || type === "TSSatisfiesExpression") {
+    // These nodes are not part of acorn's types, they are produced by babel's parser for TypeScript files.
+    return evaluateLiteral((node as unknown as { expression: acorn.Expression }).expression);
+  }
+  switch (node?.type) {
+    case "Literal":
+      if (["string", "number", "boolean"].includes(typeof node.value)) return node.value;
+      break;
+    case "ArrayExpression":
+      return node.elements.map(evaluateLiteral);
+    case "UnaryExpression": {
+      const value = evaluateLiteral(node.argument);
+      if (node.operator === "-" && typeof value === "number") return -value;
+      break;
+    }
+    case "TemplateLiteral":
+      if (node.expressions.length === 0) return node.quasis[0].value.cooked;
+      break;
+  }
+  throw new FlagSchemaError(`${flagSchemaExport} must be an array of literal values.`);
+}
+
+function isFlagSchema(value: unknown): value is FlagSchema {
+  if (!Array.isArray(value)) return false;
+  return value.every((entry: unknown) => {
+    if (!Array.isArray(entry) || entry.length < 2 || entry.length > 4) return false;
+    const [name, defaultValue, description, choices] = entry;
+    return (
+      typeof name === "string" &&
+      name.length > 0 &&
+      (["string", "number", "boolean"].includes(typeof defaultValue) ||
+        (Array.isArray(defaultValue) && defaultValue.every((value) => typeof value === "string"))) &&
+      (description === undefined || typeof description === "string") &&
+      (choices === undefined || (Array.isArray(choices) && choices.every((choice) => typeof choice === "string")))
+    );
+  });
+}
+
+/**
+ * Reads the flag schema that a script exports as `flagSchema`, without running the script.
+ * @returns The schema, or null if the script doesn't export one or cannot be parsed.
+ * @throws FlagSchemaError if the exported schema is not a valid literal schema.
+ */
+export function getFlagSchema(script: Script): FlagSchema | null {
+  if (isLegacyScript(script.filename)) return null;
+  let ast;
+  try {
+    ast = parseAST(script.code, getFileType(script.filename)) as AcornASTProgram;
+  } catch (error) {
+    // Syntax errors are reported when the script is run.
+    return null;
+  }
+  for (const statement of ast.body) {
+    if (statement.type !== "ExportNamedDeclaration" || statement.declaration?.type !== "VariableDeclaration") continue;
+    for (const declarator of statement.declaration.declarations) {
+      if (declarator.id.type !== "Identifier" || declarator.id.name !== flagSchemaExport) continue;
+      const schema = evaluateLiteral(declarator.init ?? null);
+      if (!isFlagSchema(schema)) {
+        throw new FlagSchemaError(
+          `${flagSchemaExport} must be an array of [name, default value, description?, allowed values?] entries.`,
+        );
+      }
+      return schema;
+    }
+  }
+  return null;
+}
+
+/** Checks the flags in args the same way as ns.flags, and also checks numbers and allowed values */
+export function validateFlags(schema: FlagSchema, args: ScriptArg[]): void {
+  const spec: Record<string, FlagType> = {};
+  for (const [name, defaultValue] of schema) spec[flagOption(name)] = flagType(defaultValue);
+  let flags: Record<string, unknown>;
+  try {
+    flags = libarg(spec, { argv: args.map(String) });
+  } catch (error) {
+    throw new FlagSchemaError(error instanceof Error ? error.message : String(error));
+  }
+  for (const [name, defaultValue, , choices] of schema) {
+    const option = flagOption(name);
+    const value = flags[option];
+    if (value === undefined) continue;
+    if (typeof defaultValue === "number" && !Number.isFinite(value)) {
+      throw new FlagSchemaError(`${option} must be a number.`);
+    }
+    const invalidValue = choices && [value].flat().find((value) => !choices.includes(String(value)));
+    if (invalidValue !== undefined) {
+      throw new FlagSchemaError(`Invalid value ${invalidValue} for ${option}. Allowed values: ${choices?.join(", ")}`);
+    }
+  }
+}
+
+/** Usage text generated from the schema, for run [script] --help */
+export function getFlagUsage(filename: string, schema: FlagSchema): string[] {
+  const flags = schema.map(([name, defaultValue, description, choices]): [string, string] => {
+    let option = flagOption(name);
+    if (typeof defaultValue !== "boolean") {
+      option += ` <${choices?.join("|") ?? (Array.isArray(defaultValue) ? "string" : typeof defaultValue)}>`;
+    }
+    if (Array.isArray(defaultValue)) option += "...";
+    const hasDefault = typeof defaultValue !== "boolean" && String(defaultValue) !== "";
+    const defaultText = hasDefault ? `(default: ${[defaultValue].flat().join(", ")})` : "";
+    return [option, [description, defaultText].filter(Boolean).join(" ")];
+  });
+  const width = Math.max(...flags.map(([option]) => option.length)) + 4;
+  return [
+    `Usage: run ${filename} [flags...] [args...]`,
+    ...flags.map(([option, description]) => `  ${option.padEnd(width)}${description}`.trimEnd()),
+  ];
+}
@@ -1,5 +1,5 @@
 import type { NSFull } from "../NetscriptFunctions";
-import type { AutocompleteData, ScriptArg } from "@nsdefs";
+import type { AutocompleteData, ScriptArg, TestContext } from "@nsdefs";
 
 // The object portion of this type is not runtime information, it's only to ensure type validation
 // And make it harder to overwrite a url with a random non-url string.
@@ -8,6 +8,8 @@ export type ScriptURL = string & { __type: "ScriptURL" };
 export interface ScriptModule {
   main?: (ns: NSFull, ...args: ScriptArg[]) => unknown;
   autocomplete?: (data: AutocompleteData, flags: string[]) => unknown;
+  /** Exported by test files, see the test terminal command */
+  tests?: (context: TestContext) => unknown;
 }
 
 export class LoadedModule {
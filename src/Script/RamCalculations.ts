@@ -5,8 +5,6 @@
  */
 import * as walk from "acorn-walk";
 import type * as acorn from "acorn";
-import { extendAcornWalkForTypeScriptNodes } from "../ThirdParty/acorn-typescript-walk";
-import { extend as extendAcornWalkForJsxNodes } from "acorn-jsx-walk";
 
 import { RamCalculationErrorCode } from "./RamCalculationErrorCodes";
 
@@ -26,10 +24,25 @@ import {
   ModuleResolutionError,
 } from "../utils/ScriptTransformer";
 
+/** A reference in the code of a script or of one of its imports that adds RAM cost */
+export interface RamUsageLocation {
+  filename: ScriptFilePath;
+  /** Offsets of the referencing node in the code of the file */
+  start: number;
+  end: number;
+  /**
+   * Only set for references in imported modules. The import declarations through which the script depends on the
+   * module, starting with the one in the script itself.
+   */
+  importChain?: RamUsageLocation[];
+}
+
 export interface RamUsageEntry {
   type: "ns" | "dom" | "fn" | "misc";
   name: string;
   cost: number;
+  /** Where the cost comes from. Not set for costs that aren't caused by code, like the base cost. */
+  locations?: RamUsageLocation[];
 }
 
 export type RamCalculationSuccess = {
@@ -48,12 +61,6 @@ export type RamCalculationFailure = {
 
 export type RamCalculation = RamCalculationSuccess | RamCalculationFailure;
 
-// Extend acorn-walk to support TypeScript nodes.
-extendAcornWalkForTypeScriptNodes(walk.base);
-
-// Extend acorn-walk to support JSX nodes.
-extendAcornWalkForJsxNodes(walk.base);
-
 // These special strings are used to reference the presence of a given logical
 // construct within a user script.
 const specialReferenceIF = "__SPECIAL_referenceIf";
@@ -101,6 +108,12 @@ function parseOnlyRamCalculate(
    */
   let dependencyMap: Record<string, Set<string>> = {};
 
+  // Maps dependent identifiers to the locations of the names they reference.
+  let referenceLocations: Record<string, Record<string, RamUsageLocation[]> | undefined> = {};
+
+  // The imported module and the location of the declaration, for all parsed import declarations.
+  const importLocations: [ScriptFilePath, RamUsageLocation][] = [];
+
   // Scripts we've parsed.
   const completedParses = new Set();
 
@@ -120,6 +133,8 @@ function parseOnlyRamCalculate(
 
     // Splice all the references in
     dependencyMap = Object.assign(dependencyMap, result.dependencyMap);
+    referenceLocations = Object.assign(referenceLocations, result.referenceLocations);
+    importLocations.push(...result.importLocations);
   }
 
   // Parse the initial module, which is the "main" script that is being run
@@ -159,12 +174,54 @@ function parseOnlyRamCalculate(
     parseCode(moduleAST, nextModule, getFileTypeFeature(scriptFileType));
   }
 
+  /** Adds a cost that is caused by references to a name. Their locations are added once all references are known. */
+  function addCost(entry: RamUsageEntry, ref: string): void {
+    detailedCosts.push(entry);
+    locatedCosts.push([entry, ref]);
+  }
+
+  /** The shortest chain of import declarations from the main script to a module */
+  function getImportChain(module: ScriptFilePath): RamUsageLocation[] {
+    const importedBy = new Map<ScriptFilePath, RamUsageLocation>();
+    const queue = [initialModule];
+    while (queue.length > 0 && !importedBy.has(module)) {
+      const current = queue.shift();
+      for (const [importedModule, location] of importLocations) {
+        if (location.filename !== current || importedModule === initialModule || importedBy.has(importedModule)) {
+          continue;
+        }
+        importedBy.set(importedModule, location);
+        queue.push(importedModule);
+      }
+    }
+    const chain: RamUsageLocation[] = [];
+    for (let location = importedBy.get(module); location; location = importedBy.get(location.filename)) {
+      chain.unshift(location);
+    }
+    return chain;
+  }
+
+  /** Locations of all references to a name from code that is part of the script */
+  function getLocations(ref: string): RamUsageLocation[] {
+    const locations: RamUsageLocation[] = [];
+    for (const key of reachedKeys) {
+      for (const location of referenceLocations[key]?.[ref] ?? []) {
+        if (location.filename === initialModule) locations.push(location);
+        else locations.push({ ...location, importChain: getImportChain(location.filename) });
+      }
+    }
+    return locations;
+  }
+
   // Finally, walk the reference map and generate a ram cost. The initial set of keys to scan
   // are those that start with the name of the main script.
   let ram: number = RamCostConstants.Base;
   const detailedCosts: RamUsageEntry[] = [{ type: "misc", name: "baseCost", cost: RamCostConstants.Base }];
   const unresolvedRefs = Object.keys(dependencyMap).filter((s) => s.startsWith(initialModule));
   const resolvedRefs = new Set();
+  // All dependent identifiers that are part of the script. Their references are the locations of the costs.
+  const reachedKeys = new Set<string>();
+  const locatedCosts: [RamUsageEntry, string][] = [];
   const loadedFns: Record<string, boolean> = {};
   while (unresolvedRefs.length > 0) {
     const ref = unresolvedRefs.shift();
@@ -185,23 +242,25 @@ function parseOnlyRamCalculate(
     // Check if this is one of the special keys, and add the appropriate ram cost if so.
     if (ref === "hacknet" && !resolvedRefs.has("hacknet")) {
       ram += RamCostConstants.HacknetNodes;
-      detailedCosts.push({ type: "ns", name: "hacknet", cost: RamCostConstants.HacknetNodes });
+      addCost({ type: "ns", name: "hacknet", cost: RamCostConstants.HacknetNodes }, ref);
     }
     if (ref === "document" && !resolvedRefs.has("document")) {
       ram += RamCostConstants.Dom;
-      detailedCosts.push({ type: "dom", name: "document", cost: RamCostConstants.Dom });
+      addCost({ type: "dom", name: "document", cost: RamCostConstants.Dom }, ref);
     }
     if (ref === "window" && !resolvedRefs.has("window")) {
       ram += RamCostConstants.Dom;
-      detailedCosts.push({ type: "dom", name: "window", cost: RamCostConstants.Dom });
+      addCost({ type: "dom", name: "window", cost: RamCostConstants.Dom }, ref);
     }
 
     resolvedRefs.add(ref);
+    reachedKeys.add(ref);
 
     if (ref.endsWith(".*")) {
       // A prefix reference. We need to find all matching identifiers.
       const prefix = ref.slice(0, ref.length - 2);
       for (const ident of Object.keys(dependencyMap).filter((k) => k.startsWith(prefix))) {
+        reachedKeys.add(ident);
         for (const dep of dependencyMap[ident] || []) {
           if (!resolvedRefs.has(dep)) {
             unresolvedRefs.push(dep);
@@ -251,12 +310,15 @@ function parseOnlyRamCalculate(
       const details = findFunc("", RamCosts, ref);
       const fnRam = getNumericCost(details?.func ?? 0);
       ram += fnRam;
-      detailedCosts.push({ type: "fn", name: details?.refDetail ?? "", cost: fnRam });
+      addCost({ type: "fn", name: details?.refDetail ?? "", cost: fnRam }, ref);
     } catch (error) {
       console.error(error);
       continue;
     }
   }
+  for (const [entry, ref] of locatedCosts) {
+    entry.locations = getLocations(ref);
+  }
   if (ram > RamCostConstants.Max) {
     ram = RamCostConstants.Max;
     detailedCosts.push({ type: "misc", name: "Max Ram Cap", cost: RamCostConstants.Max });
@@ -264,58 +326,18 @@ function parseOnlyRamCalculate(
   return { cost: ram, entries: detailedCosts.filter((e) => e.cost > 0) };
 }
 
-export function checkInfiniteLoop(ast: AST, code: string): number[] {
-  function nodeHasTrueTest(node: acorn.Node): boolean {
-    return node.type === "Literal" && "raw" in node && (node.raw === "true" || node.raw === "1");
-  }
-
-  function hasAwait(ast: acorn.Node): boolean {
-    let hasAwait = false;
-    walk.recursive(
-      ast,
-      {},
-      {
-        AwaitExpression: () => {
-          hasAwait = true;
-        },
-      },
-    );
-    return hasAwait;
-  }
-
-  const possibleLines: number[] = [];
-  walk.recursive(
-    ast as acorn.Node, // Pretend that ast is an acorn node
-    {},
-    {
-      WhileStatement: (node: Node, st: unknown, walkDeeper: walk.WalkerCallback<any>) => {
-        const previousLines = code.slice(0, node.start).trimEnd().split("\n");
-        const lineNumber = previousLines.length + 1;
-        if (previousLines[previousLines.length - 1].match(/^\s*\/\/\s*@ignore-infinite/)) {
-          return;
-        }
-        if (nodeHasTrueTest(node.test) && !hasAwait(node)) {
-          possibleLines.push(lineNumber);
-        } else {
-          node.body && walkDeeper(node.body, st);
-        }
-      },
-    },
-  );
-
-  return possibleLines;
-}
-
 interface ParseDepsResult {
   dependencyMap: Record<string, Set<string> | undefined>;
+  referenceLocations: Record<string, Record<string, RamUsageLocation[]> | undefined>;
+  importLocations: [ScriptFilePath, RamUsageLocation][];
   additionalModules: ScriptFilePath[];
 }
 
 /**
  * Helper function that parses a single script. It returns a map of all dependencies,
  * which are items in the code's AST that potentially need to be evaluated
- * for RAM usage calculations. It also returns an array of additional modules
- * that need to be parsed (i.e. are 'import'ed scripts).
+ * for RAM usage calculations, and where these items are referenced. It also returns
+ * an array of additional modules that need to be parsed (i.e. are 'import'ed scripts).
  */
 function parseOnlyCalculateDeps(
   ast: AST,
@@ -335,6 +357,15 @@ function parseOnlyCalculateDeps(
 
   const additionalModules: ScriptFilePath[] = [];
 
+  // Where each dependent identifier references each name, and where other modules are imported.
+  const referenceLocations: Record<string, Record<string, RamUsageLocation[]> | undefined> = {};
+  const importLocations: [ScriptFilePath, RamUsageLocation][] = [];
+
+  function addLocation(key: string, name: string, node: Node): void {
+    const locations = referenceLocations[key] || (referenceLocations[key] = {});
+    (locations[name] || (locations[name] = [])).push({ filename: currentModule, start: node.start, end: node.end });
+  }
+
   // References get added pessimistically. They are added for thisModule.name, name, and for
   // any aliases.
   function addRef(key: string, name: string, module = currentModule): void {
@@ -409,6 +440,7 @@ function parseOnlyCalculateDeps(
           return;
         }
         addRef(st.key, node.name);
+        addLocation(st.key, node.name, node);
       },
       WhileStatement: (node: Node, st: State, walkDeeper: walk.WalkerCallback<State>) => {
         addRef(st.key, specialReferenceWHILE);
@@ -453,6 +485,7 @@ function parseOnlyCalculateDeps(
           }
           const importModuleName = getModuleScript(rawImportModuleName, currentModule, otherScripts).filename;
           additionalModules.push(importModuleName);
+          importLocations.push([importModuleName, { filename: currentModule, start: node.start, end: node.end }]);
 
           // This module's global scope refers to that module's global scope, no matter how we
           // import it.
@@ -495,6 +528,7 @@ function parseOnlyCalculateDeps(
               // if this is true, we are re-exporting something
               addRef(exportedDepName, specifier.local.name, node.source.value);
               additionalModules.push(node.source.value);
+              importLocations.push([node.source.value, { filename: currentModule, start: node.start, end: node.end }]);
             } else if (specifier.exported.name !== specifier.local.name) {
               // this makes sure we are not refering to ourselves
               // if this is not true, we don't need to add anything
@@ -507,7 +541,12 @@ function parseOnlyCalculateDeps(
     ),
   );
 
-  return { dependencyMap: dependencyMap, additionalModules: additionalModules };
+  return {
+    dependencyMap: dependencyMap,
+    referenceLocations: referenceLocations,
+    importLocations: importLocations,
+    additionalModules: additionalModules,
+  };
 }
 
 /**
@@ -10,15 +10,34 @@ import { Terminal } from "../Terminal";
 
 import { Generic_fromJSON, Generic_toJSON, IReviverValue, constructorsForReviver } from "../utils/JSONReviver";
 import { formatTime } from "../utils/helpers/formatTime";
-import { ScriptArg } from "@nsdefs";
+import { LogLevel, ScriptArg } from "@nsdefs";
 import { RamCostConstants } from "../Netscript/RamCostGenerator";
 import { PositiveInteger } from "../types";
 import { getKeyList } from "../utils/helpers/getKeyList";
 import { ScriptFilePath } from "../Paths/ScriptFilePath";
 import { ScriptKey, scriptKey } from "../utils/helpers/scriptKey";
+import { EventEmitter } from "../utils/EventEmitter";
 
 import type { LogBoxProperties } from "../ui/React/LogBoxManager";
 
+/** Log levels from the least to the most severe */
+export const logLevels: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * The level of a log entry that was written without one, e.g. with ns.print. It is derived from the same prefixes
+ * that color the entry in the tail window.
+ */
+export function inferLogLevel(entry: React.ReactNode): LogLevel {
+  if (typeof entry !== "string") return "info";
+  if (/^(\[[^\]]+\] )?(ERROR|FAIL)/.test(entry)) return "error";
+  if (/^(\[[^\]]+\] )?WARN/.test(entry)) return "warn";
+  if (/^(\[[^\]]+\] )?DEBUG/.test(entry)) return "debug";
+  return "info";
+}
+
+/** Emitted for every entry added to a running script's log */
+export const RunningScriptLogEvents = new EventEmitter<[RunningScript, React.ReactNode]>();
+
 export class RunningScript {
   // Script arguments
   args: ScriptArg[] = [];
@@ -33,6 +52,9 @@ export class RunningScript {
   // This script's logs. An array of log entries
   logs: React.ReactNode[] = [];
 
+  // The level of each log entry, at the same index as the entry in logs
+  logLevels: LogLevel[] = [];
+
   // Flag indicating whether the logs have been updated since
   // the last time the UI was updated
   logUpd = false;
@@ -99,9 +121,10 @@ export class RunningScript {
     this.title = `${this.filename} ${args.join(" ")}`;
   }
 
-  log(txt: React.ReactNode): void {
+  log(txt: React.ReactNode, level = inferLogLevel(txt)): void {
     if (this.logs.length > Settings.MaxLogCapacity) {
       this.logs.shift();
+      this.logLevels.shift();
     }
 
     let logEntry = txt;
@@ -110,7 +133,9 @@ export class RunningScript {
     }
 
     this.logs.push(logEntry);
+    this.logLevels.push(level);
     this.logUpd = true;
+    RunningScriptLogEvents.emit(this, logEntry);
   }
 
   displayLog(): void {
@@ -125,6 +150,7 @@ export class RunningScript {
 
   clearLog(): void {
     this.logs.length = 0;
+    this.logLevels.length = 0;
   }
 
   // Update the moneyStolen and numTimesHack maps when hacking
@@ -171,7 +197,7 @@ export class RunningScript {
   }
 }
 const includedProperties = getKeyList(RunningScript, {
-  removedKeys: ["logs", "dependencies", "logUpd", "pid", "parent", "tailProps"],
+  removedKeys: ["logs", "logLevels", "dependencies", "logUpd", "pid", "parent", "tailProps"],
 });
 const includedPropsNoTitle = includedProperties.filter((x) => x !== "title");
 
@@ -6,6 +6,15 @@ import { roundToTwo } from "../utils/helpers/roundToTwo";
 import { RamCostConstants } from "../Netscript/RamCostGenerator";
 import { ScriptFilePath } from "../Paths/ScriptFilePath";
 import { ContentFile } from "../Paths/ContentFile";
+import { ContentFileDeleteEvents } from "../Server/ContentFileEvents";
+import { Settings } from "../Settings/Settings";
+
+/** A previous version of a script, kept when the script is overwritten */
+export interface ScriptRevision {
+  code: string;
+  /** When this version was overwritten, as returned by Date.now() */
+  timestamp: number;
+}
 
 /** A script file as a file on a server.
  * For the execution of a script, see RunningScript and WorkerScript */
@@ -30,11 +39,16 @@ export class Script implements ContentFile {
    */
   dependencies = new Map<ScriptURL, Script>();
 
+  /** Previous versions of the code, the most recent first. There are at most Settings.MaxScriptRevisions. */
+  revisions: ScriptRevision[] = [];
+
   get content() {
     return this.code;
   }
   set content(newCode: string) {
     if (this.code === newCode) return;
+    if (Settings.MaxScriptRevisions > 0) this.revisions.unshift({ code: this.code, timestamp: Date.now() });
+    this.revisions.splice(Settings.MaxScriptRevisions);
     this.code = newCode;
     this.invalidateModule();
   }
@@ -90,11 +104,12 @@ export class Script implements ContentFile {
     if (this.server !== server.hostname || server.isRunning(this.filename)) return false;
     this.invalidateModule();
     server.scripts.delete(this.filename);
+    ContentFileDeleteEvents.emit(server.hostname, this.filename);
     return true;
   }
 
   /** The keys that are relevant in a save file */
-  static savedKeys = ["code", "filename", "server"] as const;
+  static savedKeys = ["code", "filename", "server", "revisions"] as const;
 
   // Serialize the current object to a JSON save state
   toJSON(): IReviverValue {
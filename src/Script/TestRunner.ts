@@ -0,0 +1,215 @@
+/**
+ * Runs the tests of test files (e.g. lib/math.test.js) for the test terminal command.
+ *
+ * Test files export a function named tests, which defines the tests with describe and it. Modules are cached after
+ * they are compiled, so the tests can't be defined at the top level of the module like in other test frameworks.
+ * Tests don't run as a script: they get a mocked ns object instead, that is generated from the ram costs of the API.
+ */
+import type { Expectation, MockFunction, MockNS, TestContext } from "@nsdefs";
+import type { Script } from "./Script";
+import type { ScriptFilePath } from "../Paths/ScriptFilePath";
+
+import { isEqual } from "lodash";
+import { compile } from "../NetscriptJSEvaluator";
+import { RamCosts } from "../Netscript/RamCostGenerator";
+import { enums } from "../NetscriptFunctions";
+
+/** How long a test may take before it fails */
+const testTimeout = 5000;
+
+/** Thrown by failed assertions */
+export class TestAssertionError extends Error {}
+
+export interface TestResult {
+  /** Names of the enclosing describe blocks, followed by the name of the test */
+  name: string[];
+  /** Null if the test passed */
+  error: string | null;
+}
+
+export interface TestFileResult {
+  filename: ScriptFilePath;
+  results: TestResult[];
+  /** Set if the tests of the file could not be defined, e.g. because the file has a syntax error */
+  error?: string;
+}
+
+interface TestCase {
+  name: string[];
+  body: (ns: MockNS) => void | Promise<void>;
+}
+
+function errorToString(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "function") return `[Function${value.name ? " " + value.name : ""}]`;
+  if (value === undefined || typeof value === "bigint" || typeof value === "symbol") return String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (error) {
+    // Circular objects
+    return String(value);
+  }
+}
+
+const mockCalls = new WeakMap<object, unknown[][]>();
+
+export function createMockFunction<Args extends unknown[], Return>(
+  implementation?: (...args: Args) => Return,
+): MockFunction<Args, Return> {
+  const calls: Args[] = [];
+  let mockImplementation = implementation ?? (() => undefined as Return);
+  const mock = Object.assign(
+    (...args: Args): Return => {
+      calls.push(args);
+      return mockImplementation(...args);
+    },
+    {
+      calls,
+      mockReturnValue(value: Return) {
+        mockImplementation = () => value;
+        return mock;
+      },
+      mockImplementation(implementation: (...args: Args) => Return) {
+        mockImplementation = implementation;
+        return mock;
+      },
+    },
+  );
+  mockCalls.set(mock, calls);
+  return mock;
+}
+
+function createMockApi(ramCosts: object): Record<string, unknown> {
+  const api: Record<string, unknown> = {};
+  for (const [key, cost] of Object.entries(ramCosts)) {
+    // Namespaces are objects, functions have a number or a function as their ram cost
+    api[key] = typeof cost === "object" ? createMockApi(cost) : createMockFunction();
+  }
+  return api;
+}
+
+/** An ns object where every function is a mock function */
+export function createMockNs(): MockNS {
+  return { ...createMockApi(RamCosts), args: [], pid: 0, enums } as unknown as MockNS;
+}
+
+function createExpectation(actual: unknown, negated = false): Expectation {
+  function assert(passed: boolean, message: string): void {
+    if (passed === negated) throw new TestAssertionError((negated ? "Expected not: " : "Expected: ") + message);
+  }
+  function getCalls(): unknown[][] {
+    const calls = typeof actual === "function" ? mockCalls.get(actual) : undefined;
+    if (!calls) throw new TestAssertionError(`${formatValue(actual)} is not a mock function`);
+    return calls;
+  }
+  const received = () => `, received ${formatValue(actual)}`;
+
+  return {
+    get not() {
+      return createExpectation(actual, !negated);
+    },
+    toBe: (expected) => assert(Object.is(actual, expected), formatValue(expected) + received()),
+    toEqual: (expected) => assert(isEqual(actual, expected), formatValue(expected) + received()),
+    toBeTruthy: () => assert(!!actual, "a truthy value" + received()),
+    toBeFalsy: () => assert(!actual, "a falsy value" + received()),
+    toBeGreaterThan: (expected) => assert(Number(actual) > expected, `a number > ${expected}` + received()),
+    toBeLessThan: (expected) => assert(Number(actual) < expected, `a number < ${expected}` + received()),
+    toBeCloseTo: (expected, digits = 2) =>
+      assert(
+        Math.abs(expected - Number(actual)) < 10 ** -digits / 2,
+        `a number close to ${expected} (${digits} digits)` + received(),
+      ),
+    toContain: (item) => {
+      const contains =
+        typeof actual === "string"
+          ? actual.includes(String(item))
+          : Array.isArray(actual) && actual.some((value) => Object.is(value, item));
+      assert(contains, `${formatValue(actual)} to contain ${formatValue(item)}`);
+    },
+    toThrow: (message) => {
+      if (typeof actual !== "function") throw new TestAssertionError(`${formatValue(actual)} is not a function`);
+      let error: string | null = null;
+      try {
+        actual();
+      } catch (e) {
+        error = errorToString(e);
+      }
+      const description = message === undefined ? "function to throw" : `function to throw ${formatValue(message)}`;
+      assert(error !== null && (message === undefined || error.includes(message)), description);
+    },
+    toHaveBeenCalled: () => assert(getCalls().length > 0, "mock function to have been called"),
+    toHaveBeenCalledTimes: (times) => {
+      const calls = getCalls();
+      assert(calls.length === times, `mock function to have been called ${times} times, called ${calls.length} times`);
+    },
+    toHaveBeenCalledWith: (...args) => {
+      const calls = getCalls();
+      assert(
+        calls.some((call) => isEqual(call, args)),
+        `mock function to have been called with ${formatValue(args)}, calls: ${formatValue(calls)}`,
+      );
+    },
+  };
+}
+
+async function runTestCase(testCase: TestCase): Promise<string | null> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((__, reject) => {
+    timer = setTimeout(() => reject(new Error(`Test timed out after ${testTimeout}ms`)), testTimeout);
+  });
+  try {
+    await Promise.race([testCase.body(createMockNs()), timeout]);
+    return null;
+  } catch (error) {
+    return errorToString(error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Defines the tests with the tests function of a test file, and runs them one after another */
+export async function runTests(defineTests: (context: TestContext) => unknown): Promise<TestResult[]> {
+  const testCases: TestCase[] = [];
+  const describeStack: string[] = [];
+  let defining = true;
+  defineTests({
+    describe: (name, body) => {
+      if (!defining) throw new Error(`describe("${name}") must be called while the tests are defined`);
+      describeStack.push(name);
+      try {
+        if ((body() as unknown) instanceof Promise) throw new Error(`The body of describe("${name}") cannot be async`);
+      } finally {
+        describeStack.pop();
+      }
+    },
+    it: (name, body) => {
+      if (!defining) throw new Error(`it("${name}") cannot be called inside a test`);
+      testCases.push({ name: [...describeStack, name], body });
+    },
+    expect: (actual) => createExpectation(actual),
+    fn: createMockFunction,
+  });
+  defining = false;
+
+  const results: TestResult[] = [];
+  for (const testCase of testCases) {
+    results.push({ name: testCase.name, error: await runTestCase(testCase) });
+  }
+  return results;
+}
+
+/** Compiles a test file and runs its tests */
+export async function runTestFile(script: Script, scripts: Map<ScriptFilePath, Script>): Promise<TestFileResult> {
+  try {
+    const module = await compile(script, scripts);
+    if (typeof module.tests !== "function") {
+      return { filename: script.filename, results: [], error: "The file does not export a tests function." };
+    }
+    return { filename: script.filename, results: await runTests(module.tests) };
+  } catch (error) {
+    return { filename: script.filename, results: [], error: errorToString(error) };
+  }
+}
@@ -210,6 +210,38 @@ interface ReactElement {
   key: string | number | null;
 }
 
+/**
+ * Statistics about the calls of one ns function, recorded by the profiler.
+ * @public
+ */
+interface ProfileEntry {
+  /** Number of times the function was called */
+  calls: number;
+  /** Total time in milliseconds spent in the function. For async functions, this includes the time until the returned promise settled. */
+  time: number;
+  /** Number of calls that threw an error or returned a promise that was rejected */
+  errors: number;
+}
+
+/**
+ * Profile of the ns calls of a script, as returned by {@link NS.getProfile | getProfile}.
+ * @public
+ */
+interface ScriptProfile {
+  /** Timestamp (as returned by Date.now()) of when the profiling started */
+  startTime: number;
+  /** Time in milliseconds since the profiling started */
+  duration: number;
+  /** Statistics by function, e.g. "hack" or "corporation.getDivision" */
+  functions: Record<string, ProfileEntry>;
+}
+
+/**
+ * Level of a log entry, from the least to the most severe.
+ * @public
+ */
+type LogLevel = "debug" | "info" | "warn" | "error";
+
 /** @public */
 interface RunningScript {
   /** Arguments the script was called with */
@@ -1184,6 +1216,109 @@ export interface NetscriptPort {
    * RAM cost: 0 GB
    */
   clear(): void;
+
+  /**
+   * Check if the port's data is saved with the game.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * @returns true if the port is persistent, otherwise false
+   */
+  isPersistent(): boolean;
+
+  /**
+   * Set whether the port's data is saved with the game.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * Ports are not persistent by default, so their data is lost when the game is reloaded. A persistent port is
+   * saved with the game and restored when the save is loaded. It is not freed when it is emptied.
+   *
+   * Persistent ports can only hold strings, finite numbers, booleans, null, and arrays and plain objects of those
+   * values. Writing anything else (such as a Map, a Set, a Date or a class instance) throws an error, and so does
+   * making a port persistent while it holds such data.
+   *
+   * All ports are cleared when installing augmentations, whether they are persistent or not.
+   *
+   * @param persistent - Whether the port should be saved with the game.
+   */
+  setPersistent(persistent: boolean): void;
+}
+
+/**
+ * Options for opening a named channel.
+ * @public
+ */
+export interface ChannelOptions {
+  /** Maximum number of elements the channel can hold. Defaults to the "Netscript port size" game option. */
+  capacity?: number;
+  /**
+   * "global" channels are shared by every script. "host" channels are only shared by scripts running on the same
+   * server, so two servers can use the same channel name without colliding. Defaults to "global".
+   */
+  scope?: "global" | "host";
+}
+
+/** Object representing a named channel. A channel is a port identified by a name instead of a number.
+ * The type parameter is the type of the data that is written to the channel.
+ * @public */
+export interface NetscriptChannel<T = any> extends NetscriptPort {
+  /** Write data to the channel.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * @param value - Data to write, it's cloned with structuredClone().
+   * @returns The data popped off the queue if it was full.
+   */
+  write(value: T): T | null;
+
+  /**
+   * Attempt to write data to the channel.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * @param value - Data to write, it's cloned with structuredClone().
+   * @returns True if the data was added to the channel, false if the channel was full
+   */
+  tryWrite(value: T): boolean;
+
+  /**
+   * Shift an element out of the channel.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * This function will remove the first element from the channel and return it.
+   * If the channel is empty, then the string “NULL PORT DATA” will be returned.
+   * @returns the data read.
+   */
+  read(): T | "NULL PORT DATA";
+
+  /**
+   * Retrieve the first element from the channel without removing it.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * If the channel is empty, the string “NULL PORT DATA” will be returned.
+   * @returns the data read
+   */
+  peek(): T | "NULL PORT DATA";
+
+  /** Name of the channel. */
+  readonly name: string;
+  /** Hostname the channel is scoped to, or null for a global channel. */
+  readonly host: string | null;
+  /** Maximum number of elements the channel can hold. */
+  readonly capacity: number;
+
+  /**
+   * Close the channel, deleting all of its data.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * Scripts waiting on {@link NetscriptPort.nextWrite | nextWrite} are woken up. Using any handle to the channel
+   * after it was closed opens it again.
+   */
+  close(): void;
 }
 
 /**
@@ -3776,6 +3911,91 @@ export interface Bladeburner {
   inBladeburner(): boolean;
 }
 
+/**
+ * Function handling the calls made to a service with {@link Rpc.call | ns.rpc.call}.
+ * @remarks
+ * It is called with the arguments given to ns.rpc.call, and its return value (or the value its promise resolves to)
+ * is the response.
+ * @public
+ */
+export type RpcHandler = (...args: any[]) => any;
+
+/**
+ * Options for {@link Rpc.call | ns.rpc.call}.
+ * @public
+ */
+export interface RpcCallOptions {
+  /** Number of milliseconds to wait for a response before the call fails. By default, the call waits forever. */
+  timeout?: number;
+}
+
+/**
+ * Remote procedure call API. Lets scripts send requests to each other and wait for the response, without having to
+ * manage reply ports.
+ * @public
+ */
+export interface Rpc {
+  /**
+   * Start serving requests for a service.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * Calls made with {@link Rpc.call | ns.rpc.call} to this service name are handled by this script until it stops
+   * serving it, or until it dies. Serving a name this script already serves replaces its handler.
+   *
+   * The handler runs as part of this script, while the rest of the script is waiting. This script must keep running
+   * to serve requests, and it should wait with functions that do not block other ns functions, such as
+   * {@link NS.asleep | ns.asleep} or {@link NetscriptPort.nextWrite | port.nextWrite}. If the handler calls an ns
+   * function while the script is awaiting {@link NS.sleep | ns.sleep} or another ns function, the script is killed
+   * for making concurrent calls.
+   *
+   * @example
+   * ```js
+   * ns.rpc.serve("math/add", (a, b) => a + b);
+   * ns.rpc.serve("servers/money", (host) => ns.getServerMoneyAvailable(host));
+   * // Keep the script alive to serve requests
+   * while (true) await ns.asleep(60000);
+   * ```
+   * @param name - Name of the service. Must not be served by another script.
+   * @param handler - Function called for each request.
+   */
+  serve(name: string, handler: RpcHandler): void;
+
+  /**
+   * Stop serving requests for a service.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * Calls that are already being handled still get their response.
+   *
+   * @param name - Name of the service.
+   * @returns True if this script was serving the service, false otherwise.
+   */
+  unserve(name: string): boolean;
+
+  /**
+   * Send a request to a service and wait for its response.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * The arguments and the response are cloned with structuredClone(), so the scripts never share objects.
+   *
+   * The call fails with an error if no script serves the service, if the handler throws, if the serving script dies
+   * before responding, or if the timeout expires first.
+   *
+   * @example
+   * ```js
+   * const sum = await ns.rpc.call("math/add", [1, 2]); // 3
+   * const money = await ns.rpc.call("servers/money", ["n00dles"], { timeout: 1000 });
+   * ```
+   * @param name - Name of the service.
+   * @param args - Arguments for the handler. Defaults to no arguments.
+   * @param options - Options for the call.
+   * @returns A promise that resolves to the response of the handler.
+   */
+  call(name: string, args?: any[], options?: RpcCallOptions): Promise<any>;
+}
+
 /**
  * Coding Contract API
  * @public
@@ -5331,6 +5551,114 @@ interface BladeburnerFormulas {
   skillMaxUpgradeCount(name: string, level: number, skillPoints: number): number;
 }
 
+/**
+ * A change that a corporation simulation makes to the corporation, like the function of the Corporation API with the
+ * same name.
+ * @public
+ */
+type CorporationSimulationDecision = {
+  /** The number of simulated cycles after which the decision is made, 0 for the start of the simulation */
+  cycle: number;
+  divisionName: string;
+  city: CityName | `${CityName}`;
+} & (
+  | { type: "buyMaterial"; materialName: CorpMaterialName; amount: number }
+  | { type: "sellMaterial"; materialName: CorpMaterialName; amount: string; price: string }
+  | { type: "sellProduct"; productName: string; amount: string; price: string; all?: boolean }
+  | { type: "setSmartSupply"; enabled: boolean }
+  | { type: "setAutoJobAssignment"; job: CorpEmployeePosition; amount: number }
+);
+
+/**
+ * The projected state of a division at the end of a corporation simulation.
+ * @public
+ */
+interface CorporationSimulationDivision {
+  /** The amount of each material stored in the warehouse of each city */
+  materials: Partial<Record<CityName, Record<CorpMaterialName, number>>>;
+  /** The products of the division, by product name */
+  products: Record<
+    string,
+    {
+      /** A number between 0-100 representing percentage completion */
+      developmentProgress: number;
+      /** Rating based on stats */
+      rating: number;
+      /** Effective rating in each city with a warehouse */
+      effectiveRating: Partial<Record<CityName, number>>;
+      /** Amount of product stored in the warehouse of each city */
+      stored: Partial<Record<CityName, number>>;
+    }
+  >;
+}
+
+/**
+ * The result of a corporation simulation.
+ * @public
+ */
+interface CorporationSimulationResult {
+  /**
+   * The state of the corporation at the end of the simulation. It can be passed to another simulation, to continue
+   * this one.
+   */
+  snapshot: string;
+  /** The finances of each simulated cycle, like the entries of {@link Corporation.getHistory | getHistory} */
+  cycles: Omit<CorporationHistoryEntry, "timestamp">[];
+  /** Funds at the end of the simulation */
+  funds: number;
+  /** The projected state of each division, by division name */
+  divisions: Record<string, CorporationSimulationDivision>;
+  /**
+   * The errors that your corporation would show during the simulation, e.g. a sell amount or export expression that
+   * can't be evaluated. Each error is only included once.
+   */
+  warnings: string[];
+}
+
+/**
+ * Corporation formulas
+ * @public
+ */
+interface CorporationFormulas {
+  /**
+   * Get a snapshot of your corporation, to simulate it with {@link CorporationFormulas.simulate | simulate}.
+   * @returns The state of your corporation.
+   */
+  getSnapshot(): string;
+  /**
+   * Simulate a corporation for a number of cycles, without changing your corporation.
+   *
+   * @remarks
+   * The simulation processes the same states as your corporation, e.g. the production and sale of materials and
+   * products, the development of products, and the salaries and morale of employees. The random changes of the market
+   * and of the employees are the same in every simulation of the same snapshot, so that a simulation with different
+   * decisions only differs by the effects of the decisions.
+   *
+   * A cycle ends with the START state, in which its revenue and expenses are added to the funds. If the snapshot was
+   * taken in the middle of a cycle, the first simulated cycle only includes the rest of it.
+   *
+   * The simulation blocks the game while it runs, so it is limited to 1000 cycles. To simulate longer, pass the
+   * snapshot of the result to another simulation.
+   *
+   * @example
+   * ```js
+   * const snapshot = ns.formulas.corporation.getSnapshot();
+   * for (const price of ["MP", "MP*1.5", "MP*2"]) {
+   *   const decision = { cycle: 0, type: "sellMaterial", divisionName: "Farm", city: "Sector-12" };
+   *   const result = ns.formulas.corporation.simulate(snapshot, 10, [
+   *     { ...decision, materialName: "Food", amount: "MAX", price },
+   *   ]);
+   *   ns.tprint(`${price}: ${ns.formatNumber(result.funds)}`);
+   * }
+   * ```
+   * @param snapshot - A snapshot from {@link CorporationFormulas.getSnapshot | getSnapshot}, or of a previous simulation.
+   * @param cycles - The number of cycles to simulate, at most 1000.
+   * @param decisions - Changes to make to the corporation during the simulation.
+   * @returns The projected funds, inventory and products of the corporation.
+   */
+  simulate(snapshot: string, cycles: number, decisions?: CorporationSimulationDecision[]): CorporationSimulationResult;
+}
+
 /**
  * Formulas API
  * @remarks
@@ -5357,6 +5685,8 @@ export interface Formulas {
   work: WorkFormulas;
   /** Bladeburner formulas */
   bladeburner: BladeburnerFormulas;
+  /** Corporation formulas */
+  corporation: CorporationFormulas;
 }
 
 /** @public */
@@ -5726,6 +6056,12 @@ export interface NS {
    */
   readonly grafting: Grafting;
 
+  /**
+   * Namespace for remote procedure call functions.
+   * @remarks RAM cost: 0 GB
+   */
+  readonly rpc: Rpc;
+
   /**
    * Arguments passed into the script.
    *
@@ -6117,6 +6453,42 @@ export interface NS {
    */
   printf(format: string, ...args: any[]): void;
 
+  /**
+   * Writes an entry with a log level to the script’s logs.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * The entry is written as the level in capitals, followed by the message and the fields as key=value pairs, e.g.
+   * `WARN Not enough RAM host=n00dles threads=4`. Warnings and errors are colored like the entries of
+   * {@link NS.print | print}. The level can be used to filter the entries in the tail window.
+   *
+   * Entries below the level set with {@link NS.setLogLevel | setLogLevel} are dropped.
+   *
+   * @example
+   * ```js
+   * ns.log("debug", "Calculated threads", { hack: 12, grow: 40, weaken: 4 });
+   * ns.log("error", "Batch failed", { target: "n00dles" });
+   * ```
+   *
+   * @param level - Level of the entry: "debug", "info", "warn" or "error".
+   * @param message - Message of the entry.
+   * @param fields - Optional. Structured data appended to the entry as key=value pairs.
+   */
+  log(level: LogLevel, message: string, fields?: Record<string, unknown>): void;
+
+  /**
+   * Sets the minimum level of the entries written to the script’s logs.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * Entries of {@link NS.log | log} below this level are dropped. The entries that ns functions write to the logs
+   * have the debug level, so setting the level to "info" or above silences them like {@link NS.disableLog | disableLog}("ALL").
+   * Defaults to "debug", where all entries are logged.
+   *
+   * @param level - Minimum level: "debug", "info", "warn" or "error".
+   */
+  setLogLevel(level: LogLevel): void;
+
   /**
    * Prints one or more values or variables to the Terminal.
    * @remarks
@@ -7024,6 +7396,27 @@ export interface NS {
    */
   getRunningScript(filename?: FilenameOrPID, hostname?: string, ...args: ScriptArg[]): RunningScript | null;
 
+  /**
+   * Get the profile of the ns calls of a running script.
+   * @remarks
+   * RAM cost: 0.3 GB
+   *
+   * The profiler is opt-in: it records the ns calls of scripts that were started while the "Profile scripts" option is
+   * enabled, or of scripts for which profiling was started in Active Scripts. For each ns function, the profile contains
+   * the number of calls, the total time spent in the function and the number of calls that threw an error.
+   *
+   * @example
+   * ```js
+   * const profile = ns.getProfile();
+   * for (const [name, entry] of Object.entries(profile?.functions ?? {})) {
+   *   ns.tprint(`${name}: ${entry.calls} calls, ${ns.formatNumber(entry.time / entry.calls)} ms per call`);
+   * }
+   * ```
+   * @param pid - Optional. PID of the script. Defaults to the current script.
+   * @returns The profile of the script, or null if the script is not running or is not being profiled.
+   */
+  getProfile(pid?: number): ScriptProfile | null;
+
   /**
    * Change the current static RAM allocation of the script.
    * @remarks
@@ -7178,7 +7571,7 @@ export interface NS {
    * @remarks
    * RAM cost: 0 GB
    *
-   * This function can be used to write data to a text file (.txt, .json) or a script (.js, .jsx, .ts, .tsx, .script).
+   * This function can be used to write data to a text file (.txt, .json, .sh) or a script (.js, .jsx, .ts, .tsx, .script).
    *
    * This function will write data to that file. If the specified file does not exist,
    * then it will be created. The third argument mode defines how the data will be written to
@@ -7224,7 +7617,7 @@ export interface NS {
    * @remarks
    * RAM cost: 0 GB
    *
-   * This function is used to read data from a text file (.txt, .json) or script (.js, .jsx, .ts, .tsx, .script).
+   * This function is used to read data from a text file (.txt, .json, .sh) or script (.js, .jsx, .ts, .tsx, .script).
    *
    * This function will return the data in the specified file.
    * If the file does not exist, an empty string will be returned.
@@ -7314,6 +7707,30 @@ export interface NS {
    */
   getPortHandle(portNumber: number): NetscriptPort;
 
+  /**
+   * Get a handle to a named channel.
+   * @remarks
+   * RAM cost: 0 GB
+   *
+   * A channel works like a port, but it is identified by a name (e.g. "batcher/control") instead of a number, so
+   * unrelated scripts can pick names that don't collide. The channel is created if it doesn't exist yet. Unlike
+   * ports, a channel keeps its data and capacity when it is emptied, until it is closed.
+   *
+   * All scripts waiting on {@link NetscriptPort.nextWrite | nextWrite} are woken up by the next write.
+   *
+   * @example
+   * ```js
+   * const control = ns.getChannel<{ target: string }>("batcher/control", { capacity: 10 });
+   * while (control.empty()) await control.nextWrite();
+   * const command = control.read();
+   * ```
+   * @typeParam T - Type of the data that is written to the channel. It isn't checked when the data is written.
+   * @param name - Name of the channel. Must be a non-empty string.
+   * @param options - Capacity and scope of the channel. If the channel already exists, the capacity must match.
+   * @returns A handle to the channel.
+   */
+  getChannel<T = any>(name: string, options?: ChannelOptions): NetscriptChannel<T>;
+
   /**
    * Delete a file.
    * @remarks
@@ -7689,7 +8106,7 @@ export interface NS {
    * RAM cost: 0 GB
    *
    * Retrieves data from a URL and downloads it to a file on the specified server.
-   * The data can only be downloaded to a script (.js, .jsx, .ts, .tsx, .script) or a text file (.txt, .json).
+   * The data can only be downloaded to a script (.js, .jsx, .ts, .tsx, .script) or a text file (.txt, .json, .sh).
    * If the file already exists, it will be overwritten by this command.
    * Note that it will not be possible to download data from many websites because they
    * do not allow cross-origin resource sharing (CORS).
@@ -7866,7 +8283,7 @@ export interface NS {
    * // {"_":[],"delay":0,"server":"foodnstuff","exclude":[],"help":false,"v":true}
    * ```
    */
-  flags(schema: [string, string | number | boolean | string[]][]): { [key: string]: ScriptArg | string[] };
+  flags(schema: FlagSchema): { [key: string]: ScriptArg | string[] };
 
   /**
    * Share the server's ram with your factions.
@@ -8799,13 +9216,13 @@ export interface Corporation extends WarehouseAPI, OfficeAPI {
   getConstants(): CorpConstants;
 
   /**
-   * Get constant data of an industry.
+   * Get constant data of an industry, and the competition in its market for products.
    *
    * @remarks
    * RAM cost: 10 GB
    *
    * @param industryName - Name of the industry
-   * @returns Industry data
+   * @returns Industry data, with the competitors in the industry and the market share of your corporation
    */
   getIndustryData(industryName: CorpIndustryName): CorpIndustryData;
 
@@ -8863,6 +9280,25 @@ export interface Corporation extends WarehouseAPI, OfficeAPI {
    */
   getCorporation(): CorporationInfo;
 
+  /**
+   * Get the financial history of the corporation.
+   *
+   * @remarks
+   * RAM cost: 10 GB
+   *
+   * A record is added at the start of each cycle, for the cycle that just ended. Only the last
+   * {@link CorpConstants.historyLength | historyLength} cycles are kept.
+   *
+   * @example
+   * ```js
+   * const history = ns.corporation.getHistory();
+   * const profits = history.map((cycle) => cycle.revenue - cycle.expenses);
+   * ns.tprint(`Average profit: ${ns.formatNumber(profits.reduce((a, b) => a + b, 0) / profits.length)}/s`);
+   * ```
+   * @returns The records of the last cycles, the oldest first.
+   */
+  getHistory(): CorporationHistoryEntry[];
+
   /**
    * Get division data.
    *
@@ -9052,6 +9488,36 @@ interface CorpIndustryData {
   makesMaterials: boolean;
   /** Whether the industry of this division is capable of developing and producing products */
   makesProducts: boolean;
+  /**
+   * The competitors in the market for the products of this industry. Only returned by
+   * {@link Corporation.getIndustryData | getIndustryData}.
+   */
+  competitors?: CorpCompetitor[];
+  /**
+   * The share of your corporation of the market for the products of this industry during the last cycle, from 0 to 1.
+   * Your products sell more when your share is larger than the share of each competitor, and less when it is smaller,
+   * from half as much to twice as much. Only returned by {@link Corporation.getIndustryData | getIndustryData}.
+   */
+  marketShare?: number;
+}
+
+/**
+ * A competitor of your corporation in the market for the products of an industry.
+ * Competitors launch products, which increase the competition of your products, and lower their prices when your
+ * products undercut them, which takes market share and so sales from your products.
+ * @public
+ */
+interface CorpCompetitor {
+  /** Name of the competitor */
+  name: string;
+  /** Number of products of the competitor on the market */
+  products: number;
+  /** Average rating of the products of the competitor */
+  rating: number;
+  /** Price of the products of the competitor, relative to the market price of products */
+  priceMult: number;
+  /** Share of the competitor of the market during the last cycle, from 0 to 1 */
+  marketShare: number;
 }
 
 /**
@@ -9105,6 +9571,32 @@ interface CorporationInfo {
   divisions: string[];
 }
 
+/**
+ * The finances of a corporation during one cycle.
+ * @public
+ */
+interface CorporationHistoryEntry {
+  /** When the cycle ended, as returned by Date.now() */
+  timestamp: number;
+  /** Funds at the end of the cycle */
+  funds: number;
+  /** Revenue per second during the cycle */
+  revenue: number;
+  /** Expenses per second during the cycle */
+  expenses: number;
+  /** Valuation of the corporation at the end of the cycle */
+  valuation: number;
+  /** Price of the shares at the end of the cycle */
+  sharePrice: number;
+  /**
+   * The funds gained (positive) or spent (negative) during the cycle, by what they were gained or spent on.
+   * E.g. "operating revenue", "operating expenses", "dividends", "office", "warehouse" or "upgrades".
+   */
+  fundsBySource: Record<string, number>;
+  /** Revenue and expenses per second during the cycle, by division name */
+  divisions: Record<string, { revenue: number; expenses: number }>;
+}
+
 /**
  * Corporation related constants
  * @public
@@ -9158,6 +9650,8 @@ interface CorpConstants {
   /** The minimum decay value for morale/energy */
   minEmployeeDecay: number;
   smartSupplyOptions: CorpSmartSupplyOption[];
+  /** Number of cycles that are kept in the financial history of the corporation */
+  historyLength: number;
 }
 /** @public */
 type CorpStateName = "START" | "PURCHASE" | "PRODUCTION" | "EXPORT" | "SALE";
@@ -9526,7 +10020,7 @@ interface AutocompleteData {
   /** Netscript Enums */
   enums: NSEnums;
   /** Parses the flags schema on the already inputted flags */
-  flags(schema: [string, string | number | boolean | string[]][]): { [key: string]: ScriptArg | string[] };
+  flags(schema: FlagSchema): { [key: string]: ScriptArg | string[] };
   /** The hostname of the server the script would be running on */
   hostname: string;
   /** The filename of the script about to be run */
@@ -9535,6 +10029,144 @@ interface AutocompleteData {
   processes: ProcessInfo[];
 }
 
+/**
+ * A flag of a {@link FlagSchema}: its name and default value, optionally followed by a description and the values
+ * that are allowed for the flag.
+ * @public
+ */
+type FlagSchemaEntry = [
+  name: string,
+  defaultValue: string | number | boolean | string[],
+  description?: string,
+  choices?: string[],
+];
+
+/**
+ * Schema of command line flags, as parsed by {@link NS.flags | ns.flags}.
+ *
+ * @remarks
+ * A script can export its schema as `flagSchema`. The terminal reads it before running the script, so
+ * `run script.js --help` prints the usage of the script instead of running it, flags that are not in the schema or
+ * values that are not allowed are rejected before the script is started, and flag names and allowed values are
+ * suggested by tab completion.
+ *
+ * The exported schema must be written as a literal array of literal values, because it is read without running the
+ * script.
+ *
+ * @example
+ * ```js
+ * export const flagSchema = [
+ *   ["target", "n00dles", "Server to hack"],
+ *   ["action", "hack", "What to do to the target", ["hack", "grow", "weaken"]],
+ *   ["loop", false, "Keep going until the script is killed"],
+ * ];
+ *
+ * export async function main(ns) {
+ *   const flags = ns.flags(flagSchema);
+ *   ns.tprint(flags.target);
+ * }
+ *
+ * // [home /]> run example.js --help
+ * // Usage: run example.js [flags...] [args...]
+ * //   --target <string>              Server to hack (default: n00dles)
+ * //   --action <hack|grow|weaken>    What to do to the target (default: hack)
+ * //   --loop                         Keep going until the script is killed
+ * ```
+ * @public
+ */
+type FlagSchema = FlagSchemaEntry[];
+
+/**
+ * A function of the mocked ns object that is passed to tests, or created with {@link TestContext.fn | fn}. It records
+ * its calls and returns undefined, unless a return value or an implementation is set.
+ * @public
+ */
+interface MockFunction<Args extends any[] = any[], Return = any> {
+  (...args: Args): Return;
+  /** The arguments of all calls so far, in order */
+  readonly calls: Args[];
+  /** Makes all later calls return the value */
+  mockReturnValue(value: Return): this;
+  /** Makes all later calls call the implementation and return its result */
+  mockImplementation(implementation: (...args: Args) => Return): this;
+}
+
+/**
+ * The ns object that is passed to tests. Every function is a {@link MockFunction}, ns.args is empty and ns.pid is 0.
+ * @public
+ */
+type MockNS<T = NS> = {
+  [K in keyof T]: T[K] extends (...args: infer Args) => infer Return
+    ? MockFunction<Args, Return>
+    : T[K] extends object
+    ? MockNS<T[K]>
+    : T[K];
+};
+
+/**
+ * Assertions about a value, created with {@link TestContext.expect | expect}. A failed assertion fails the test.
+ * @public
+ */
+interface Expectation {
+  /** The same assertions, negated */
+  readonly not: Expectation;
+  /** The value is the expected value, compared with Object.is */
+  toBe(expected: unknown): void;
+  /** The value is deeply equal to the expected value */
+  toEqual(expected: unknown): void;
+  toBeTruthy(): void;
+  toBeFalsy(): void;
+  toBeGreaterThan(expected: number): void;
+  toBeLessThan(expected: number): void;
+  /** The number is equal to the expected number, rounded to the given number of decimal digits (2 by default) */
+  toBeCloseTo(expected: number, digits?: number): void;
+  /** The array contains the item, or the string contains the substring */
+  toContain(item: unknown): void;
+  /** The value is a function that throws when called. If a message is given, the error must contain it. */
+  toThrow(message?: string): void;
+  /** The value is a {@link MockFunction} that was called */
+  toHaveBeenCalled(): void;
+  /** The value is a {@link MockFunction} that was called exactly this many times */
+  toHaveBeenCalledTimes(times: number): void;
+  /** The value is a {@link MockFunction} that was called with arguments deeply equal to these */
+  toHaveBeenCalledWith(...args: unknown[]): void;
+}
+
+/**
+ * The functions that the `tests` function of a test file is called with. Test files are scripts whose names end with
+ * .test.js (or .test.jsx, .test.ts, .test.tsx). They are run with the `test` terminal command.
+ *
+ * @example
+ * ```js
+ * // lib/money.test.js
+ * import { richestServer } from "lib/money.js";
+ *
+ * export function tests({ describe, it, expect }) {
+ *   describe("richestServer", () => {
+ *     it("picks the server with the most money", (ns) => {
+ *       ns.getServerMoneyAvailable.mockImplementation((host) => (host === "joesguns" ? 1e6 : 1e3));
+ *       expect(richestServer(ns, ["n00dles", "joesguns"])).toBe("joesguns");
+ *       expect(ns.getServerMoneyAvailable).toHaveBeenCalledTimes(2);
+ *     });
+ *   });
+ * }
+ * ```
+ * @public
+ */
+interface TestContext {
+  /** Groups tests under a name. Groups can be nested. */
+  describe(name: string, body: () => void): void;
+  /**
+   * Defines a test. Each test is called with a new mocked ns object. It fails if it throws, or if it returns a promise
+   * that rejects or doesn't settle within 5 seconds.
+   */
+  it(name: string, body: (ns: MockNS) => void | Promise<void>): void;
+  /** Creates assertions about a value */
+  expect(actual: unknown): Expectation;
+  /** Creates a mock function, e.g. to pass as a callback */
+  fn<Args extends any[] = any[], Return = any>(implementation?: (...args: Args) => Return): MockFunction<Args, Return>;
+}
+
 /**
  * Player must have at least this much money.
  * @public
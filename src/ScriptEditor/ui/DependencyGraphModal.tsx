@@ -0,0 +1,127 @@
+import React from "react";
+
+import Box from "@mui/material/Box";
+import Link from "@mui/material/Link";
+import Tooltip from "@mui/material/Tooltip";
+import Typography from "@mui/material/Typography";
+
+import type { ScriptFilePath } from "../../Paths/ScriptFilePath";
+import type { DependencyGraph } from "../../Script/DependencyGraph";
+import { Modal } from "../../ui/React/Modal";
+import { Settings } from "../../Settings/Settings";
+import { formatRam } from "../../ui/formatNumber";
+
+interface ModuleRow {
+  filename: ScriptFilePath;
+  depth: number;
+  /** Whether the module is already shown higher up in the tree. Its imports are not shown again. */
+  repeated: boolean;
+}
+
+/** The rows of the import tree, depth-first */
+function getModuleRows(graph: DependencyGraph): ModuleRow[] {
+  const rows: ModuleRow[] = [];
+  const shown = new Set<ScriptFilePath>();
+  function addRow(filename: ScriptFilePath, depth: number): void {
+    const repeated = shown.has(filename);
+    rows.push({ filename, depth, repeated });
+    shown.add(filename);
+    if (repeated) return;
+    for (const imported of graph.modules.get(filename)?.imports ?? []) addRow(imported, depth + 1);
+  }
+  addRow(graph.root, 0);
+  return rows;
+}
+
+interface ModuleRowProps {
+  graph: DependencyGraph;
+  row: ModuleRow;
+  maxRam: number;
+  onOpenModule: (filename: ScriptFilePath) => void;
+}
+
+function ModuleRowView({ graph, row, maxRam, onOpenModule }: ModuleRowProps): React.ReactElement | null {
+  const { filename, depth, repeated } = row;
+  const node = graph.modules.get(filename);
+  if (!node) return null;
+  const entries = [...node.entries].sort((a, b) => b.cost - a.cost);
+  const color = node.inCycle ? Settings.theme.warning : Settings.theme.primary;
+
+  return (
+    <>
+      <Box display="flex" alignItems="center" sx={{ pl: depth * 2 }}>
+        <Tooltip
+          title={
+            entries.length === 0 ? (
+              "No RAM cost"
+            ) : (
+              <>
+                {entries.map((entry) => (
+                  <Typography key={entry.type + entry.name} variant="body2">
+                    {entry.name}: {formatRam(entry.cost)}
+                  </Typography>
+                ))}
+              </>
+            )
+          }
+        >
+          <Link component="button" onClick={() => onOpenModule(filename)} sx={{ color, textAlign: "left" }}>
+            {filename}
+          </Link>
+        </Tooltip>
+        {node.inCycle && <Typography sx={{ color, ml: 1 }}>[cycle]</Typography>}
+        {repeated && <Typography sx={{ color: Settings.theme.secondary, ml: 1 }}>(see above)</Typography>}
+        <Box sx={{ flexGrow: 1, minWidth: "16px" }} />
+        <Box sx={{ width: "120px", height: "8px", mx: 1, border: `1px solid ${Settings.theme.secondary}` }}>
+          <Box sx={{ width: `${(node.ram / maxRam) * 100}%`, height: "100%", backgroundColor: color }} />
+        </Box>
+        <Typography sx={{ minWidth: "80px", textAlign: "right" }}>{formatRam(node.ram)}</Typography>
+      </Box>
+      {node.error && !repeated && (
+        <Typography color="error" sx={{ pl: depth * 2 + 2 }}>
+          {node.error}
+        </Typography>
+      )}
+    </>
+  );
+}
+
+interface IProps {
+  open: boolean;
+  onClose: () => void;
+  /** The import graph of the script of the current tab */
+  graph: DependencyGraph | null;
+  onOpenModule: (filename: ScriptFilePath) => void;
+}
+
+/** Shows the modules that the script of the current tab imports, and the RAM that each of them adds */
+export function DependencyGraphModal({ open, onClose, graph, onOpenModule }: IProps): React.ReactElement {
+  const maxRam = graph ? Math.max(...[...graph.modules.values()].map((module) => module.ram), 1) : 1;
+  return (
+    <Modal open={open} onClose={onClose}>
+      {graph && (
+        <Box sx={{ minWidth: "600px" }}>
+          <Typography variant="h6">Imports of {graph.root}</Typography>
+          {graph.ram.cost !== undefined ? (
+            <Typography>
+              Total RAM: {formatRam(graph.ram.cost)}. The RAM of a module is the cost of the functions used in its code.
+              Hover over a module to see them, click it to open it.
+            </Typography>
+          ) : (
+            <Typography color="error">Cannot calculate the RAM usage: {graph.ram.errorMessage}</Typography>
+          )}
+          <Box sx={{ my: 1 }}>
+            {getModuleRows(graph).map((row, index) => (
+              <ModuleRowView key={index} graph={graph} row={row} maxRam={maxRam} onOpenModule={onOpenModule} />
+            ))}
+          </Box>
+          {graph.cycles.map((cycle) => (
+            <Typography key={cycle.join()} sx={{ color: Settings.theme.warning }}>
+              Import cycle: {[...cycle, cycle[0]].join(" -> ")}
+            </Typography>
+          ))}
+        </Box>
+      )}
+    </Modal>
+  );
+}
@@ -1,10 +1,16 @@
 import React from "react";
 
+import Button from "@mui/material/Button";
 import Typography from "@mui/material/Typography";
 
 import { Settings } from "../../Settings/Settings";
 
-export function NoOpenScripts() {
+interface IProps {
+  /** Opens the search of files on the servers */
+  onSearch: () => void;
+}
+
+export function NoOpenScripts({ onSearch }: IProps) {
   return (
     <div
       style={{
@@ -22,6 +28,9 @@ export function NoOpenScripts() {
           <br />
           the terminal to open files
         </Typography>
+        <Button onClick={onSearch} sx={{ mt: 1 }}>
+          Search files (Ctrl/Cmd + Shift + f)
+        </Button>
       </span>
     </div>
   );
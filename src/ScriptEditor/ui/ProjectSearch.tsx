@@ -0,0 +1,254 @@
+import React, { useState } from "react";
+
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import Collapse from "@mui/material/Collapse";
+import IconButton from "@mui/material/IconButton";
+import List from "@mui/material/List";
+import ListItemButton from "@mui/material/ListItemButton";
+import MenuItem from "@mui/material/MenuItem";
+import Paper from "@mui/material/Paper";
+import Select from "@mui/material/Select";
+import TextField from "@mui/material/TextField";
+import Typography from "@mui/material/Typography";
+import CloseIcon from "@mui/icons-material/Close";
+import ExpandLess from "@mui/icons-material/ExpandLess";
+import ExpandMore from "@mui/icons-material/ExpandMore";
+import FindReplaceIcon from "@mui/icons-material/FindReplace";
+import { makeStyles } from "tss-react/mui";
+
+import { GetAllServers } from "../../Server/AllServers";
+import {
+  type FileSearchResult,
+  type OpenFileContent,
+  type SearchMatch,
+  type SearchQuery,
+  maxSearchMatches,
+  searchFiles,
+} from "./fileSearch";
+
+const useStyles = makeStyles()({
+  panel: {
+    display: "flex",
+    flexDirection: "column",
+    width: "360px",
+    flex: "0 0 360px",
+    marginLeft: "5px",
+    overflow: "hidden",
+  },
+  results: {
+    flex: "1 1 auto",
+    overflowY: "auto",
+  },
+  match: {
+    whiteSpace: "pre",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+});
+
+/** Value of the scope select for searching all servers */
+const allServers = "";
+
+interface IProps {
+  /** The server that is searched by default */
+  hostname: string;
+  openFileContent: OpenFileContent;
+  onOpenMatch: (result: FileSearchResult, match: SearchMatch) => void;
+  /** Replaces the matches in the given files */
+  onReplace: (results: FileSearchResult[], query: SearchQuery, replacement: string) => void;
+  onClose: () => void;
+}
+
+function MatchPreview({ match }: { match: SearchMatch }): React.ReactElement {
+  // Trim the indentation, and the start of long lines so that the match is visible
+  const indentation = Math.max(match.lineText.search(/\S/), 0);
+  const truncated = match.column - 1 - 30 > indentation;
+  const start = truncated ? match.column - 1 - 30 : Math.min(indentation, match.column - 1);
+  const before = match.lineText.substring(start, match.column - 1);
+  const text = match.lineText.substring(match.column - 1, match.column - 1 + match.length);
+  const after = match.lineText.substring(match.column - 1 + match.length);
+  return (
+    <>
+      {truncated ? "…" : ""}
+      {before}
+      <b>{text}</b>
+      {after}
+    </>
+  );
+}
+
+/** Panel of the script editor that searches and replaces in the files of a server or of all servers */
+export function ProjectSearch(props: IProps): React.ReactElement {
+  const { classes } = useStyles();
+  const [pattern, setPattern] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [isRegex, setIsRegex] = useState(false);
+  const [matchCase, setMatchCase] = useState(false);
+  const [scope, setScope] = useState(props.hostname);
+  const [results, setResults] = useState<FileSearchResult[] | null>(null);
+  const [error, setError] = useState("");
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  const query: SearchQuery = { pattern, isRegex, matchCase };
+  const matchCount = results?.reduce((count, result) => count + result.matches.length, 0) ?? 0;
+
+  function search(): void {
+    if (!pattern) {
+      setResults(null);
+      return;
+    }
+    try {
+      setResults(searchFiles(query, scope === allServers ? null : scope, props.openFileContent));
+      setError("");
+    } catch (e) {
+      setResults(null);
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  function replace(files: FileSearchResult[]): void {
+    props.onReplace(files, query, replacement);
+    search();
+  }
+
+  function onKeyDown(event: React.KeyboardEvent): void {
+    if (event.key === "Enter") search();
+    if (event.key === "Escape") props.onClose();
+  }
+
+  function toggleFile(key: string): void {
+    setCollapsed(collapsed.includes(key) ? collapsed.filter((k) => k !== key) : [...collapsed, key]);
+  }
+
+  const hostnames = GetAllServers()
+    .map((server) => server.hostname)
+    .sort((a, b) => a.localeCompare(b));
+
+  return (
+    <Paper className={classes.panel}>
+      <Box display="flex" alignItems="center" sx={{ p: 1, pb: 0 }}>
+        <Typography sx={{ flexGrow: 1 }}>Search files</Typography>
+        <IconButton size="small" title="Close (Escape)" onClick={props.onClose}>
+          <CloseIcon fontSize="small" />
+        </IconButton>
+      </Box>
+      <Box display="flex" flexDirection="column" gap={1} sx={{ p: 1 }}>
+        <Box display="flex" alignItems="center">
+          <TextField
+            autoFocus
+            fullWidth
+            size="small"
+            placeholder="Search (Enter)"
+            value={pattern}
+            onChange={(event) => setPattern(event.target.value)}
+            onKeyDown={onKeyDown}
+          />
+          <Button
+            size="small"
+            sx={{ minWidth: 0, ml: 1 }}
+            title="Match case"
+            color={matchCase ? "primary" : "secondary"}
+            onClick={() => setMatchCase(!matchCase)}
+          >
+            Aa
+          </Button>
+          <Button
+            size="small"
+            sx={{ minWidth: 0 }}
+            title="Use regular expression"
+            color={isRegex ? "primary" : "secondary"}
+            onClick={() => setIsRegex(!isRegex)}
+          >
+            .*
+          </Button>
+        </Box>
+        <Box display="flex" alignItems="center">
+          <TextField
+            fullWidth
+            size="small"
+            placeholder={isRegex ? "Replace ($1 for groups)" : "Replace"}
+            value={replacement}
+            onChange={(event) => setReplacement(event.target.value)}
+            onKeyDown={onKeyDown}
+          />
+          <IconButton
+            title="Replace all"
+            disabled={!results || results.length === 0}
+            onClick={() => results && replace(results)}
+          >
+            <FindReplaceIcon />
+          </IconButton>
+        </Box>
+        <Box display="flex" alignItems="center">
+          <Select
+            size="small"
+            sx={{ flexGrow: 1 }}
+            value={scope}
+            onChange={(event) => setScope(event.target.value)}
+            displayEmpty
+          >
+            <MenuItem value={allServers}>All servers</MenuItem>
+            {hostnames.map((hostname) => (
+              <MenuItem key={hostname} value={hostname}>
+                {hostname}
+              </MenuItem>
+            ))}
+          </Select>
+          <Button sx={{ ml: 1 }} onClick={search}>
+            Search
+          </Button>
+        </Box>
+        {error && <Typography color="error">{error}</Typography>}
+        {results && (
+          <Typography>
+            {matchCount >= maxSearchMatches
+              ? `More than ${maxSearchMatches} matches, only the first ones are shown.`
+              : `${matchCount} match${matchCount === 1 ? "" : "es"} in ${results.length} file${
+                  results.length === 1 ? "" : "s"
+                }`}
+          </Typography>
+        )}
+      </Box>
+      <List dense disablePadding className={classes.results}>
+        {results?.map((result) => {
+          const key = `${result.hostname}:${result.path}`;
+          const open = !collapsed.includes(key);
+          return (
+            <React.Fragment key={key}>
+              <ListItemButton onClick={() => toggleFile(key)} sx={{ pr: 0 }}>
+                {open ? <ExpandLess color="primary" /> : <ExpandMore color="primary" />}
+                <Typography sx={{ flexGrow: 1, wordBreak: "break-all" }}>
+                  {scope === allServers ? key : result.path} ({result.matches.length})
+                </Typography>
+                <IconButton
+                  size="small"
+                  title="Replace in this file"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    replace([result]);
+                  }}
+                >
+                  <FindReplaceIcon fontSize="small" />
+                </IconButton>
+              </ListItemButton>
+              <Collapse in={open} timeout={0} unmountOnExit>
+                {result.matches.map((match) => (
+                  <ListItemButton
+                    key={`${match.lineNumber}:${match.column}`}
+                    sx={{ pl: 5 }}
+                    onClick={() => props.onOpenMatch(result, match)}
+                  >
+                    <Typography className={classes.match} title={match.lineText.trim()}>
+                      {match.lineNumber}: <MatchPreview match={match} />
+                    </Typography>
+                  </ListItemButton>
+                ))}
+              </Collapse>
+            </React.Fragment>
+          );
+        })}
+      </List>
+    </Paper>
+  );
+}
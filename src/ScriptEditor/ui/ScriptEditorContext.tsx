@@ -1,7 +1,7 @@
 import React, { useContext, useState } from "react";
 
 import { RamCalculationErrorCode } from "../../Script/RamCalculationErrorCodes";
-import { calculateRamUsage, type RamCalculationFailure } from "../../Script/RamCalculations";
+import { calculateRamUsage, type RamCalculation, type RamCalculationFailure } from "../../Script/RamCalculations";
 import { BaseServer } from "../../Server/BaseServer";
 import { Settings } from "../../Settings/Settings";
 import { useBoolean } from "../../ui/React/hooks";
@@ -15,7 +15,7 @@ export interface ScriptEditorContextShape {
   ram: string;
   ramEntries: string[][];
   showRAMError: (error?: RamCalculationFailure) => void;
-  updateRAM: (ast: AST, path: ScriptFilePath, server: BaseServer) => void;
+  updateRAM: (ast: AST, path: ScriptFilePath, server: BaseServer) => RamCalculation;
 
   isUpdatingRAM: boolean;
   startUpdatingRAM: () => void;
@@ -64,7 +64,7 @@ export function ScriptEditorContextProvider({ children }: { children: React.Reac
 
       setRAM("RAM: " + formatRam(ramUsage.cost));
       setRamEntries(entriesDisp);
-      return;
+      return ramUsage;
     }
 
     if (ramUsage.errorCode !== undefined) {
@@ -73,6 +73,7 @@ export function ScriptEditorContextProvider({ children }: { children: React.Reac
       setRAM("RAM: Unknown Error");
       setRamEntries([["Unknown Error", ""]]);
     }
+    return ramUsage;
   };
 
   const [isUpdatingRAM, { on: startUpdatingRAM, off: finishUpdatingRAM }] = useBoolean(false);
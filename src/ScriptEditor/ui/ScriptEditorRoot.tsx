@@ -1,6 +1,6 @@
 import type { ContentFilePath } from "../../Paths/ContentFile";
 
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import * as monaco from "monaco-editor";
 
 import { Editor } from "./Editor";
@@ -10,13 +10,14 @@ type IStandaloneCodeEditor = monaco.editor.IStandaloneCodeEditor;
 import { Router } from "../../ui/GameRoot";
 import { Page } from "../../ui/Router";
 import { dialogBoxCreate } from "../../ui/React/DialogBox";
-import { checkInfiniteLoop } from "../../Script/RamCalculations";
+import { type RamCalculation } from "../../Script/RamCalculations";
 
 import { Settings } from "../../Settings/Settings";
 import { iTutorialNextStep, ITutorial, iTutorialSteps } from "../../InteractiveTutorial";
 import { debounce } from "lodash";
 import { saveObject } from "../../SaveObject";
 import { GetServer } from "../../Server/AllServers";
+import { Player } from "@player";
 
 import { PromptEvent } from "../../ui/React/PromptManager";
 
@@ -29,8 +30,15 @@ import { Toolbar } from "./Toolbar";
 import { NoOpenScripts } from "./NoOpenScripts";
 import { ScriptEditorContextProvider, useScriptEditorContext } from "./ScriptEditorContext";
 import { useVimEditor } from "./useVimEditor";
+import { getRamDecorations } from "./ramAnnotations";
+import { parseModelUri, setImportRoot, syncServerModels } from "./serverModels";
+import { ProjectSearch } from "./ProjectSearch";
+import { ScriptHistoryModal } from "./ScriptHistoryModal";
+import { DependencyGraphModal } from "./DependencyGraphModal";
+import { getDependencyGraph } from "../../Script/DependencyGraph";
+import { type FileSearchResult, type SearchMatch, type SearchQuery, replaceMatches } from "./fileSearch";
 import { useCallback } from "react";
-import { type AST, getFileType, parseAST } from "../../utils/ScriptTransformer";
+import { type AST, getFileType, lintScript, parseAST } from "../../utils/ScriptTransformer";
 import { RamCalculationErrorCode } from "../../Script/RamCalculationErrorCodes";
 import { hasScriptExtension, isLegacyScript } from "../../Paths/ScriptFilePath";
 
@@ -46,6 +54,9 @@ let currentScript: OpenScript | null = null;
 function Root(props: IProps): React.ReactElement {
   const rerender = useRerender();
   const editorRef = useRef<IStandaloneCodeEditor | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDependencies, setShowDependencies] = useState(false);
 
   // This is the workaround for a bug in monaco-editor: https://github.com/microsoft/monaco-editor/issues/4455
   const removeOutlineOfEditor = useCallback(() => {
@@ -63,7 +74,7 @@ function Root(props: IProps): React.ReactElement {
 
   const { showRAMError, updateRAM, startUpdatingRAM, finishUpdatingRAM } = useScriptEditorContext();
 
-  let decorations: monaco.editor.IEditorDecorationsCollection | undefined;
+  const ramDecorations = useRef<monaco.editor.IEditorDecorationsCollection | null>(null);
 
   // Prevent Crash if script is open on deleted server
   for (let i = openScripts.length - 1; i >= 0; i--) {
@@ -112,6 +123,12 @@ function Root(props: IProps): React.ReactElement {
   useEffect(() => {
     function keydown(event: KeyboardEvent): void {
       if (Settings.DisableHotkeys) return;
+      // CTRL/CMD + SHIFT + F
+      if (event.code == "KeyF" && (event.ctrlKey || event.metaKey) && event.shiftKey) {
+        event.preventDefault();
+        setShowSearch(true);
+      }
+
       //Ctrl + b
       if (event.code == "KeyB" && (event.ctrlKey || event.metaKey)) {
         event.preventDefault();
@@ -129,38 +146,41 @@ function Root(props: IProps): React.ReactElement {
     return () => document.removeEventListener("keydown", keydown);
   }, [save]);
 
-  function infLoop(ast: AST, code: string): void {
-    if (editorRef.current === null || currentScript === null || isLegacyScript(currentScript.path)) {
-      return;
-    }
-    if (!decorations) {
-      decorations = editorRef.current.createDecorationsCollection();
-    }
-    const possibleLines = checkInfiniteLoop(ast, code);
-    if (possibleLines.length !== 0) {
-      decorations.set(
-        possibleLines.map((awaitWarning) => ({
-          range: {
-            startLineNumber: awaitWarning,
-            startColumn: 1,
-            endLineNumber: awaitWarning,
-            endColumn: 10,
-          },
-          options: {
-            isWholeLine: true,
-            glyphMarginClassName: "myGlyphMarginClass",
-            glyphMarginHoverMessage: {
-              value:
-                "Possible infinite loop, await something. If this is a false positive, use `// @ignore-infinite` to suppress.",
-            },
-          },
-        })),
-      );
-    } else {
-      decorations.clear();
+  /** Shows possible misuses of the Netscript API as warnings. Passing null for the AST clears them. */
+  function lint(ast: AST | null, code: string): void {
+    const model = editorRef.current?.getModel();
+    if (!model || currentScript === null) return;
+    const diagnostics = ast === null || isLegacyScript(currentScript.path) ? [] : lintScript(ast, code);
+    monaco.editor.setModelMarkers(
+      model,
+      "netscript",
+      diagnostics.map((diagnostic) => {
+        const start = model.getPositionAt(diagnostic.start);
+        const end = model.getPositionAt(diagnostic.end);
+        return {
+          severity: monaco.MarkerSeverity.Warning,
+          message: diagnostic.message,
+          source: "netscript",
+          code: diagnostic.rule,
+          startLineNumber: start.lineNumber,
+          startColumn: start.column,
+          endLineNumber: end.lineNumber,
+          endColumn: end.column,
+        };
+      }),
+    );
+  }
+
+  function ramAnnotations(ramUsage: RamCalculation): void {
+    const model = editorRef.current?.getModel();
+    if (!editorRef.current || !model || currentScript === null) return;
+    if (!ramDecorations.current) {
+      ramDecorations.current = editorRef.current.createDecorationsCollection();
     }
+    ramDecorations.current.set(getRamDecorations(ramUsage, model, currentScript.path));
   }
 
+  /** Registers the scripts of the current server as models, see serverModels.ts */
   function loadAllServerScripts(): void {
     if (!currentScript) {
       return;
@@ -171,45 +191,53 @@ function Root(props: IProps): React.ReactElement {
       return;
     }
 
-    server.scripts.forEach((s) => {
-      const uri = monaco.Uri.from({
-        scheme: "file",
-        path: `${s.server}/${s.filename}`,
-      });
-
-      const model = monaco.editor.getModel(uri);
-      if (model !== null && !model.isDisposed()) {
-        // there's already a model, don't overwrite
-        return;
-      }
-
-      makeModel(server.hostname, s.filename, s.code);
-    });
+    setImportRoot(server.hostname);
+    const editedModels = syncServerModels(server, openScripts);
+    // Scripts that were changed by a rename in another file are opened, so that the changes can be reviewed and saved
+    for (const model of editedModels) {
+      const file = parseModelUri(model.uri);
+      if (!file) continue;
+      openScripts.push(
+        new OpenScript(
+          file.path,
+          model.getValue(),
+          file.hostname,
+          new monaco.Position(1, 1),
+          model,
+          currentScript.vimMode,
+        ),
+      );
+    }
+    if (editedModels.length > 0) rerender();
   }
 
   const debouncedCodeParsing = debounce((newCode: string) => {
+    loadAllServerScripts();
     let server;
     if (!currentScript || !hasScriptExtension(currentScript.path) || !(server = GetServer(currentScript.hostname))) {
       showRAMError();
+      ramDecorations.current?.clear();
+      lint(null, newCode);
       return;
     }
     let ast;
     try {
       ast = parseAST(newCode, getFileType(currentScript.path));
     } catch (error) {
+      ramDecorations.current?.clear();
+      lint(null, newCode);
       showRAMError({
         errorCode: RamCalculationErrorCode.SyntaxError,
         errorMessage: error instanceof Error ? error.message : String(error),
       });
       return;
     }
-    infLoop(ast, newCode);
-    updateRAM(ast, currentScript.path, server);
+    lint(ast, newCode);
+    ramAnnotations(updateRAM(ast, currentScript.path, server));
     finishUpdatingRAM();
   }, 300);
 
   const parseCode = (newCode: string) => {
-    loadAllServerScripts();
     startUpdatingRAM();
     debouncedCodeParsing(newCode);
   };
@@ -404,6 +432,102 @@ function Root(props: IProps): React.ReactElement {
     }
   }
 
+  /**
+   * Opens a file in a tab, or switches to its tab, and selects the given range or moves the cursor to the given position.
+   * Returns false if the file does not exist.
+   */
+  function openFile(hostname: string, path: ContentFilePath, selection?: monaco.IRange | monaco.IPosition): boolean {
+    let index = openScripts.findIndex((openScript) => openScript.hostname === hostname && openScript.path === path);
+    if (index === -1) {
+      const code = GetServer(hostname)?.getContentFile(path)?.content;
+      if (code === undefined) return false;
+      openScripts.push(
+        new OpenScript(
+          path,
+          code,
+          hostname,
+          new monaco.Position(1, 1),
+          makeModel(hostname, path, code),
+          currentScript?.vimMode ?? props.vim,
+        ),
+      );
+      index = openScripts.length - 1;
+    }
+    onTabClick(index);
+    if (selection && "startLineNumber" in selection) {
+      editorRef.current?.setSelection(selection);
+      editorRef.current?.revealRangeInCenter(selection);
+    } else if (selection) {
+      editorRef.current?.setPosition(selection);
+      editorRef.current?.revealPositionInCenter(selection);
+    }
+    rerender();
+    return true;
+  }
+
+  function onOpenMatch(result: FileSearchResult, match: SearchMatch): void {
+    const range = new monaco.Range(match.lineNumber, match.column, match.lineNumber, match.column + match.length);
+    if (!openFile(result.hostname, result.path, range)) {
+      dialogBoxCreate(`${result.path} no longer exists on ${result.hostname}.`);
+    }
+  }
+
+  // Go to definition and other navigation into another script open the script in a tab. The opener is registered
+  // once, and calls the openFile of the latest render through a ref.
+  const openFileRef = useRef(openFile);
+  openFileRef.current = openFile;
+  useEffect(() => {
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor(__source, resource, selectionOrPosition) {
+        const file = parseModelUri(resource);
+        return file !== null && openFileRef.current(file.hostname, file.path, selectionOrPosition);
+      },
+    });
+    return () => opener.dispose();
+  }, []);
+
+  /**
+   * Replaces the matches of a search in the given files. Files that are open in a tab are changed in the editor and
+   * still have to be saved, other files are written to their server.
+   */
+  function onReplace(results: FileSearchResult[], query: SearchQuery, replacement: string): void {
+    let wroteFiles = false;
+    for (const { hostname, path } of results) {
+      const openScript = openScripts.find((openScript) => openScript.hostname === hostname && openScript.path === path);
+      if (openScript) {
+        openScript.code = replaceMatches(openScript.code, query, replacement);
+        if (!openScript.model.isDisposed()) {
+          // An edit operation instead of setValue, so that the replacement can be undone
+          openScript.model.pushEditOperations(
+            [],
+            [{ range: openScript.model.getFullModelRange(), text: openScript.code }],
+            () => null,
+          );
+        }
+        continue;
+      }
+      const server = GetServer(hostname);
+      const file = server?.getContentFile(path);
+      if (!server || !file) continue;
+      server.writeToContentFile(path, replaceMatches(file.content, query, replacement));
+      wroteFiles = true;
+    }
+    if (wroteFiles && Settings.SaveGameOnFileSave) saveObject.saveGame();
+    rerender();
+  }
+
+  /** Replaces the code of the current tab with a previous version. It still has to be saved. */
+  function onRestoreRevision(code: string): void {
+    if (currentScript === null || currentScript.model.isDisposed()) return;
+    currentScript.code = code;
+    currentScript.model.pushEditOperations(
+      [],
+      [{ range: currentScript.model.getFullModelRange(), text: code }],
+      () => null,
+    );
+    rerender();
+  }
+
   function onOpenNextTab(step: number): void {
     // Go to the next tab (to the right). Wraps around when at the rightmost tab
     const currIndex = currentTabIndex();
@@ -454,6 +578,30 @@ function Root(props: IProps): React.ReactElement {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const historyScript =
+    currentScript !== null && hasScriptExtension(currentScript.path)
+      ? GetServer(currentScript.hostname)?.scripts.get(currentScript.path)
+      : undefined;
+  const dependencyServer =
+    currentScript !== null && hasScriptExtension(currentScript.path) ? GetServer(currentScript.hostname) : null;
+  const dependencyGraph =
+    showDependencies && currentScript !== null && hasScriptExtension(currentScript.path) && dependencyServer
+      ? getDependencyGraph(currentScript.code, currentScript.path, dependencyServer.hostname, dependencyServer.scripts)
+      : null;
+
+  // Without open scripts, the search finds files to open, starting on the server that the player is connected to
+  const projectSearch = showSearch && (
+    <ProjectSearch
+      hostname={currentScript?.hostname ?? Player.getCurrentServer().hostname}
+      openFileContent={(hostname, path) =>
+        openScripts.find((openScript) => openScript.hostname === hostname && openScript.path === path)?.code
+      }
+      onOpenMatch={onOpenMatch}
+      onReplace={onReplace}
+      onClose={() => setShowSearch(false)}
+    />
+  );
+
   return (
     <>
       <div
@@ -472,13 +620,48 @@ function Root(props: IProps): React.ReactElement {
           onTabUpdate={onTabUpdate}
         />
         <div style={{ flex: "0 0 5px" }} />
-        <Editor onMount={onMount} onChange={updateCode} onUnmount={onUnmountEditor} />
+        <div style={{ display: "flex", flexGrow: 1, height: "1px" }}>
+          <div style={{ display: "flex", flexDirection: "column", flexGrow: 1, minWidth: 0 }}>
+            <Editor onMount={onMount} onChange={updateCode} onUnmount={onUnmountEditor} />
+          </div>
+          {currentScript !== null && projectSearch}
+        </div>
 
         {statusBarRef.current}
 
-        <Toolbar onSave={save} editor={editorRef.current} />
+        <Toolbar
+          onSave={save}
+          onSearch={() => setShowSearch(!showSearch)}
+          onHistory={historyScript ? () => setShowHistory(true) : undefined}
+          onDependencies={dependencyServer ? () => setShowDependencies(true) : undefined}
+          editor={editorRef.current}
+        />
       </div>
-      {!currentScript && <NoOpenScripts />}
+      {currentScript !== null && historyScript && (
+        <ScriptHistoryModal
+          open={showHistory}
+          onClose={() => setShowHistory(false)}
+          path={currentScript.path}
+          revisions={historyScript.revisions}
+          code={currentScript.code}
+          language={currentScript.model.isDisposed() ? "javascript" : currentScript.model.getLanguageId()}
+          onRestore={onRestoreRevision}
+        />
+      )}
+      <DependencyGraphModal
+        open={showDependencies}
+        onClose={() => setShowDependencies(false)}
+        graph={dependencyGraph}
+        onOpenModule={(filename) => {
+          if (currentScript !== null && openFile(currentScript.hostname, filename)) setShowDependencies(false);
+        }}
+      />
+      {!currentScript && (
+        <div style={{ display: "flex", height: "100%", width: "100%" }}>
+          <NoOpenScripts onSearch={() => setShowSearch(true)} />
+          {projectSearch}
+        </div>
+      )}
     </>
   );
 }
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef, useState } from "react";
+import * as monaco from "monaco-editor";
+
+import Box from "@mui/material/Box";
+import Button from "@mui/material/Button";
+import List from "@mui/material/List";
+import ListItemButton from "@mui/material/ListItemButton";
+import Typography from "@mui/material/Typography";
+
+import type { ScriptRevision } from "../../Script/Script";
+import { Modal } from "../../ui/React/Modal";
+import { useScriptEditorContext } from "./ScriptEditorContext";
+
+interface DiffProps {
+  original: string;
+  modified: string;
+  language: string;
+}
+
+/** Side-by-side diff of a previous version of a script (left) and the code in the editor (right) */
+function RevisionDiff({ original, modified, language }: DiffProps): React.ReactElement {
+  const containerDiv = useRef<HTMLDivElement | null>(null);
+  const diffEditorRef = useRef<monaco.editor.IStandaloneDiffEditor | null>(null);
+  const { options } = useScriptEditorContext();
+
+  useEffect(() => {
+    if (!containerDiv.current) return;
+    const diffEditor = monaco.editor.createDiffEditor(containerDiv.current, {
+      automaticLayout: true,
+      readOnly: true,
+      originalEditable: false,
+      fontFamily: options.fontFamily,
+      fontSize: options.fontSize,
+      fontLigatures: options.fontLigatures,
+    });
+    diffEditorRef.current = diffEditor;
+    return () => {
+      const model = diffEditor.getModel();
+      diffEditor.dispose();
+      model?.original.dispose();
+      model?.modified.dispose();
+      diffEditorRef.current = null;
+    };
+    // The font options are only read when the diff is opened
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    const diffEditor = diffEditorRef.current;
+    if (!diffEditor) return;
+    const previous = diffEditor.getModel();
+    // Models without an uri, so that they are not mistaken for the files of a server
+    diffEditor.setModel({
+      original: monaco.editor.createModel(original, language),
+      modified: monaco.editor.createModel(modified, language),
+    });
+    previous?.original.dispose();
+    previous?.modified.dispose();
+  }, [original, modified, language]);
+
+  return <div ref={containerDiv} style={{ height: "60vh", width: "70vw" }} />;
+}
+
+interface IProps {
+  open: boolean;
+  onClose: () => void;
+  path: string;
+  /** The previous versions of the script, the most recent first */
+  revisions: ScriptRevision[];
+  /** The code in the editor, which may not be saved yet */
+  code: string;
+  language: string;
+  /** Replaces the code in the editor with a previous version */
+  onRestore: (code: string) => void;
+}
+
+/** Lists the previous versions of the script of the current tab, and shows how they differ from the current code */
+export function ScriptHistoryModal(props: IProps): React.ReactElement {
+  const [selected, setSelected] = useState(0);
+  const revision = props.revisions[selected] as ScriptRevision | undefined;
+
+  useEffect(() => {
+    if (props.open) setSelected(0);
+  }, [props.open, props.path]);
+
+  function restore(): void {
+    if (!revision) return;
+    props.onRestore(revision.code);
+    props.onClose();
+  }
+
+  return (
+    <Modal open={props.open} onClose={props.onClose} removeFocus={false}>
+      <Typography variant="h6">History of {props.path}</Typography>
+      {props.revisions.length === 0 ? (
+        <Typography>
+          There are no previous versions of this script. A version is kept each time the script is saved with changes.
+        </Typography>
+      ) : (
+        <Box display="flex" gap={1}>
+          <Box display="flex" flexDirection="column" sx={{ minWidth: "220px" }}>
+            <List dense disablePadding sx={{ flexGrow: 1, overflowY: "auto", maxHeight: "60vh" }}>
+              {props.revisions.map((revision, index) => (
+                <ListItemButton
+                  key={`${index}-${revision.timestamp}`}
+                  selected={index === selected}
+                  onClick={() => setSelected(index)}
+                >
+                  <Typography>
+                    {index + 1}. {new Date(revision.timestamp).toLocaleString()}
+                  </Typography>
+                </ListItemButton>
+              ))}
+            </List>
+            <Button sx={{ mt: 1 }} onClick={restore}>
+              Restore version {selected + 1}
+            </Button>
+          </Box>
+          {props.open && revision && (
+            <Box display="flex" flexDirection="column">
+              <Typography>Version {selected + 1} (left) and the code in the editor (right)</Typography>
+              <RevisionDiff original={revision.code} modified={props.code} language={props.language} />
+            </Box>
+          )}
+        </Box>
+      )}
+    </Modal>
+  );
+}
@@ -29,9 +29,14 @@ type IStandaloneCodeEditor = monaco.editor.IStandaloneCodeEditor;
 interface IProps {
   editor: IStandaloneCodeEditor | null;
   onSave: () => void;
+  onSearch: () => void;
+  /** Opens the previous versions of the script. Undefined if the file of the tab is not a saved script. */
+  onHistory?: () => void;
+  /** Opens the import graph of the script. Undefined if the file of the tab is not a script. */
+  onDependencies?: () => void;
 }
 
-export function Toolbar({ editor, onSave }: IProps) {
+export function Toolbar({ editor, onSave, onSearch, onHistory, onDependencies }: IProps) {
   const [ramInfoOpen, { on: openRAMInfo, off: closeRAMInfo }] = useBoolean(false);
   const [optionsOpen, { on: openOptions, off: closeOptions }] = useBoolean(false);
 
@@ -67,6 +72,15 @@ export function Toolbar({ editor, onSave }: IProps) {
           {ram}
         </Button>
         <Button onClick={onSave}>Save (Ctrl/Cmd + s)</Button>
+        <Button sx={{ ml: 1 }} onClick={onSearch}>
+          Search files (Ctrl/Cmd + Shift + f)
+        </Button>
+        <Button sx={{ ml: 1 }} disabled={!onHistory} onClick={onHistory}>
+          History
+        </Button>
+        <Button sx={{ ml: 1 }} disabled={!onDependencies} onClick={onDependencies}>
+          Imports
+        </Button>
         <Button sx={{ mx: 1 }} onClick={() => Router.toPage(Page.Terminal)}>
           Terminal (Ctrl/Cmd + b)
         </Button>
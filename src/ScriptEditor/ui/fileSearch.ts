@@ -0,0 +1,105 @@
+import type { BaseServer } from "../../Server/BaseServer";
+import { type ContentFilePath, allContentFiles } from "../../Paths/ContentFile";
+import { GetAllServers, GetServer } from "../../Server/AllServers";
+
+export interface SearchQuery {
+  pattern: string;
+  /** Whether the pattern is a regular expression instead of plain text */
+  isRegex: boolean;
+  matchCase: boolean;
+}
+
+export interface SearchMatch {
+  /** Position of the match in the file, 1-based like positions in monaco */
+  lineNumber: number;
+  column: number;
+  length: number;
+  /** The line that contains the match */
+  lineText: string;
+}
+
+export interface FileSearchResult {
+  hostname: string;
+  path: ContentFilePath;
+  matches: SearchMatch[];
+}
+
+/** Returns the content of a file that is open in the editor, which can differ from the saved file */
+export type OpenFileContent = (hostname: string, path: ContentFilePath) => string | undefined;
+
+/** Searches stop after this many matches, so that a pattern like "." does not freeze the game */
+export const maxSearchMatches = 10000;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Throws a SyntaxError if the pattern is not a valid regular expression */
+export function createSearchRegExp(query: SearchQuery): RegExp {
+  const source = query.isRegex ? query.pattern : escapeRegExp(query.pattern);
+  return new RegExp(source, query.matchCase ? "gm" : "gim");
+}
+
+export function findMatches(content: string, regExp: RegExp, limit = maxSearchMatches): SearchMatch[] {
+  const lineStarts = [0];
+  for (let i = content.indexOf("\n"); i !== -1; i = content.indexOf("\n", i + 1)) lineStarts.push(i + 1);
+
+  const matches: SearchMatch[] = [];
+  let line = 0;
+  regExp.lastIndex = 0;
+  for (let match = regExp.exec(content); match !== null && matches.length < limit; match = regExp.exec(content)) {
+    // Empty matches (e.g. of ^) would otherwise be found over and over
+    if (match[0].length === 0) {
+      regExp.lastIndex++;
+      continue;
+    }
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= match.index) line++;
+    const lineEnd = line + 1 < lineStarts.length ? lineStarts[line + 1] - 1 : content.length;
+    matches.push({
+      lineNumber: line + 1,
+      column: match.index - lineStarts[line] + 1,
+      length: match[0].length,
+      lineText: content.substring(lineStarts[line], lineEnd),
+    });
+  }
+  return matches;
+}
+
+/**
+ * Searches the scripts and text files of a server, or of all servers if hostname is null.
+ * Files that are open in the editor are searched with their content in the editor.
+ */
+export function searchFiles(
+  query: SearchQuery,
+  hostname: string | null,
+  openFileContent: OpenFileContent = () => undefined,
+): FileSearchResult[] {
+  const regExp = createSearchRegExp(query);
+  const servers: BaseServer[] = [];
+  if (hostname === null) servers.push(...GetAllServers());
+  else {
+    const server = GetServer(hostname);
+    if (server) servers.push(server);
+  }
+
+  const results: FileSearchResult[] = [];
+  let matchCount = 0;
+  for (const server of servers) {
+    const files = [...allContentFiles(server)].sort(([a], [b]) => a.localeCompare(b));
+    for (const [path, file] of files) {
+      if (matchCount >= maxSearchMatches) return results;
+      const content = openFileContent(server.hostname, path) ?? file.content;
+      const matches = findMatches(content, regExp, maxSearchMatches - matchCount);
+      if (matches.length === 0) continue;
+      results.push({ hostname: server.hostname, path, matches });
+      matchCount += matches.length;
+    }
+  }
+  return results;
+}
+
+/** Replaces all matches. For regular expressions, the replacement can refer to groups with $1, $2, etc. */
+export function replaceMatches(content: string, query: SearchQuery, replacement: string): string {
+  const regExp = createSearchRegExp(query);
+  return query.isRegex ? content.replace(regExp, replacement) : content.replace(regExp, () => replacement);
+}
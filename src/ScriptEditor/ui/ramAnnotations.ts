@@ -0,0 +1,63 @@
+import type { editor } from "monaco-editor";
+import type { RamCalculation, RamUsageEntry, RamUsageLocation } from "../../Script/RamCalculations";
+import { formatRam } from "../../ui/formatNumber";
+
+interface LineAnnotation {
+  costs: string[];
+  explanations: string[];
+}
+
+/** The name of a cost as it is written in a script, e.g. ns.hack or document */
+function displayName(entry: RamUsageEntry): string {
+  return entry.type === "dom" ? entry.name : `ns.${entry.name}`;
+}
+
+/** Explains why a reference in an imported module adds to the cost of the script */
+function explainImport(entry: RamUsageEntry, location: RamUsageLocation): string {
+  const via = location.importChain?.slice(1).map((importLocation) => `\`${importLocation.filename}\``) ?? [];
+  return (
+    `\`${displayName(entry)}\` (${formatRam(entry.cost)}) is used by \`${location.filename}\`` +
+    (via.length > 0 ? `, which is imported through ${via.join(" → ")}` : "")
+  );
+}
+
+/**
+ * Inline decorations for the lines of a script that add RAM cost, e.g. "+0.10GB ns.hack".
+ * Costs that come from imported modules are shown on the import declaration, with a hover explaining the import chain.
+ */
+export function getRamDecorations(
+  ramUsage: RamCalculation,
+  model: editor.ITextModel,
+  filename: string,
+): editor.IModelDeltaDecoration[] {
+  const lines = new Map<number, LineAnnotation>();
+  for (const entry of ramUsage.entries ?? []) {
+    for (const location of entry.locations ?? []) {
+      const isImported = location.filename !== filename;
+      const { start } = location.importChain?.[0] ?? location;
+      const lineNumber = model.getPositionAt(start).lineNumber;
+      const line = lines.get(lineNumber) ?? { costs: [], explanations: [] };
+      lines.set(lineNumber, line);
+      const cost = `+${formatRam(entry.cost)} ${displayName(entry)}`;
+      // A function costs RAM only once, no matter how often it is referenced on the same line
+      if (!line.costs.includes(cost)) line.costs.push(cost);
+      if (isImported) line.explanations.push(explainImport(entry, location));
+    }
+  }
+
+  return [...lines].map(([lineNumber, { costs, explanations }]) => ({
+    range: {
+      startLineNumber: lineNumber,
+      startColumn: 1,
+      endLineNumber: lineNumber,
+      endColumn: model.getLineMaxColumn(lineNumber),
+    },
+    options: {
+      after: { content: "  " + costs.join(", "), inlineClassName: "ramCostAnnotation" },
+      hoverMessage:
+        explanations.length > 0
+          ? { value: [...new Set(explanations)].join("\n\n") + "\n\nEach function is only counted once per script." }
+          : undefined,
+    },
+  }));
+}
@@ -0,0 +1,77 @@
+/**
+ * Keeps a monaco model for every script on the server of the current tab, so that the language servers know the
+ * modules that scripts import. This makes imports typecheck, and go-to-definition, find references and renames work
+ * across files.
+ */
+import type { BaseServer } from "../../Server/BaseServer";
+import type { OpenScript } from "./OpenScript";
+import * as monaco from "monaco-editor";
+import { type ScriptFilePath, resolveScriptFilePath } from "../../Paths/ScriptFilePath";
+import { makeModel, modelUri } from "./utils";
+
+type ITextModel = monaco.editor.ITextModel;
+
+/** The code of the file on the server, as it was when it was last copied to its model */
+const syncedCode = new WeakMap<ITextModel, string>();
+
+/** The server and the script of a model uri, e.g. file:///home/lib/utils.js */
+export function parseModelUri(uri: monaco.Uri): { hostname: string; path: ScriptFilePath } | null {
+  const match = uri.scheme === "file" ? /^\/([^/]+)\/(.+)$/.exec(uri.path) : null;
+  const path = match ? resolveScriptFilePath(match[2]) : null;
+  return match && path ? { hostname: match[1], path } : null;
+}
+
+/**
+ * Makes the language servers resolve imports like the game does: paths that don't start with ./ or ../ are relative to
+ * the root of the server. Imports that start with / are not resolved, because the language servers treat them as paths
+ * on the disk.
+ */
+export function setImportRoot(hostname: string): void {
+  const baseUrl = modelUri(hostname, "").toString();
+  for (const languageDefaults of [
+    monaco.languages.typescript.javascriptDefaults,
+    monaco.languages.typescript.typescriptDefaults,
+  ]) {
+    const compilerOptions = languageDefaults.getCompilerOptions();
+    if (compilerOptions.baseUrl === baseUrl) continue;
+    languageDefaults.setCompilerOptions({
+      ...compilerOptions,
+      baseUrl,
+      moduleResolution: monaco.languages.typescript.ModuleResolutionKind.NodeJs,
+    });
+  }
+}
+
+/**
+ * Creates or updates the models of the scripts on a server, and disposes the models of deleted scripts.
+ * The models of open tabs are left to their tab.
+ * @returns The models of scripts that are not open in a tab, but were changed in the editor, e.g. by a rename.
+ */
+export function syncServerModels(server: BaseServer, openScripts: OpenScript[]): ITextModel[] {
+  const isOpen = (path: string) =>
+    openScripts.some((openScript) => openScript.hostname === server.hostname && openScript.path === path);
+  const editedModels: ITextModel[] = [];
+
+  for (const [filename, script] of server.scripts) {
+    if (isOpen(filename)) continue;
+    const model = monaco.editor.getModel(modelUri(server.hostname, filename));
+    if (model === null || model.isDisposed()) {
+      syncedCode.set(makeModel(server.hostname, filename, script.code), script.code);
+      continue;
+    }
+    const synced = syncedCode.get(model);
+    if (synced !== undefined && model.getValue() !== synced) editedModels.push(model);
+    else if (model.getValue() !== script.code) {
+      // The script was changed outside of the editor, e.g. with ns.write
+      model.setValue(script.code);
+      syncedCode.set(model, script.code);
+    } else syncedCode.set(model, script.code);
+  }
+
+  for (const model of monaco.editor.getModels()) {
+    const file = parseModelUri(model.uri);
+    if (file?.hostname !== server.hostname || server.scripts.has(file.path) || isOpen(file.path)) continue;
+    model.dispose();
+  }
+  return editedModels;
+}
@@ -22,11 +22,16 @@ function reorder(list: unknown[], startIndex: number, endIndex: number): void {
   const [removed] = list.splice(startIndex, 1);
   list.splice(endIndex, 0, removed);
 }
-function makeModel(hostname: string, filename: string, code: string) {
-  const uri = Uri.from({
+/** The uri of the model of a file, e.g. file:///home/lib/utils.js */
+function modelUri(hostname: string, filename: string): Uri {
+  return Uri.from({
     scheme: "file",
     path: `${hostname}/${filename}`,
   });
+}
+
+function makeModel(hostname: string, filename: string, code: string) {
+  const uri = modelUri(hostname, filename);
   let language;
   const fileType = getFileType(filename);
   switch (fileType) {
@@ -54,4 +59,4 @@ function makeModel(hostname: string, filename: string, code: string) {
   return editor.getModel(uri) ?? editor.createModel(code, language, uri);
 }
 
-export { getServerCode, dirty, reorder, makeModel };
+export { getServerCode, dirty, reorder, modelUri, makeModel };
@@ -11,6 +11,7 @@ import { Reviver } from "../utils/JSONReviver";
 import { SpecialServers } from "./data/SpecialServers";
 import { currentNodeMults } from "../BitNode/BitNodeMultipliers";
 import { IPAddress, isIPAddress } from "../Types/strings";
+import { EventEmitter } from "../utils/EventEmitter";
 
 import "../Script/RunningScript"; // For reviver side-effect
 
@@ -21,6 +22,12 @@ import "../Script/RunningScript"; // For reviver side-effect
  */
 let AllServers: Record<string, Server | HacknetServer> = {};
 
+/**
+ * Emitted when the player purchases a server or a hacknet server. Not emitted for the servers that are created when
+ * starting a new game or installing augmentations, nor when loading a save.
+ */
+export const ServerAddedEvents = new EventEmitter<[Server | HacknetServer]>();
+
 function GetServerByIP(ip: string): BaseServer | undefined {
   for (const server of Object.values(AllServers)) {
     if (server.ip !== ip) continue;
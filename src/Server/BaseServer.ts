@@ -18,6 +18,7 @@ import { matchScriptPathExact } from "../utils/helpers/scriptKey";
 import { createRandomIp } from "../utils/IPAddress";
 import { JSONMap } from "../Types/Jsonable";
 import { ContentFile, ContentFilePath } from "../Paths/ContentFile";
+import { ContentFileDeleteEvents, ContentFileWriteEvents } from "./ContentFileEvents";
 import { ProgramFilePath, hasProgramExtension } from "../Paths/ProgramFilePath";
 import { getKeyList } from "../utils/helpers/getKeyList";
 import lodash from "lodash";
@@ -180,6 +181,7 @@ export abstract class BaseServer implements IServer {
       const textFile = this.textFiles.get(path);
       if (!textFile) return { res: false, msg: `Text file ${path} not found.` };
       this.textFiles.delete(path);
+      ContentFileDeleteEvents.emit(this.hostname, path);
       return { res: true };
     }
     if (hasScriptExtension(path)) {
@@ -188,6 +190,7 @@ export abstract class BaseServer implements IServer {
       if (this.isRunning(path)) return { res: false, msg: "Cannot delete a script that is currently running!" };
       script.invalidateModule();
       this.scripts.delete(path);
+      ContentFileDeleteEvents.emit(this.hostname, path);
       return { res: true };
     }
     if (hasProgramExtension(path)) {
@@ -256,12 +259,14 @@ export abstract class BaseServer implements IServer {
     if (script) {
       // content setter handles module invalidation
       script.content = code;
+      ContentFileWriteEvents.emit(this.hostname, filename, code);
       return { overwritten: true };
     }
 
     // Otherwise, create a new script
     const newScript = new Script(filename, code, this.hostname);
     this.scripts.set(filename, newScript);
+    ContentFileWriteEvents.emit(this.hostname, filename, code);
     return { overwritten: false };
   }
 
@@ -273,12 +278,14 @@ export abstract class BaseServer implements IServer {
     // overWrite if already exists
     if (existingFile) {
       existingFile.text = txt;
+      ContentFileWriteEvents.emit(this.hostname, textPath, txt);
       return { overwritten: true };
     }
 
     // Otherwise create a new text file
     const newFile = new TextFile(textPath, txt);
     this.textFiles.set(textPath, newFile);
+    ContentFileWriteEvents.emit(this.hostname, textPath, txt);
     return { overwritten: false };
   }
 
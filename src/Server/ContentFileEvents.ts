@@ -0,0 +1,8 @@
+import type { ContentFilePath } from "../Paths/ContentFile";
+import { EventEmitter } from "../utils/EventEmitter";
+
+/** Emitted when a script or text file on a server is created or overwritten, with its new content. */
+export const ContentFileWriteEvents = new EventEmitter<[hostname: string, path: ContentFilePath, content: string]>();
+
+/** Emitted when a script or text file is deleted from a server. */
+export const ContentFileDeleteEvents = new EventEmitter<[hostname: string, path: ContentFilePath]>();
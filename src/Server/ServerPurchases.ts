@@ -2,7 +2,7 @@
  * Implements functions for purchasing servers or purchasing more RAM for
  * the home computer
  */
-import { AddToAllServers, createUniqueRandomIp, GetServer, renameServer } from "./AllServers";
+import { AddToAllServers, createUniqueRandomIp, GetServer, renameServer, ServerAddedEvents } from "./AllServers";
 import { safelyCreateUniqueServer } from "./ServerHelpers";
 
 import { currentNodeMults } from "../BitNode/BitNodeMultipliers";
@@ -149,6 +149,7 @@ export function purchaseServer(hostname: string, ram: number, cost: number): voi
   const homeComputer = Player.getHomeComputer();
   homeComputer.serversOnNetwork.push(newServ.hostname);
   newServ.serversOnNetwork.push(homeComputer.hostname);
+  ServerAddedEvents.emit(newServ);
 
   Player.loseMoney(cost, "servers");
 
@@ -4,6 +4,21 @@ import { defaultStyles } from "../Themes/Styles";
 import { CursorStyle, CursorBlinking, WordWrapOptions } from "../ScriptEditor/ui/Options";
 import { defaultMonacoTheme } from "../ScriptEditor/ui/themes";
 
+const remoteFileApiSecretKey = "bitburnerRemoteFileApiSecret";
+
+/**
+ * Secret the Remote File API client must authenticate with before making requests. Empty to not require it.
+ * It is kept in the local storage instead of the settings, so that it isn't included in exported saves.
+ */
+export function getRemoteFileApiSecret(): string {
+  return localStorage.getItem(remoteFileApiSecretKey) ?? "";
+}
+
+export function setRemoteFileApiSecret(secret: string): void {
+  if (secret === "") localStorage.removeItem(remoteFileApiSecretKey);
+  else localStorage.setItem(remoteFileApiSecretKey, secret);
+}
+
 /** The current options the player has customized to their play style. */
 export const Settings = {
   /** How many servers per page */
@@ -40,6 +55,11 @@ export const Settings = {
   MaxLogCapacity: 50,
   /** Limit how many entries can be written to a Netscript Port before entries start to get pushed out. */
   MaxPortCapacity: 50,
+  /**
+   * Limit the number of previous versions that are kept of each script. 0 to disable the revision history, which is the
+   * default because scripts that rewrite files with ns.write would quickly fill the save with revisions.
+   */
+  MaxScriptRevisions: 0,
   /** Limit the number of entries in the terminal. */
   MaxTerminalCapacity: 500,
   /** IP address the Remote File API client will try to connect to. Default localhost . */
@@ -70,6 +90,8 @@ export const Settings = {
   ShowMiddleNullTimeUnit: false,
   /** Whether the game should skip saving the running scripts to the save file. */
   ExcludeRunningScriptsFromSave: false,
+  /** Whether new scripts are started with the profiler enabled. */
+  ProfileScripts: false,
   /**  Whether the game's sidebar is opened. */
   IsSidebarOpened: true,
   /** Tail rendering intervall in ms */
@@ -13,7 +13,10 @@ export const TerminalHelpText: string[] = [
   "    cls                              See 'clear' command ",
   "    connect [hostname]               Connects to a remote server",
   "    cp [src] [dest]                  Copy a file",
+  "    deps [script]                    Displays the modules that a script imports and the RAM that each adds",
   "    download [script/text file]      Downloads scripts or text files to your computer",
+  "    echo [text...]                   Print text to the terminal",
+  "    export [name=value...]           Set variables that are available in all shell scripts",
   "    expr [math expression]           Evaluate a mathematical expression",
   "    free                             Check the machine's memory (RAM) usage",
   "    grep [opts]... pattern [file]... Search for PATTERN (string/regular expression) in each FILE and print results to terminal",
@@ -21,7 +24,7 @@ export const TerminalHelpText: string[] = [
   "    grow                             Spoof money in a servers bank account, increasing the amount available.",
   "    hack                             Hack the current machine",
   "    help [command]                   Display this help text, or the help text for a command",
-  "    history [-c]                     Display the terminal history",
+  "    history [-c] [script]            Display the terminal history, or the previous versions of a script",
   "    home                             Connect to home computer",
   "    hostname                         Displays the hostname of the machine",
   "    kill [script/pid] [args...]      Stops the specified script on the current server ",
@@ -32,20 +35,27 @@ export const TerminalHelpText: string[] = [
   "    mv [src] [dest]                  Move/rename a text or script file",
   "    nano [files...]                  Text editor - Open up and edit one or more scripts or text files",
   "    ps                               Display all scripts that are currently running",
+  "    revert [script] [n]              Restore a previous version of a script",
   "    rm [OPTIONS]... [FILE]...        Delete a file from the server",
-  "    run [script] [-t n] [--tail]     Execute a program or script",
-  "        [--ram-override n] [args...]",
+  "    run [script] [-t n] [--tail]     Execute a program, script or shell script (.sh)",
+  "        [--ram-override n] [--record] [--replay trace] [args...]",
   "    scan                             Prints all immediately-available network connections",
   "    scan-analyze [d] [-a]            Prints info for all servers up to d nodes away",
   "    scp [files...] [server]          Copies a file to a destination server",
   "    sudov                            Shows whether you have root access on this computer",
   "    tail [script/pid] [args...]      Displays dynamic logs for the specified script",
-  "    top                              Displays all running scripts and their RAM usage",
+  "    test [paths...]                  Runs the tests of test files (.test.js, .test.ts, ...)",
+  "    top [-i]                         Displays all running scripts and their RAM usage",
   "    unalias [alias name]             Deletes the specified alias",
   "    vim [files...]                   Text editor - Open up and edit one or more scripts or text files in vim mode",
   "    weaken                           Reduce the security of the current machine",
   "    wget [url] [target file]         Retrieves code/text from a web server",
   " ",
+  "The output of a command can be piped into another command with '|', written to a text file with '>', or ",
+  "appended to a text file with '>>'. For example: ls | grep .js > scripts.txt",
+  " ",
+  "Type 'help shell' to learn about variables, conditionals, loops and shell scripts.",
+  " ",
 ];
 
 const TemplatedHelpTexts: Record<string, (command: string) => string[]> = {
@@ -54,7 +64,7 @@ const TemplatedHelpTexts: Record<string, (command: string) => string[]> = {
       `Usage: ${command} [file names...] | [glob]`,
       ` `,
       `Opens up the specified file(s) in the Script Editor. Only scripts (.js, .jsx, .ts, .tsx, .script) `,
-      `or text files (.txt, .json) can be edited using the Script Editor. If a file does not exist, a new `,
+      `or text files (.txt, .json, .sh) can be edited using the Script Editor. If a file does not exist, a new `,
       `one will be created.`,
       ` `,
       `If a glob is provided as the only argument, ${command} can crawl directories and open all matching `,
@@ -148,6 +158,13 @@ export const HelpTexts: Record<string, string[]> = {
     " ",
     "    cat servers.txt",
     " ",
+    "When the output of cat is piped or redirected, the content of scripts and text files is printed instead of ",
+    "being shown in a dialog box. Without a file name, cat prints the output of the previous command:",
+    " ",
+    "    cat log.txt | grep ERROR",
+    " ",
+    "    ps | cat > processes.txt",
+    " ",
   ],
   cd: [
     "Usage: cd [dir]",
@@ -199,6 +216,17 @@ export const HelpTexts: Record<string, string[]> = {
     " ",
   ],
   cp: ["Usage: cp [src] [dest]", " ", "Copy a file on this server. To copy a file to another server use scp.", " "],
+  deps: [
+    "Usage: deps [script]",
+    " ",
+    "Displays the import graph of a script: the modules that it imports, the modules that those import, and so on. ",
+    "For each module, displays the RAM cost of the functions that are used in its code, and the most expensive of ",
+    "them. A function that is used in several modules counts for each of them. Modules that import each other, ",
+    "directly or through other modules, are highlighted as cycles.",
+    " ",
+    "    deps hack.js",
+    " ",
+  ],
   download: [
     "Usage: download [script/text file]",
     " ",
@@ -226,6 +254,46 @@ export const HelpTexts: Record<string, string[]> = {
     " ",
     "Note that letters (non-digits) are not allowed and will be removed from the input.",
     " ",
+    "The exit status of expr is 1 if the result is 0, so it can be used as the condition of an if statement.",
+    " ",
+  ],
+  echo: [
+    "Usage: echo [text...]",
+    " ",
+    "Prints the text to the terminal. Example:",
+    " ",
+    "    echo Target: $TARGET",
+    " ",
+  ],
+  export: [
+    "Usage: export [name=value...] [name...]",
+    " ",
+    "Sets variables that are available at the prompt and in all shell scripts, until the game is reloaded. ",
+    "'export name' exports a variable that was already set with 'name=value'. Without arguments, all exported ",
+    "variables are printed.",
+    " ",
+  ],
+  shell: [
+    "The terminal understands a small shell language, which can be used at the prompt or in shell scripts.",
+    " ",
+    "Variables are set with 'name=value' and used with $name or ${name}. They are not replaced inside single quotes ",
+    "or when the $ is escaped as \\$, and variables that are not set are left as they are.",
+    "$? is the exit status of the last command: 0 if it succeeded, or 1 if it failed (e.g. it printed an error, or ",
+    "grep found nothing). Variables are only available where they were set, unless they are exported with 'export'.",
+    " ",
+    "Conditionals run the commands of the first branch whose condition has exit status 0:",
+    " ",
+    "    if grep -q hack.js files.txt; then run hack.js; elif [command]; then [commands]; else [commands]; fi",
+    " ",
+    "Loops run their commands once for each word:",
+    " ",
+    "    for server in n00dles foodnstuff; do scp hack.js $server; done",
+    " ",
+    "Shell scripts are text files with the .sh extension, with one command per line. Lines starting with # are ",
+    "comments. They are run like other scripts (run boot.sh or ./boot.sh), and their arguments are available as ",
+    "$1, $2, etc., with $# as the number of arguments and $@ as all of them. At the prompt, these are left as they ",
+    "are. 'exit [status]' stops a shell script.",
+    " ",
   ],
   free: [
     "Usage: free",
@@ -270,7 +338,8 @@ export const HelpTexts: Record<string, string[]> = {
     " ",
     "Regular OPTIONs may be combined into one. Context, max-count and output OPTIONs must be separated. Example: grep test -VnH* -O output.txt -C 5",
     "By default PATTERN is interpreted as a simple string.",
-    "At least one FILE argument must be passed, or pass -*/--search-all to search all files.",
+    "At least one FILE argument must be passed, or pass -*/--search-all to search all files, unless the output of ",
+    "another command is piped into grep. Example: ls | grep .js",
     "The argument immediately following -m, -O and -B/A/C will be interpreted as the parameter for that OPTION.",
     'If encountering difficulties with argument parsing, consider explicitly passing a string as PATTERN. Example: grep -G "(complex|regexp|\\w+)" script.js',
     " ",
@@ -301,10 +370,16 @@ export const HelpTexts: Record<string, string[]> = {
     " ",
   ],
   history: [
-    "Usage: history [-c]",
+    "Usage: history [-c] [script]",
     " ",
     "Without arguments, displays the terminal command history. To clear the history, pass in the '-c' argument.",
     " ",
+    "With a script, lists the previous versions of that script, the most recent first. A version is kept each time ",
+    "the script is overwritten, e.g. by saving it in the editor or with wget. The revision history is disabled by ",
+    "default: set the number of versions that are kept in the options. Use the revert command to restore one of them.",
+    " ",
+    "    history hack.js",
+    " ",
   ],
   home: [
     "Usage: home",
@@ -395,6 +470,15 @@ export const HelpTexts: Record<string, string[]> = {
   ],
   nano: TemplatedHelpTexts.scriptEditor("nano"),
   ps: ["Usage: ps", " ", "Prints all scripts that are running on the current server", " "],
+  revert: [
+    "Usage: revert [script] [n]",
+    " ",
+    "Restores version n of a script, as listed by 'history [script]'. The current code is kept as the most recent ",
+    "version, so 'revert [script] 1' undoes a revert. Example:",
+    " ",
+    "    revert hack.js 2",
+    " ",
+  ],
   rm: [
     "Usage: rm [OPTION]... [FILE]...",
     " ",
@@ -413,7 +497,7 @@ export const HelpTexts: Record<string, string[]> = {
     "Note that if you use rm to remove a file, the contents of the file will be lost. This is irreversible.",
   ],
   run: [
-    "Usage: run [file name] [-t num_threads] [--tail] [--ram-override ram_in_GBs] [args...]",
+    "Usage: run [file name] [-t num_threads] [--tail] [--ram-override ram_in_GBs] [--record] [--replay trace_file] [args...]",
     " ",
     "Execute a program, script or coding contract.",
     " ",
@@ -428,6 +512,21 @@ export const HelpTexts: Record<string, string[]> = {
     "[args...] represents a variable number of arguments that will be passed into the script. See the documentation ",
     "about script arguments. Each specified argument must be separated by a space. ",
     " ",
+    "Scripts that export a flag schema (see ns.flags) as 'flagSchema' have their flags checked before they are run, ",
+    "and 'run [script] --help' prints the flags of the script instead of running it.",
+    " ",
+    "The '--record' flag records every ns call of the script and its result. When the script ends, they are written ",
+    "to a trace file next to the script, e.g. hack-12.trace.json for hack.js with pid 12. The '--replay' flag runs ",
+    "the script with the recorded results instead of calling the ns functions, so that it takes the same path as in ",
+    "the recorded run, e.g. to reproduce a bug. Functions that only affect the script itself, like ns.print, still ",
+    "run. Unless they are given, the args and threads of the recorded run are used. The replay stops with an error ",
+    "if the script makes a different call than in the recorded run. Functions that return objects with methods, ",
+    "like ns.getPortHandle and ns.getChannel, can't be recorded or replayed: they throw an error. Example:",
+    " ",
+    "    run hack.js --replay hack-12.trace.json",
+    " ",
+    "Shell scripts (.sh) are text files with terminal commands. See 'help shell'.",
+    " ",
   ],
   scan: [
     "Usage: scan",
@@ -459,7 +558,7 @@ export const HelpTexts: Record<string, string[]> = {
     "Usage: scp [file names...] [target server]",
     " ",
     "Copies the specified file(s) from the current server to the target server. ",
-    "This command only works for script files (.js, .jsx, .ts, .tsx, .script), text files (.txt, .json), ",
+    "This command only works for script files (.js, .jsx, .ts, .tsx, .script), text files (.txt, .json, .sh), ",
     "and literature files (.lit).",
     "The second argument passed in must be the hostname or IP of the target server. Examples:",
     " ",
@@ -483,13 +582,44 @@ export const HelpTexts: Record<string, string[]> = {
     " ",
     "    tail foo.script 10 50000",
     " ",
+    "When the output of tail is piped or redirected, the logs are printed instead of opening the log window.",
+    " ",
+    "Usage: [command] | tail [-n lines]",
+    " ",
+    "Prints the last lines (10 by default) of the output of the previous command.",
+    " ",
+  ],
+  test: [
+    "Usage: test [paths...]",
+    " ",
+    "Runs the tests of test files and prints which tests passed and which failed. Test files are scripts whose names ",
+    "end with .test.js, .test.jsx, .test.ts or .test.tsx. The paths can be test files or directories, by default all ",
+    "test files in the current directory and its subdirectories are run.",
+    " ",
+    "A test file exports a function named tests, which is called with describe, it, expect and fn. Tests don't run ",
+    "as scripts and use no RAM. Each test gets a mocked ns object, whose functions record their calls and return ",
+    "undefined unless told otherwise. See the TestContext type of the API documentation for details. Example: ",
+    " ",
+    "    import { add } from 'lib/math.js';",
+    "    export function tests({ describe, it, expect }) {",
+    "      describe('add', () => {",
+    "        it('adds numbers', () => {",
+    "          expect(add(1, 2)).toBe(3);",
+    "        });",
+    "      });",
+    "    }",
+    " ",
   ],
   top: [
-    "Usage: top",
+    "Usage: top [-i]",
     " ",
     "Prints a list of all scripts running on the current server as well as their thread count and how much ",
     "RAM they are using in total.",
     " ",
+    "With -i or --interactive, opens a full-screen view of the scripts running on all servers that refreshes ",
+    "every second. Press m, t, i, u or p to sort by RAM, threads, income, uptime or pid (press again to reverse ",
+    "the order), the arrow keys to select a script, k to kill the selected script and q to quit.",
+    " ",
   ],
   unalias: [
     "Usage: unalias [alias name]",
@@ -521,7 +651,7 @@ export const HelpTexts: Record<string, string[]> = {
     "Usage: wget [url] [target file]",
     " ",
     "Retrieves data from a URL and downloads it to a file on the current server. The data can only ",
-    "be downloaded to a script (.js, .jsx, .ts, .tsx, .script) or a text file (.txt, .json).",
+    "be downloaded to a script (.js, .jsx, .ts, .tsx, .script) or a text file (.txt, .json, .sh).",
     "If the file already exists, it will be overwritten by this command.",
     " ",
     "Note that it will not be possible to download data from many websites because they do not allow ",
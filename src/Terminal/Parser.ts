@@ -25,11 +25,173 @@ export function parseCommands(commandsText: string): string[] {
   return commands;
 }
 
+/** A command whose output can be piped into other commands and redirected to a file */
+export interface Pipeline {
+  /** The commands connected by pipes. The output of each command is the input of the next one. */
+  commands: string[];
+  /** File that the output of the last command is written to (">") or appended to (">>"), if any */
+  redirect: { filename: string; append: boolean } | null;
+}
+
+/** Split text on each occurrence of a character that is not inside quotes */
+function splitUnquoted(text: string, separator: string): string[] {
+  const parts = [""];
+  let quote: string | null = null;
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push("");
+      continue;
+    }
+    parts[parts.length - 1] += char;
+  }
+  return parts;
+}
+
+/** parse a single command (as split by parseCommands) into a pipeline. Throws on invalid pipes or redirections. */
+export function parsePipeline(command: string): Pipeline {
+  const commands = splitUnquoted(command, "|").map((command) => command.trim());
+  if (commands.some((command) => !command)) throw new Error("Invalid pipe: missing command before or after '|'");
+
+  // Only the output of the last command can be redirected.
+  const [lastCommand, ...redirectParts] = splitUnquoted(commands[commands.length - 1], ">").map((part, i) =>
+    // Keep whitespace in the part between the two characters of ">>", to tell it apart from "> >".
+    i === 1 ? part : part.trim(),
+  );
+  if (commands.slice(0, -1).some((command) => splitUnquoted(command, ">").length > 1)) {
+    throw new Error("Invalid redirection: only the output of the last command can be redirected");
+  }
+  commands[commands.length - 1] = lastCommand;
+  if (!redirectParts.length) return { commands, redirect: null };
+
+  // ">" splits into one part, ">>" into two parts of which the first is empty.
+  const append = redirectParts.length === 2 && !redirectParts[0];
+  const target = redirectParts[redirectParts.length - 1].trim();
+  if (!lastCommand || redirectParts.length > 2 || (redirectParts.length === 2 && !append) || !target) {
+    throw new Error("Invalid redirection. Usage: [command] > [file] or [command] >> [file]");
+  }
+  if (parseCommand(target).length !== 1) throw new Error(`Invalid redirection target: ${target}`);
+  return { commands, redirect: { filename: trimQuotes(target), append } };
+}
+
+// Match every command arg in a given command string
+const argDetection = /(?:([^ ;"']*"[^"]*"|[^ ;"']*'[^']*'|[^\s]+))/g;
+
 /** get a commandArgs array from a single command string */
 export function parseCommand(command: string): (string | number | boolean)[] {
-  // Match every command arg in a given command string
-  const argDetection = /(?:([^ ;"']*"[^"]*"|[^ ;"']*'[^']*'|[^\s]+))/g;
   const commandArgs = command.match(argDetection);
   if (!commandArgs) return [];
   return commandArgs.map(parseArg);
 }
+
+/** split text into words like parseCommand does, without converting them to numbers or booleans */
+export function parseWords(text: string): string[] {
+  return (text.match(argDetection) ?? []).map(trimQuotes);
+}
+
+/** A statement of a shell script. Commands are kept as strings, since variables are only expanded when they run. */
+export type ShellStatement =
+  | { type: "command"; command: string }
+  | { type: "if"; branches: { condition: string; body: ShellStatement[] }[]; elseBody: ShellStatement[] }
+  | { type: "for"; variable: string; words: string; body: ShellStatement[] };
+
+/** Keywords that end or continue a block, and are not statements by themselves */
+const blockKeywords = ["then", "elif", "else", "fi", "do", "done"];
+
+function splitFirstWord(command: string): [string, string] {
+  const match = /^(\S+)\s*([^]*)$/.exec(command);
+  return match ? [match[1], match[2]] : ["", ""];
+}
+
+/** Keywords that start a block may be followed by a command, e.g. "then ls". That command is split off. */
+function splitBlockStarts(commands: string[]): string[] {
+  return commands.flatMap((command) => {
+    const [keyword, rest] = splitFirstWord(command);
+    return ["then", "else", "do"].includes(keyword) && rest ? [keyword, rest] : [command];
+  });
+}
+
+class ShellScriptParser {
+  commands: string[];
+  index = 0;
+
+  constructor(commands: string[]) {
+    this.commands = splitBlockStarts(commands);
+  }
+
+  /** Parse statements until one of the terminators. Returns the terminator and the text that follows it. */
+  parseBlock(terminators: string[]): { statements: ShellStatement[]; terminator: string; rest: string } {
+    const statements: ShellStatement[] = [];
+    while (this.index < this.commands.length) {
+      const command = this.commands[this.index++];
+      const [keyword, rest] = splitFirstWord(command);
+      if (terminators.includes(keyword)) {
+        if (rest && keyword !== "elif") throw new Error(`Unexpected text after '${keyword}': ${rest}`);
+        return { statements, terminator: keyword, rest };
+      }
+      if (blockKeywords.includes(keyword)) throw new Error(`Unexpected '${keyword}'`);
+      if (keyword === "if") statements.push(this.parseIf(rest));
+      else if (keyword === "for") statements.push(this.parseFor(rest));
+      else statements.push({ type: "command", command });
+    }
+    if (terminators.length) throw new Error(`Missing '${terminators[terminators.length - 1]}'`);
+    return { statements, terminator: "", rest: "" };
+  }
+
+  expect(keyword: string, after: string): void {
+    if (this.commands[this.index] !== keyword) throw new Error(`Missing '${keyword}' after '${after}'`);
+    this.index++;
+  }
+
+  parseIf(condition: string): ShellStatement {
+    const branches: { condition: string; body: ShellStatement[] }[] = [];
+    let elseBody: ShellStatement[] = [];
+    for (;;) {
+      if (!condition) throw new Error("Missing condition after 'if'");
+      this.expect("then", `if ${condition}`);
+      const { statements, terminator, rest } = this.parseBlock(["elif", "else", "fi"]);
+      branches.push({ condition, body: statements });
+      if (terminator === "else") elseBody = this.parseBlock(["fi"]).statements;
+      if (terminator !== "elif") return { type: "if", branches, elseBody };
+      condition = rest;
+    }
+  }
+
+  parseFor(header: string): ShellStatement {
+    const match = /^([A-Za-z_]\w*)\s+in(?:\s+([^]*))?$/.exec(header);
+    if (!match) throw new Error("Invalid for loop. Usage: for [name] in [words...]; do [commands]; done");
+    this.expect("do", `for ${header}`);
+    const { statements } = this.parseBlock(["done"]);
+    return { type: "for", variable: match[1], words: match[2] ?? "", body: statements };
+  }
+}
+
+/** parse the commands of a shell script (as split by parseCommands) into statements. Throws on invalid blocks. */
+export function parseShellScript(commands: string[]): ShellStatement[] {
+  return new ShellScriptParser(commands).parseBlock([]).statements;
+}
+
+/**
+ * Substitute $NAME, ${NAME} and special variables like $? and $1 in a command. Single quoted text is kept as is, \$ is
+ * a literal $, and variables for which getVariable returns undefined are left untouched.
+ */
+export function expandVariables(command: string, getVariable: (name: string) => string | undefined): string {
+  const variableRegex = /\\\$|\$\{(\w+)\}|\$(\w+|[?#@])/g;
+  const expand = (text: string) =>
+    text.replace(variableRegex, (match, braced, plain) => {
+      if (match === "\\$") return "$";
+      return getVariable(braced ?? plain) ?? match;
+    });
+  return command.replace(/"[^"]*"|'[^']*'|\\\$|\$\{\w+\}|\$(?:\w+|[?#@])/g, (match) =>
+    match.startsWith("'") ? match : expand(match),
+  );
+}
+
+/** The name and value of a variable assignment (NAME=value), or null if the command is not an assignment */
+export function parseAssignment(command: string): [string, string] | null {
+  const match = /^([A-Za-z_]\w*)=([^]*)$/.exec(command);
+  return match ? [match[1], match[2]] : null;
+}
@@ -18,10 +18,21 @@ import { GetServer } from "../Server/AllServers";
 import { checkIfConnectedToDarkweb } from "../DarkWeb/DarkWeb";
 import { iTutorialNextStep, iTutorialSteps, ITutorial } from "../InteractiveTutorial";
 import { processSingleServerGrowth, getWeakenEffect } from "../Server/ServerHelpers";
-import { parseCommand, parseCommands } from "./Parser";
+import {
+  Pipeline,
+  ShellStatement,
+  expandVariables,
+  parseAssignment,
+  parseCommand,
+  parseCommands,
+  parsePipeline,
+  parseShellScript,
+  parseWords,
+} from "./Parser";
 import { SpecialServers } from "../Server/data/SpecialServers";
 import { Settings } from "../Settings/Settings";
 import { createProgressBarText } from "../utils/helpers/createProgressBarText";
+import { trimQuotes } from "../utils/helpers/string";
 import {
   calculateHackingChance,
   calculateHackingExpGain,
@@ -43,7 +54,9 @@ import { cd } from "./commands/cd";
 import { check } from "./commands/check";
 import { connect } from "./commands/connect";
 import { cp } from "./commands/cp";
+import { deps } from "./commands/deps";
 import { download } from "./commands/download";
+import { echo } from "./commands/echo";
 import { expr } from "./commands/expr";
 import { free } from "./commands/free";
 import { grep } from "./commands/grep";
@@ -61,6 +74,7 @@ import { mem } from "./commands/mem";
 import { mv } from "./commands/mv";
 import { nano } from "./commands/nano";
 import { ps } from "./commands/ps";
+import { revert } from "./commands/revert";
 import { rm } from "./commands/rm";
 import { run } from "./commands/run";
 import { scan } from "./commands/scan";
@@ -68,6 +82,7 @@ import { scananalyze } from "./commands/scananalyze";
 import { scp } from "./commands/scp";
 import { sudov } from "./commands/sudov";
 import { tail } from "./commands/tail";
+import { test } from "./commands/runTests";
 import { top } from "./commands/top";
 import { unalias } from "./commands/unalias";
 import { vim } from "./commands/vim";
@@ -81,7 +96,7 @@ import { currentNodeMults } from "../BitNode/BitNodeMultipliers";
 import { Engine } from "../engine";
 import { Directory, resolveDirectory, root } from "../Paths/Directory";
 import { FilePath, isFilePath, resolveFilePath } from "../Paths/FilePath";
-import { hasTextExtension } from "../Paths/TextFilePath";
+import { TextFilePath, hasTextExtension } from "../Paths/TextFilePath";
 import { ContractFilePath } from "../Paths/ContractFilePath";
 import { ServerConstants } from "../Server/data/Constants";
 
@@ -99,7 +114,9 @@ export const TerminalCommands: Record<string, (args: (string | number | boolean)
   cls: clear,
   connect: connect,
   cp: cp,
+  deps: deps,
   download: download,
+  echo: echo,
   expr: expr,
   free: free,
   grep: grep,
@@ -117,12 +134,14 @@ export const TerminalCommands: Record<string, (args: (string | number | boolean)
   mv: mv,
   nano: nano,
   ps: ps,
+  revert: revert,
   rm: rm,
   run: run,
   scan: scan,
   scp: scp,
   sudov: sudov,
   tail: tail,
+  test: test,
   apr1: apr1,
   top: top,
   unalias: unalias,
@@ -131,6 +150,26 @@ export const TerminalCommands: Record<string, (args: (string | number | boolean)
   wget: wget,
 };
 
+/** Variables and arguments of a running shell script, or of the terminal prompt */
+interface ShellScope {
+  /** Path of the script, or "terminal" at the prompt. Available as $0 */
+  name: string;
+  /** Available as $1, $2, etc. */
+  args: string[];
+  variables: Map<string, string>;
+}
+
+/** Thrown by the exit builtin to stop a shell script */
+class ShellExit {
+  status: number;
+  constructor(status: number) {
+    this.status = status;
+  }
+}
+
+/** Shell scripts can run shell scripts, but not endlessly */
+const maxShellScriptDepth = 16;
+
 export class Terminal {
   // Flags to determine whether the player is currently running a hack or an analyze
   action: TTimer | null = null;
@@ -148,6 +187,23 @@ export class Terminal {
   // Path of current directory
   currDir = "" as Directory;
 
+  /** Text piped into the command that is being executed, or null if its input is not piped */
+  stdin: string | null = null;
+
+  /** Lines printed by the command that is being executed, while its output is piped or redirected */
+  capturedOutput: string[] | null = null;
+
+  /** Exit status of the last command, available as $?. Commands fail with status 1 when they print an error. */
+  exitStatus = 0;
+
+  /** Variables set at the prompt */
+  promptScope: ShellScope = { name: "terminal", args: [], variables: new Map() };
+
+  /** Exported variables, available at the prompt and in all shell scripts */
+  environment = new Map<string, string>();
+
+  shellScriptDepth = 0;
+
   process(cycles: number): void {
     if (this.action === null) return;
     this.action.timeLeft -= (CONSTANTS.MilliPerCycle * cycles) / 1000;
@@ -162,8 +218,19 @@ export class Terminal {
     TerminalEvents.emit();
   }
 
+  /** Whether printed text is captured instead of shown. Commands that print React nodes print plain text instead. */
+  isOutputCaptured(): boolean {
+    return this.capturedOutput !== null;
+  }
+
+  /** Output of commands can be captured, errors and warnings are always shown */
+  printOutput(s: string, color: "primary" | "success" | "info"): void {
+    if (this.capturedOutput) this.capturedOutput.push(s);
+    else this.append(new Output(s, color));
+  }
+
   print(s: string): void {
-    this.append(new Output(s, "primary"));
+    this.printOutput(s, "primary");
   }
 
   printRaw(node: React.ReactNode): void {
@@ -171,15 +238,16 @@ export class Terminal {
   }
 
   error(s: string): void {
+    this.exitStatus = 1;
     this.append(new Output(s, "error"));
   }
 
   success(s: string): void {
-    this.append(new Output(s, "success"));
+    this.printOutput(s, "success");
   }
 
   info(s: string): void {
-    this.append(new Output(s, "info"));
+    this.printOutput(s, "info");
   }
 
   warn(s: string): void {
@@ -609,7 +677,128 @@ export class Terminal {
     }
     this.commandHistoryIndex = this.commandHistory.length;
     const allCommands = parseCommands(commands);
-    for (const command of allCommands) this.executeCommand(command);
+    this.executeShellCommands(allCommands, this.promptScope);
+  }
+
+  executeShellCommands(commands: string[], scope: ShellScope): void {
+    let statements: ShellStatement[];
+    try {
+      statements = parseShellScript(commands);
+    } catch (e) {
+      return this.error(e instanceof Error ? e.message : String(e));
+    }
+    this.executeStatements(statements, scope);
+  }
+
+  executeStatements(statements: ShellStatement[], scope: ShellScope): void {
+    for (const statement of statements) {
+      switch (statement.type) {
+        case "command":
+          this.executeShellCommand(statement.command, scope);
+          break;
+        case "if": {
+          // The body of the first branch whose condition succeeds is executed
+          let body = statement.elseBody;
+          for (const branch of statement.branches) {
+            this.executeShellCommand(branch.condition, scope);
+            if (this.exitStatus !== 0) continue;
+            body = branch.body;
+            break;
+          }
+          // Without a body to run, the statement succeeds even if the conditions failed
+          if (!body.length) this.exitStatus = 0;
+          this.executeStatements(body, scope);
+          break;
+        }
+        case "for":
+          this.exitStatus = 0;
+          for (const word of parseWords(this.expandVariables(statement.words, scope))) {
+            this.setVariable(statement.variable, word, scope);
+            this.executeStatements(statement.body, scope);
+          }
+          break;
+      }
+    }
+  }
+
+  /** Executes a command after expanding its variables. Assignments, export and exit are handled here. */
+  executeShellCommand(command: string, scope: ShellScope): void {
+    const assignment = parseAssignment(command);
+    if (assignment) {
+      const [name, value] = assignment;
+      this.setVariable(name, trimQuotes(this.expandVariables(value, scope)), scope);
+      this.exitStatus = 0;
+      return;
+    }
+
+    const expanded = this.expandVariables(command, scope);
+    this.exitStatus = 0;
+    const [commandName, ...args] = parseWords(expanded);
+    if (commandName === "export") return this.exportVariables(args, scope);
+    if (commandName === "exit") {
+      const status = Number(args[0] ?? 0);
+      if (scope === this.promptScope) return this.error("exit can only be used in shell scripts");
+      if (args.length > 1 || !Number.isInteger(status))
+        return this.error("Incorrect usage of exit. Usage: exit [status]");
+      throw new ShellExit(status);
+    }
+    this.executeCommand(expanded);
+  }
+
+  expandVariables(text: string, scope: ShellScope): string {
+    // Unknown variables are left untouched, so that text like "$5" isn't lost. The arguments only exist in shell
+    // scripts, so they are left untouched at the prompt.
+    return expandVariables(text, (name) => {
+      if (name === "?") return String(this.exitStatus);
+      if (/^(\d+|[#@])$/.test(name) && scope === this.promptScope) return undefined;
+      if (name === "#") return String(scope.args.length);
+      if (name === "@") return scope.args.map((arg) => (/\s/.test(arg) ? `"${arg}"` : arg)).join(" ");
+      if (name === "0") return scope.name;
+      if (/^\d+$/.test(name)) return scope.args[Number(name) - 1];
+      return scope.variables.get(name) ?? this.environment.get(name);
+    });
+  }
+
+  setVariable(name: string, value: string, scope: ShellScope): void {
+    if (this.environment.has(name)) this.environment.set(name, value);
+    else scope.variables.set(name, value);
+  }
+
+  /** Usage: export [name[=value]...]. Without arguments, all exported variables are printed. */
+  exportVariables(args: string[], scope: ShellScope): void {
+    if (!args.length) {
+      for (const [name, value] of this.environment) this.print(`export ${name}=${value}`);
+      return;
+    }
+    for (const arg of args) {
+      const assignment = parseAssignment(arg);
+      const name = assignment ? assignment[0] : arg;
+      if (!/^[A-Za-z_]\w*$/.test(name)) return this.error(`export: invalid variable name ${arg}`);
+      const value = assignment ? trimQuotes(assignment[1]) : scope.variables.get(name) ?? this.environment.get(name);
+      scope.variables.delete(name);
+      this.environment.set(name, value ?? "");
+    }
+  }
+
+  /** Runs the commands of a text file, with the arguments available as $1, $2, etc */
+  runShellScript(path: TextFilePath, args: string[], server: BaseServer): void {
+    const file = server.textFiles.get(path);
+    if (!file) return this.error(`No file at path ${path}`);
+    if (this.shellScriptDepth >= maxShellScriptDepth) {
+      return this.error(`Cannot run ${path}: more than ${maxShellScriptDepth} nested shell scripts`);
+    }
+    // Lines starting with # are comments, which includes a "#!" line at the start of the script
+    const lines = file.content.split("\n").filter((line) => !line.trim().startsWith("#"));
+    const scope: ShellScope = { name: path, args, variables: new Map() };
+    this.shellScriptDepth++;
+    try {
+      this.executeShellCommands(lines.flatMap(parseCommands), scope);
+    } catch (e) {
+      if (!(e instanceof ShellExit)) throw e;
+      this.exitStatus = e.status;
+    } finally {
+      this.shellScriptDepth--;
+    }
   }
 
   clear(): void {
@@ -626,6 +815,54 @@ export class Terminal {
   executeCommand(command: string): void {
     if (this.action !== null) return this.error(`Cannot execute command (${command}) while an action is in progress`);
 
+    let pipeline: Pipeline;
+    try {
+      pipeline = parsePipeline(command);
+    } catch (e) {
+      return this.error(e instanceof Error ? e.message : String(e));
+    }
+    if (pipeline.commands.length === 1 && !pipeline.redirect) return this.executeSingleCommand(command);
+    this.executePipeline(pipeline);
+  }
+
+  /**
+   * Only output that is printed synchronously is piped, so commands that take time (e.g. hack) are shown as usual.
+   * The redirection target is resolved after the commands ran, so that e.g. "connect n00dles > out.txt" writes to the
+   * server and directory that are current at that point.
+   */
+  executePipeline({ commands, redirect }: Pipeline): void {
+    const getRedirectPath = (filename: string): TextFilePath | null => {
+      const path = this.getFilepath(filename);
+      if (path && hasTextExtension(path)) return path;
+      this.error(`Invalid redirection target ${filename}. Output can only be written to text files.`);
+      return null;
+    };
+    if (redirect && !getRedirectPath(redirect.filename)) return;
+
+    let output: string | null = null;
+    try {
+      for (const [i, command] of commands.entries()) {
+        this.stdin = output;
+        const isShown = i === commands.length - 1 && !redirect;
+        this.capturedOutput = isShown ? null : [];
+        this.executeSingleCommand(command);
+        output = this.capturedOutput?.join("\n") ?? null;
+      }
+    } finally {
+      this.stdin = null;
+      this.capturedOutput = null;
+    }
+    if (!redirect || output === null) return;
+
+    const redirectPath = getRedirectPath(redirect.filename);
+    if (!redirectPath) return;
+    const server = Player.getCurrentServer();
+    const previousContent = redirect.append ? server.getContentFile(redirectPath)?.content : undefined;
+    server.writeToContentFile(redirectPath, previousContent ? `${previousContent}\n${output}` : output);
+  }
+
+  executeSingleCommand(command: string): void {
+    this.exitStatus = 0;
     const commandArray = parseCommand(command);
     if (!commandArray.length) return;
 
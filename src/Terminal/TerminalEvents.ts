@@ -1,3 +1,5 @@
 import { EventEmitter } from "../utils/EventEmitter";
 export const TerminalEvents = new EventEmitter<[]>();
 export const TerminalClearEvents = new EventEmitter<[]>();
+/** Emitted by top -i to show the interactive process viewer in place of the terminal */
+export const TerminalTopEvents = new EventEmitter<[]>();
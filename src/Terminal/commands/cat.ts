@@ -8,6 +8,8 @@ import { hasTextExtension } from "../../Paths/TextFilePath";
 import { isMember } from "../../utils/EnumHelper";
 
 export function cat(args: (string | number | boolean)[], server: BaseServer): void {
+  // Piped input is printed as is, e.g. to write it to a file with "cat > file.txt"
+  if (args.length === 0 && Terminal.stdin !== null) return Terminal.print(Terminal.stdin);
   if (args.length !== 1) return Terminal.error("Incorrect usage of cat command. Usage: cat [file]");
 
   const relative_filename = args[0] + "";
@@ -17,11 +19,12 @@ export function cat(args: (string | number | boolean)[], server: BaseServer): vo
   if (hasScriptExtension(path) || hasTextExtension(path)) {
     const file = server.getContentFile(path);
     if (!file) return Terminal.error(`No file at path ${path}`);
+    if (Terminal.isOutputCaptured()) return Terminal.print(file.content);
     return dialogBoxCreate(`${file.filename}\n\n${file.content}`);
   }
   if (!path.endsWith(".msg") && !path.endsWith(".lit")) {
     return Terminal.error(
-      "Invalid file extension. Filename must end with .msg, .lit, a script extension (.js, .jsx, .ts, .tsx, .script) or a text extension (.txt, .json)",
+      "Invalid file extension. Filename must end with .msg, .lit, a script extension (.js, .jsx, .ts, .tsx, .script) or a text extension (.txt, .json, .sh)",
     );
   }
 
@@ -0,0 +1,58 @@
+import { Terminal } from "../../Terminal";
+import { BaseServer } from "../../Server/BaseServer";
+import type { ScriptFilePath } from "../../Paths/ScriptFilePath";
+import { type DependencyGraph, getDependencyGraph } from "../../Script/DependencyGraph";
+import { formatRam } from "../../ui/formatNumber";
+
+/** The costs that a module adds the most, e.g. "singularity.installAugmentations 32.00GB, hack 0.10GB" */
+function formatTopEntries(graph: DependencyGraph, filename: ScriptFilePath): string {
+  const entries = [...(graph.modules.get(filename)?.entries ?? [])].sort((a, b) => b.cost - a.cost);
+  const top = entries.slice(0, 3).map((entry) => `${entry.name} ${formatRam(entry.cost)}`);
+  if (entries.length > top.length) top.push(`${entries.length - top.length} more`);
+  return top.length > 0 ? ` (${top.join(", ")})` : "";
+}
+
+/** Prints a module and, the first time it is printed, the modules it imports */
+function printModule(
+  graph: DependencyGraph,
+  filename: ScriptFilePath,
+  prefix: string,
+  childPrefix: string,
+  printed: Set<ScriptFilePath>,
+): void {
+  const node = graph.modules.get(filename);
+  if (!node) return;
+  const repeated = printed.has(filename);
+  const line =
+    `${prefix}${filename} ${formatRam(node.ram)}${formatTopEntries(graph, filename)}` +
+    (node.inCycle ? " [cycle]" : "") +
+    (repeated ? " (see above)" : "");
+  if (node.inCycle) Terminal.warn(line);
+  else Terminal.print(line);
+  if (repeated) return;
+  printed.add(filename);
+  if (node.error) Terminal.error(`${childPrefix}${node.error}`);
+  node.imports.forEach((imported, index) => {
+    const last = index === node.imports.length - 1;
+    printModule(graph, imported, childPrefix + (last ? "└─ " : "├─ "), childPrefix + (last ? "   " : "│  "), printed);
+  });
+}
+
+export function deps(args: (string | number | boolean)[], server: BaseServer): void {
+  if (args.length !== 1) return Terminal.error("Incorrect usage of deps command. Usage: deps [script]");
+  const script = Terminal.getScript(args[0] + "");
+  if (!script) return Terminal.error(`No such script: ${args[0]}`);
+
+  const graph = getDependencyGraph(script.code, script.filename, server.hostname, server.scripts);
+  if (graph.ram.cost !== undefined) {
+    Terminal.print(`${script.filename} requires ${formatRam(graph.ram.cost)} of RAM. RAM added by each module:`);
+  } else {
+    Terminal.error(
+      `Cannot calculate the RAM usage of ${script.filename}: ${graph.ram.errorMessage ?? "unknown error"}`,
+    );
+  }
+  printModule(graph, graph.root, "", "", new Set());
+  for (const cycle of graph.cycles) {
+    Terminal.warn(`Import cycle: ${[...cycle, cycle[0]].join(" -> ")}`);
+  }
+}
@@ -0,0 +1,5 @@
+import { Terminal } from "../../Terminal";
+
+export function echo(args: (string | number | boolean)[]): void {
+  Terminal.print(args.join(" "));
+}
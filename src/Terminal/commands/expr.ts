@@ -17,4 +17,6 @@ export function expr(args: (string | number | boolean)[]): void {
     return;
   }
   Terminal.print(result);
+  // Like expr in other shells, the exit status tells whether the result is nonzero, for use in if conditions
+  Terminal.exitStatus = result ? 0 : 1;
 }
@@ -53,6 +53,7 @@ type Options = {
 
   isSearchAll: boolean;
   isPipeIn: boolean;
+  isStdin: boolean;
 
   isMultiFile: boolean;
   hasContextFlag: boolean;
@@ -99,6 +100,7 @@ const VALID_ARGS: ValidArgs<keyof Options> = {
 
   isSearchAll: { short: ["-*"], long: ["--search-all"] },
   isPipeIn: { short: ["-p"], long: ["--pipe-terminal"] },
+  isStdin: { short: [], long: [] },
 
   isHelp: { short: [], long: ["--help"] },
 
@@ -132,6 +134,7 @@ class Args {
 
     isSearchAll: false,
     isPipeIn: false,
+    isStdin: false,
 
     isHelp: false,
 
@@ -295,6 +298,8 @@ class Results {
     const matchCount = Math.abs((options.isInvertMatch ? totalLines : 0) - this.numMatches);
     const inputStr = options.isPipeIn
       ? "piped from terminal "
+      : options.isStdin
+      ? "piped from previous command "
       : `in ${files.length} ${suffix("file", files.length)}:\n`;
     const filesStr = files
       .map((file, i) => `${i % 2 ? WHITE : ""}${file.filename}(${file.content.split("\n").length}loc)${DEFAULT}`)
@@ -370,12 +375,19 @@ function parseFile(lineParser: LineParser, options: Options, file: ContentFile,
 }
 
 function writeToTerminal(
+  rawResult: string[],
   prettyResult: string[],
   options: Options,
   results: Results,
   files: ContentFile[],
   pattern: string | RegExp,
 ): void {
+  // Piped or redirected output is not colored, and not limited by the terminal capacity
+  if (Terminal.isOutputCaptured()) {
+    if (results.areEdited) Terminal.print(rawResult.join("\n"));
+    if (options.isVerbose) Terminal.print(results.getVerboseInfo(files, pattern, options));
+    return;
+  }
   const printResult = prettyResult.slice(0, Math.min(prettyResult.length, Settings.MaxTerminalCapacity)); // limit printing to terminal
   const verboseInfo = results.getVerboseInfo(files, pattern, options);
   const truncateInfo = prettyResult.length !== printResult.length ? ERR.truncated() : "";
@@ -415,7 +427,11 @@ export function grep(args: (string | number | boolean)[], server: BaseServer): v
   const [files, notFiles] = options.isSearchAll ? getServerFiles(server) : getArgFiles(otherArgs.slice(1));
 
   if (notFiles.length) return Terminal.error(ERR.badArgs(notFiles));
-  if (!options.isPipeIn && !options.isSearchAll && !files.length) return Terminal.error(ERR.noSearchArg);
+  // Input piped from a previous command is searched when no files are given
+  options.isStdin = Terminal.stdin !== null && !options.isPipeIn && !options.isSearchAll && otherArgs.length === 1;
+  if (!options.isPipeIn && !options.isStdin && !options.isSearchAll && !files.length) {
+    return Terminal.error(ERR.noSearchArg);
+  }
 
   options.isMultiFile = files.length > 1;
   const outFilePath = checkOutFile(params.outfile, options, server);
@@ -426,12 +442,19 @@ export function grep(args: (string | number | boolean)[], server: BaseServer): v
     const lineParser = parseLine.bind(null, pattern);
     const termParser = lineParser.bind(null, options, "Terminal");
     const fileParser = parseFile.bind(null, lineParser, options);
-    const contentToMatch = options.isPipeIn ? grabTerminal().map(termParser) : files.flatMap(fileParser);
+    const stdinParser = lineParser.bind(null, options, "stdin");
+    const contentToMatch = options.isPipeIn
+      ? grabTerminal().map(termParser)
+      : options.isStdin
+      ? (Terminal.stdin ?? "").split("\n").map(stdinParser)
+      : files.flatMap(fileParser);
     const results = new Results(contentToMatch, options, params);
     const [rawResult, prettyResult] = results.capMatches(nLimit).addContext(nContext).splitAndFilter();
 
     if (options.isPipeIn) files.length = 0;
-    if (!options.isQuiet) writeToTerminal(prettyResult, options, results, files, pattern);
+    // Fails when nothing was selected, so grep can be used as the condition of an if statement
+    Terminal.exitStatus = rawResult.length ? 0 : 1;
+    if (!options.isQuiet) writeToTerminal(rawResult, prettyResult, options, results, files, pattern);
     if (params.outfile && outFilePath) server.writeToContentFile(outFilePath, rawResult.join("\n"));
   } catch (e) {
     Terminal.error("grep processing error: " + e);
@@ -1,7 +1,10 @@
 import { Terminal } from "../../Terminal";
 import { Player } from "@player";
+import { BaseServer } from "../../Server/BaseServer";
+import { hasScriptExtension } from "../../Paths/ScriptFilePath";
+import { Settings } from "../../Settings/Settings";
 
-export function history(args: (string | number | boolean)[]): void {
+export function history(args: (string | number | boolean)[], server: BaseServer): void {
   if (args.length === 0) {
     Terminal.commandHistory.forEach((command, index) => {
       Terminal.print(`${index.toString().padStart(2)} ${command}`);
@@ -9,11 +12,35 @@ export function history(args: (string | number | boolean)[]): void {
     return;
   }
   const arg = args[0] + "";
-  if (arg === "-c" || arg === "--clear") {
+  if (args.length === 1 && (arg === "-c" || arg === "--clear")) {
     Player.terminalCommandHistory = [];
     Terminal.commandHistory = [];
     Terminal.commandHistoryIndex = 1;
+  } else if (args.length === 1 && !arg.startsWith("-")) {
+    scriptHistory(arg, server);
   } else {
-    Terminal.error("Incorrect usage of history command. usage: history [-c]");
+    Terminal.error("Incorrect usage of history command. usage: history [-c] or history [script]");
   }
 }
+
+/** Lists the previous versions of a script, which can be restored with the revert command */
+function scriptHistory(filename: string, server: BaseServer): void {
+  const path = Terminal.getFilepath(filename);
+  if (!path || !hasScriptExtension(path)) return Terminal.error(`Invalid script filename: ${filename}`);
+  const script = server.scripts.get(path);
+  if (!script) return Terminal.error(`No script at path ${path}`);
+  if (script.revisions.length === 0) {
+    if (Settings.MaxScriptRevisions === 0) {
+      return Terminal.print(`${path} has no previous versions. The revision history can be enabled in the options.`);
+    }
+    return Terminal.print(`${path} has no previous versions.`);
+  }
+
+  Terminal.print(`Previous versions of ${path}, the most recent first:`);
+  script.revisions.forEach((revision, index) => {
+    const lines = revision.code.split("\n").length;
+    const date = new Date(revision.timestamp).toLocaleString();
+    Terminal.print(`${(index + 1).toString().padStart(2)} ${date} (${lines} line${lines === 1 ? "" : "s"})`);
+  });
+  Terminal.print(`Use 'revert ${filename} [n]' to restore one of them.`);
+}
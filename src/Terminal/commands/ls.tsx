@@ -199,6 +199,11 @@ export function ls(args: (string | number | boolean)[], server: BaseServer): voi
     | { type: FileType.TextFile; segments: TextFilePath[] };
 
   function postSegments({ type, segments }: FileGroup, flags: LSFlags): void {
+    // Piped or redirected output is plain text, with one file per line.
+    if (Terminal.isOutputCaptured()) {
+      for (const segment of segments) Terminal.print(segment);
+      return;
+    }
     let segmentElements: React.ReactElement[];
     const colSize = flags["-l"]
       ? "100%"
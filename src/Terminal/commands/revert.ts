@@ -0,0 +1,23 @@
+import { Terminal } from "../../Terminal";
+import { BaseServer } from "../../Server/BaseServer";
+import { hasScriptExtension } from "../../Paths/ScriptFilePath";
+
+export function revert(args: (string | number | boolean)[], server: BaseServer): void {
+  if (args.length !== 2) return Terminal.error("Incorrect usage of revert command. Usage: revert [script] [n]");
+  const filename = args[0] + "";
+  const path = Terminal.getFilepath(filename);
+  if (!path || !hasScriptExtension(path)) return Terminal.error(`Invalid script filename: ${filename}`);
+  const script = server.scripts.get(path);
+  if (!script) return Terminal.error(`No script at path ${path}`);
+
+  const n = Number(args[1]);
+  const revision = Number.isInteger(n) ? script.revisions[n - 1] : undefined;
+  if (!revision) {
+    return Terminal.error(
+      `Invalid version: ${args[1]}. ${path} has ${script.revisions.length} previous version(s), see 'history ${filename}'.`,
+    );
+  }
+  // The code that is replaced becomes the most recent version, so that the revert can be undone with "revert [script] 1"
+  server.writeToScriptFile(path, revision.code);
+  Terminal.print(`Reverted ${path} to the version from ${new Date(revision.timestamp).toLocaleString()}.`);
+}
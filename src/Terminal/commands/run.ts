@@ -5,6 +5,7 @@ import { runProgram } from "./runProgram";
 import { hasScriptExtension } from "../../Paths/ScriptFilePath";
 import { hasContractExtension } from "../../Paths/ContractFilePath";
 import { hasProgramExtension } from "../../Paths/ProgramFilePath";
+import { hasShellScriptExtension } from "../../Paths/TextFilePath";
 
 export function run(args: (string | number | boolean)[], server: BaseServer): void {
   // Run a program or a script
@@ -23,6 +24,8 @@ export function run(args: (string | number | boolean)[], server: BaseServer): vo
     return;
   } else if (hasProgramExtension(path)) {
     return runProgram(path, args, server);
+  } else if (hasShellScriptExtension(path)) {
+    return Terminal.runShellScript(path, args.map(String), server);
   }
-  Terminal.error(`Invalid file extension. Only .js, .jsx, .ts, .tsx, .script, .cct, and .exe files can be run.`);
+  Terminal.error(`Invalid file extension. Only .js, .jsx, .ts, .tsx, .script, .cct, .exe and .sh files can be run.`);
 }
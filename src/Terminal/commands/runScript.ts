@@ -11,13 +11,23 @@ import { ScriptFilePath, isLegacyScript } from "../../Paths/ScriptFilePath";
 import { sendDeprecationNotice } from "./common/deprecation";
 import { roundToTwo } from "../../utils/helpers/roundToTwo";
 import { RamCostConstants } from "../../Netscript/RamCostGenerator";
+import { getFlagSchema, getFlagUsage, validateFlags } from "../../Script/FlagSchema";
+import { hasTextExtension } from "../../Paths/TextFilePath";
+import { workerScripts } from "../../Netscript/WorkerScripts";
+import { type ScriptTrace, ScriptRecorder, ScriptReplayer, getTracePath, parseTrace } from "../../Netscript/Recorder";
 
 export function runScript(path: ScriptFilePath, commandArgs: (string | number | boolean)[], server: BaseServer): void {
   // This takes in the absolute filepath, see "run.ts"
   const script = server.scripts.get(path);
   if (!script) return Terminal.error(`Script ${path} does not exist on this server.`);
 
-  const runArgs = { "--tail": Boolean, "-t": Number, "--ram-override": Number };
+  const runArgs = {
+    "--tail": Boolean,
+    "-t": Number,
+    "--ram-override": Number,
+    "--record": Boolean,
+    "--replay": String,
+  };
   let flags;
   try {
     flags = libarg(runArgs, {
@@ -29,7 +39,25 @@ export function runScript(path: ScriptFilePath, commandArgs: (string | number |
     return;
   }
   const tailFlag = flags["--tail"] === true;
-  const numThreads = parseFloat(flags["-t"] ?? 1);
+  const recordFlag = flags["--record"] === true;
+
+  // A replay runs with the args and threads of the recorded run, unless they are given
+  let trace: ScriptTrace | null = null;
+  if (flags["--replay"] !== undefined) {
+    if (recordFlag) return Terminal.error("A script cannot be recorded and replayed at the same time.");
+    const tracePath = Terminal.getFilepath(flags["--replay"]);
+    const traceFile = tracePath && hasTextExtension(tracePath) ? server.getContentFile(tracePath) : null;
+    if (!traceFile) return Terminal.error(`No trace file at path ${flags["--replay"]}`);
+    try {
+      trace = parseTrace(traceFile.content);
+    } catch (error) {
+      return Terminal.error(
+        `Invalid trace file ${flags["--replay"]}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+    if (trace.script !== path) Terminal.warn(`The trace was recorded for ${trace.script}, not for ${path}.`);
+  }
+  const numThreads = parseFloat(flags["-t"] ?? trace?.threads ?? 1);
   const ramOverride = flags["--ram-override"] != null ? roundToTwo(parseFloat(flags["--ram-override"])) : null;
   if (!isPositiveInteger(numThreads)) {
     return Terminal.error("Invalid number of threads specified. Number of threads must be an integer greater than 0");
@@ -39,10 +67,22 @@ export function runScript(path: ScriptFilePath, commandArgs: (string | number |
       `Invalid ram override specified. Ram override must be a number greater than ${RamCostConstants.Base}`,
     );
   }
-  if (!server.hasAdminRights) return Terminal.error("Need root access to run script");
-
   // Todo: Switch out arg for something with typescript support
-  const args = flags._ as ScriptArg[];
+  const args = trace && flags._.length === 0 ? trace.args : (flags._ as ScriptArg[]);
+
+  // Flags are checked before the script is started when the script exports a flag schema
+  try {
+    const flagSchema = getFlagSchema(script);
+    if (flagSchema && args.includes("--help")) {
+      for (const line of getFlagUsage(path, flagSchema)) Terminal.print(line);
+      return;
+    }
+    if (flagSchema) validateFlags(flagSchema, args);
+  } catch (error) {
+    return Terminal.error(`Invalid flags for ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (!server.hasAdminRights) return Terminal.error("Need root access to run script");
 
   const singleRamUsage = ramOverride ?? script.getRamUsage(server.scripts);
   if (!singleRamUsage) {
@@ -67,6 +107,17 @@ export function runScript(path: ScriptFilePath, commandArgs: (string | number |
   const success = startWorkerScript(runningScript, server);
   if (!success) return Terminal.error(`Failed to start script`);
 
+  // The script makes its first ns call asynchronously, after the recorder or replayer is set
+  const workerScript = workerScripts.get(runningScript.pid);
+  if (workerScript && recordFlag) {
+    workerScript.recorder = new ScriptRecorder(runningScript);
+    Terminal.print(`Recording the ns calls of the script to ${getTracePath(workerScript)} when it ends.`);
+  }
+  if (workerScript && trace) {
+    workerScript.replayer = new ScriptReplayer(trace);
+    Terminal.print(`Replaying the ${trace.calls.length} recorded ns calls of ${flags["--replay"]}.`);
+  }
+
   if (isLegacyScript(path)) {
     sendDeprecationNotice();
   }
@@ -0,0 +1,76 @@
+import { Terminal } from "../../Terminal";
+import { BaseServer } from "../../Server/BaseServer";
+import { ScriptFilePath } from "../../Paths/ScriptFilePath";
+import { runTestFile } from "../../Script/TestRunner";
+
+/** Test files are scripts named like lib/math.test.js */
+const testFileRegex = /\.test\.[jt]sx?$/;
+
+/** The test files at the given paths, which can be test files or directories. Without paths, the current directory. */
+function findTestFiles(paths: string[], server: BaseServer): ScriptFilePath[] | null {
+  const testFiles = new Set<ScriptFilePath>();
+  for (const path of paths.length > 0 ? paths : ["."]) {
+    const script = Terminal.getScript(path);
+    if (script) {
+      if (!testFileRegex.test(script.filename)) {
+        Terminal.error(`${script.filename} is not a test file. Test files end with .test.js, .test.ts, etc.`);
+        return null;
+      }
+      testFiles.add(script.filename);
+      continue;
+    }
+    const directory = Terminal.getDirectory(path);
+    if (directory === null) {
+      Terminal.error(`Invalid path: ${path}`);
+      return null;
+    }
+    for (const filename of server.scripts.keys()) {
+      if (filename.startsWith(directory) && testFileRegex.test(filename)) testFiles.add(filename);
+    }
+  }
+  return [...testFiles].sort();
+}
+
+export function test(args: (string | number | boolean)[], server: BaseServer): void {
+  const testFiles = findTestFiles(args.map(String), server);
+  if (testFiles === null) return;
+  if (testFiles.length === 0) {
+    Terminal.error("No test files found. Test files are scripts whose names end with .test.js, .test.ts, etc.");
+    return;
+  }
+  Terminal.print(`Running ${testFiles.length} test file${testFiles.length === 1 ? "" : "s"}...`);
+
+  (async () => {
+    let passed = 0;
+    let failed = 0;
+    let failedFiles = 0;
+    for (const filename of testFiles) {
+      const script = server.scripts.get(filename);
+      // The file was deleted while the tests were running
+      if (!script) continue;
+      const { results, error } = await runTestFile(script, server.scripts);
+      const failures = results.filter((result) => result.error !== null);
+      if (error !== undefined || failures.length > 0) {
+        failedFiles++;
+        Terminal.error(`FAIL ${filename}`);
+      } else {
+        Terminal.success(`PASS ${filename} (${results.length} test${results.length === 1 ? "" : "s"})`);
+      }
+      if (error !== undefined) Terminal.error(`  ${error}`);
+      for (const result of failures) {
+        Terminal.error(`  ✕ ${result.name.join(" › ")}`);
+        Terminal.error(`    ${result.error}`);
+      }
+      passed += results.length - failures.length;
+      failed += failures.length;
+    }
+    const summary = [
+      `Test files: ${failedFiles} failed, ${testFiles.length - failedFiles} passed, ${testFiles.length} total`,
+      `Tests: ${failed} failed, ${passed} passed, ${passed + failed} total`,
+    ];
+    for (const line of summary) {
+      if (failedFiles > 0) Terminal.error(line);
+      else Terminal.success(line);
+    }
+  })().catch((error) => Terminal.error(`test failed: ${String(error)}`));
+}
@@ -36,7 +36,7 @@ export function scp(args: (string | number | boolean)[], server: BaseServer): vo
     // Error for invalid filetype
     if (!hasScriptExtension(path) && !hasTextExtension(path)) {
       return Terminal.error(
-        `scp failed: ${path} has invalid extension. scp only works for scripts (.js, .jsx, .ts, .tsx, .script), text files (.txt, .json), and literature files (.lit)`,
+        `scp failed: ${path} has invalid extension. scp only works for scripts (.js, .jsx, .ts, .tsx, .script), text files (.txt, .json, .sh), and literature files (.lit)`,
       );
     }
     const sourceContentFile = server.getContentFile(path);
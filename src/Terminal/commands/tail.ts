@@ -1,12 +1,42 @@
 import { Terminal } from "../../Terminal";
 import { BaseServer } from "../../Server/BaseServer";
+import { RunningScript } from "../../Script/RunningScript";
 import { findRunningScripts, findRunningScriptByPid } from "../../Script/ScriptHelpers";
 import { LogBoxEvents } from "../../ui/React/LogBoxManager";
 import { hasScriptExtension } from "../../Paths/ScriptFilePath";
 
+/** Prints the last lines of piped input. Usage: ... | tail [-n lines] */
+function tailInput(input: string, commandArray: (string | number | boolean)[]): void {
+  let numLines = 10;
+  if (commandArray.length > 0) {
+    const [flag, value] = commandArray;
+    if (
+      flag !== "-n" ||
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < 0 ||
+      commandArray.length > 2
+    ) {
+      return Terminal.error("Incorrect usage of tail with piped input. Usage: [command] | tail [-n lines]");
+    }
+    numLines = value;
+  }
+  if (numLines === 0) return;
+  Terminal.print(input.split("\n").slice(-numLines).join("\n"));
+}
+
+/** Opens the log window of the script, or prints its logs as text if the output of tail is piped or redirected. */
+function showLogs(runningScript: RunningScript): void {
+  if (!Terminal.isOutputCaptured()) return LogBoxEvents.emit(runningScript);
+  // Log entries that are React elements (from ns.printRaw) cannot be printed as text.
+  for (const entry of runningScript.logs) if (typeof entry === "string") Terminal.print(entry);
+}
+
 export function tail(commandArray: (string | number | boolean)[], server: BaseServer): void {
   try {
-    if (commandArray.length < 1) {
+    if (Terminal.stdin !== null && (commandArray.length === 0 || commandArray[0] === "-n")) {
+      tailInput(Terminal.stdin, commandArray);
+    } else if (commandArray.length < 1) {
       Terminal.error("Incorrect number of arguments. Usage: tail [pid] or tail [scriptname] [arg1] [arg2]...");
     } else if (typeof commandArray[0] === "string") {
       const [rawName, ...args] = commandArray;
@@ -23,14 +53,14 @@ export function tail(commandArray: (string | number | boolean)[], server: BaseSe
       }
       // Just use the first one (if there are multiple with the same
       // arguments, they can't be distinguished except by pid).
-      LogBoxEvents.emit(candidates.values().next().value);
+      showLogs(candidates.values().next().value);
     } else if (typeof commandArray[0] === "number") {
       const runningScript = findRunningScriptByPid(commandArray[0]);
       if (runningScript == null) {
         Terminal.error(`No script with PID ${commandArray[0]} is running`);
         return;
       }
-      LogBoxEvents.emit(runningScript);
+      showLogs(runningScript);
     }
   } catch (e) {
     Terminal.error(e + "");
@@ -1,10 +1,51 @@
+import type { RunningScript } from "../../Script/RunningScript";
 import { Terminal } from "../../Terminal";
+import { TerminalTopEvents } from "../TerminalEvents";
 import { BaseServer } from "../../Server/BaseServer";
+import { GetAllServers } from "../../Server/AllServers";
 import { formatRam } from "../../ui/formatNumber";
 
+/** Columns that the interactive top can sort by */
+export type TopSortKey = "pid" | "ram" | "threads" | "income" | "uptime";
+
+const sortValues: Record<TopSortKey, (script: RunningScript) => number> = {
+  pid: (script) => script.pid,
+  ram: (script) => script.ramUsage * script.threads,
+  threads: (script) => script.threads,
+  income: (script) => script.onlineMoneyMade / script.onlineRunningTime,
+  uptime: (script) => script.onlineRunningTime,
+};
+
+/** All scripts running on any server, sorted by the given column. Ties are sorted by pid. */
+export function getTopProcesses(sortKey: TopSortKey, descending = true): RunningScript[] {
+  const scripts: RunningScript[] = [];
+  for (const server of GetAllServers()) {
+    for (const byPid of server.runningScriptMap.values()) scripts.push(...byPid.values());
+  }
+  const getValue = sortValues[sortKey];
+  const direction = descending ? -1 : 1;
+  return scripts.sort((a, b) => direction * (getValue(a) - getValue(b)) || a.pid - b.pid);
+}
+
+/** Formats a number of seconds as [d-]hh:mm:ss, like the TIME column of Unix ps */
+export function formatUptime(seconds: number): string {
+  const total = Math.floor(seconds);
+  const days = Math.floor(total / 86400);
+  const time = [Math.floor(total / 3600) % 24, Math.floor(total / 60) % 60, total % 60]
+    .map((n) => String(n).padStart(2, "0"))
+    .join(":");
+  return days > 0 ? `${days}-${time}` : time;
+}
+
 export function top(args: (string | number | boolean)[], server: BaseServer): void {
-  if (args.length !== 0) {
-    Terminal.error("Incorrect usage of top command. Usage: top");
+  const interactive = args.length === 1 && (args[0] === "-i" || args[0] === "--interactive");
+  if (args.length !== 0 && !interactive) {
+    Terminal.error("Incorrect usage of top command. Usage: top [-i]");
+    return;
+  }
+  // The interactive view cannot be piped, so the static table is printed instead
+  if (interactive && !Terminal.isOutputCaptured()) {
+    TerminalTopEvents.emit();
     return;
   }
 
@@ -12,6 +12,8 @@ import { getAllDirectories, resolveDirectory, root } from "../Paths/Directory";
 import { isLegacyScript, resolveScriptFilePath } from "../Paths/ScriptFilePath";
 import { enums } from "../NetscriptFunctions";
 import { TerminalCommands } from "./Terminal";
+import { flagOption, getFlagSchema } from "../Script/FlagSchema";
+import type { Script } from "../Script/Script";
 
 /** Suggest all completion possibilities for the last argument in the last command being typed
  * @param terminalText The current full text entered in the terminal
@@ -164,7 +166,10 @@ export async function getTabCompletionPossibilities(terminalText: string, baseDi
       if (onFirstCommandArg && !relativeDir) addDirectories();
       return possibilities;
 
+    case "deps":
+    case "history":
     case "mem":
+    case "revert":
       if (onFirstCommandArg) addScripts();
       return possibilities;
 
@@ -226,6 +231,7 @@ export async function getTabCompletionPossibilities(terminalText: string, baseDi
       } else {
         const options = await scriptAutocomplete();
         if (options) addGeneric({ iterable: options, usePathing: false });
+        addFlagSchemaOptions();
       }
       return possibilities;
 
@@ -245,11 +251,13 @@ export async function getTabCompletionPossibilities(terminalText: string, baseDi
         if (options) {
           addGeneric({ iterable: options, usePathing: false });
         }
+        addFlagSchemaOptions();
       }
       return possibilities;
   }
 
-  async function scriptAutocomplete(): Promise<string[] | undefined> {
+  /** The script that the command runs, either with run or by its path, and the parsed "run" command */
+  function getScriptBeingRun(): { script: Script; command: (string | number | boolean)[] } | undefined {
     let inputCopy = commandArray.join(" ");
     if (commandLength >= 1 && commandArray[0] !== "run") inputCopy = "run " + inputCopy;
     const commands = parseCommands(inputCopy);
@@ -264,6 +272,31 @@ export async function getTabCompletionPossibilities(terminalText: string, baseDi
     if (isLegacyScript(filepath)) return; // Doesn't work with ns1.
     const script = currServ.scripts.get(filepath);
     if (!script) return; // Doesn't exist.
+    return { script, command };
+  }
+
+  /** Suggests the flags of the script's flag schema, or the allowed values when completing the value of a flag */
+  function addFlagSchemaOptions(): void {
+    const script = getScriptBeingRun()?.script;
+    if (!script) return;
+    let schema;
+    try {
+      schema = getFlagSchema(script);
+    } catch (error) {
+      // Invalid schemas are reported when the script is run
+      return;
+    }
+    if (!schema) return;
+    const previousArg = commandArray[commandLength - 2];
+    const choices = schema.find(([name]) => flagOption(name) === previousArg)?.[3];
+    const options = choices ?? [...schema.map(([name]) => flagOption(name)), "--help"];
+    addGeneric({ iterable: options.filter((option) => !possibilities.includes(option)), usePathing: false });
+  }
+
+  async function scriptAutocomplete(): Promise<string[] | undefined> {
+    const scriptBeingRun = getScriptBeingRun();
+    if (!scriptBeingRun) return;
+    const { script, command } = scriptBeingRun;
 
     let loadedModule;
     try {
@@ -7,13 +7,14 @@ import _ from "lodash";
 import { Output, Link, RawOutput } from "../OutputTypes";
 import { Terminal } from "../../Terminal";
 import { TerminalInput } from "./TerminalInput";
-import { TerminalEvents, TerminalClearEvents } from "../TerminalEvents";
+import { TerminalEvents, TerminalClearEvents, TerminalTopEvents } from "../TerminalEvents";
 import { BitFlumeModal } from "../../BitNode/ui/BitFlumeModal";
 import { CodingContractModal } from "../../ui/React/CodingContractModal";
 
 import { ANSIITypography } from "../../ui/React/ANSIITypography";
 import { useRerender } from "../../ui/React/hooks";
 import { TerminalActionTimer } from "./TerminalActionTimer";
+import { TopView } from "./TopView";
 
 const useStyles = makeStyles()((theme: Theme) => ({
   container: {
@@ -39,6 +40,7 @@ export function TerminalRoot(): React.ReactElement {
   const scrollHook = useRef<HTMLUListElement>(null);
   const rerender = useRerender();
   const [key, setKey] = useState(0);
+  const [showTop, setShowTop] = useState(false);
 
   useEffect(() => {
     const debounced = _.debounce(async () => rerender(), 25, { maxWait: 50 });
@@ -59,6 +61,8 @@ export function TerminalRoot(): React.ReactElement {
     };
   }, []);
 
+  useEffect(() => TerminalTopEvents.subscribe(() => setShowTop(true)), []);
+
   function doScroll(): number | undefined {
     const hook = scrollHook.current;
     if (hook !== null) {
@@ -80,6 +84,9 @@ export function TerminalRoot(): React.ReactElement {
   }, []);
 
   const { classes } = useStyles();
+  if (showTop) {
+    return <TopView onClose={() => setShowTop(false)} />;
+  }
   return (
     <div className={classes.container}>
       <ul key={key} id="terminal" className={classes.entries} ref={scrollHook}>
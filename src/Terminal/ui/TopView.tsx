@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from "react";
+import { Typography } from "@mui/material";
+import { Theme } from "@mui/material/styles";
+import { makeStyles } from "tss-react/mui";
+
+import { TopSortKey, formatUptime, getTopProcesses } from "../commands/top";
+import { killWorkerScriptByPid } from "../../Netscript/killWorkerScript";
+import { formatMoney, formatRam, formatThreads } from "../../ui/formatNumber";
+import { useRerender } from "../../ui/React/hooks";
+
+const useStyles = makeStyles()((theme: Theme) => ({
+  container: {
+    display: "flex",
+    flexDirection: "column",
+    height: "calc(100vh - 16px)",
+  },
+  processes: {
+    flex: "1 1 auto",
+    overflowY: "auto",
+  },
+  line: {
+    whiteSpace: "pre",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  header: {
+    whiteSpace: "pre",
+    backgroundColor: theme.palette.primary.dark,
+    color: theme.palette.background.default,
+  },
+  selected: {
+    whiteSpace: "pre",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    backgroundColor: theme.palette.primary.main,
+    color: theme.palette.background.default,
+  },
+}));
+
+interface Column {
+  title: string;
+  width: number;
+  sortKey?: TopSortKey;
+  /** Key that sorts by this column */
+  hotkey?: string;
+}
+
+const columns: Column[] = [
+  { title: "PID", width: 8, sortKey: "pid", hotkey: "p" },
+  { title: "HOST", width: 20 },
+  { title: "THREADS", width: 10, sortKey: "threads", hotkey: "t" },
+  { title: "RAM", width: 12, sortKey: "ram", hotkey: "m" },
+  { title: "INCOME", width: 14, sortKey: "income", hotkey: "i" },
+  { title: "UPTIME", width: 13, sortKey: "uptime", hotkey: "u" },
+  { title: "SCRIPT", width: 0 },
+];
+
+function formatRow(values: string[]): string {
+  return values.map((value, i) => (columns[i].width ? value.padEnd(columns[i].width - 1) + " " : value)).join("");
+}
+
+/** Full-screen process viewer shown by top -i. It lists the scripts of all servers and refreshes every second. */
+export function TopView({ onClose }: { onClose: () => void }): React.ReactElement {
+  const { classes } = useStyles();
+  useRerender(1000);
+  const [sortKey, setSortKey] = useState<TopSortKey>("ram");
+  const [descending, setDescending] = useState(true);
+  const [selectedPid, setSelectedPid] = useState(-1);
+  const [status, setStatus] = useState("");
+
+  const processes = getTopProcesses(sortKey, descending);
+  const selectedIndex = Math.max(
+    processes.findIndex((script) => script.pid === selectedPid),
+    0,
+  );
+  const selected = processes[selectedIndex];
+
+  function sortBy(key: TopSortKey): void {
+    // Choosing the current column again reverses the order
+    if (key === sortKey) setDescending(!descending);
+    else {
+      setSortKey(key);
+      setDescending(key !== "pid");
+    }
+  }
+
+  useEffect(() => {
+    function select(index: number): void {
+      const script = processes[Math.min(Math.max(index, 0), processes.length - 1)];
+      if (script) setSelectedPid(script.pid);
+    }
+
+    function onKeyDown(event: KeyboardEvent): void {
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+      const column = columns.find((column) => column.hotkey === event.key.toLowerCase());
+      if (column?.sortKey) sortBy(column.sortKey);
+      else if (event.key === "ArrowUp") select(selectedIndex - 1);
+      else if (event.key === "ArrowDown") select(selectedIndex + 1);
+      else if (event.key === "PageUp") select(selectedIndex - 10);
+      else if (event.key === "PageDown") select(selectedIndex + 10);
+      else if (event.key === "Home") select(0);
+      else if (event.key === "End") select(processes.length - 1);
+      else if (event.key === "k" || event.key === "Delete") {
+        if (!selected) return;
+        const killed = killWorkerScriptByPid(selected.pid);
+        setStatus(
+          killed
+            ? `Killed ${selected.filename} (pid ${selected.pid}) on ${selected.server}`
+            : `Failed to kill pid ${selected.pid}`,
+        );
+      } else if (event.key === "q" || event.key === "Escape") onClose();
+      else return;
+      event.preventDefault();
+    }
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  });
+
+  const totalRam = processes.reduce((total, script) => total + script.ramUsage * script.threads, 0);
+  const totalIncome = processes.reduce((total, script) => total + script.onlineMoneyMade / script.onlineRunningTime, 0);
+  const headers = columns.map((column) => {
+    if (column.sortKey !== sortKey) return column.title;
+    return column.title + (descending ? " ▼" : " ▲");
+  });
+
+  return (
+    <div className={classes.container}>
+      <Typography className={classes.line}>
+        {`Processes: ${processes.length}   RAM used: ${formatRam(totalRam)}   Income: ${formatMoney(
+          totalIncome,
+        )} / sec`}
+      </Typography>
+      <Typography className={classes.line}>
+        Sort: [m] RAM [t] threads [i] income [u] uptime [p] pid (again to reverse) [↑↓] select [k] kill [q] quit
+      </Typography>
+      <Typography className={classes.line}>{status || " "}</Typography>
+      <Typography className={classes.header}>{formatRow(headers)}</Typography>
+      <div className={classes.processes}>
+        {processes.map((script, i) => (
+          <Typography
+            key={script.pid}
+            className={i === selectedIndex ? classes.selected : classes.line}
+            onClick={() => setSelectedPid(script.pid)}
+          >
+            {formatRow([
+              String(script.pid),
+              script.server,
+              formatThreads(script.threads),
+              formatRam(script.ramUsage * script.threads),
+              formatMoney(script.onlineMoneyMade / script.onlineRunningTime) + "/s",
+              formatUptime(script.onlineRunningTime),
+              [script.filename, ...script.args].join(" "),
+            ])}
+          </Typography>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { BaseServer } from "./Server/BaseServer";
 import { Generic_fromJSON, Generic_toJSON, IReviverValue, constructorsForReviver } from "./utils/JSONReviver";
 import { TextFilePath } from "./Paths/TextFilePath";
 import { ContentFile } from "./Paths/ContentFile";
+import { ContentFileDeleteEvents } from "./Server/ContentFileEvents";
 
 /** Represents a plain text file that is typically stored on a server. */
 export class TextFile implements ContentFile {
@@ -32,6 +33,7 @@ export class TextFile implements ContentFile {
   deleteFromServer(server: BaseServer): boolean {
     if (!server.textFiles.has(this.filename)) return false;
     server.textFiles.delete(this.filename);
+    ContentFileDeleteEvents.emit(server.hostname, this.filename);
     return true;
   }
 
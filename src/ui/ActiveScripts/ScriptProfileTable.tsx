@@ -0,0 +1,72 @@
+/** React Component for displaying the profile of a script: the calls, time and errors of each ns function */
+import * as React from "react";
+
+import Table from "@mui/material/Table";
+import TableBody from "@mui/material/TableBody";
+import TableCell from "@mui/material/TableCell";
+import TableHead from "@mui/material/TableHead";
+import TableRow from "@mui/material/TableRow";
+import Typography from "@mui/material/Typography";
+
+import { ScriptProfile } from "../../Netscript/Profiler";
+import { formatNumber } from "../formatNumber";
+import { convertTimeMsToTimeElapsedString } from "../../utils/StringHelperFunctions";
+
+function formatMs(time: number): string {
+  return time < 1000 ? `${formatNumber(time, 2)} ms` : convertTimeMsToTimeElapsedString(time, true);
+}
+
+export function ScriptProfileTable({ profile }: { profile: ScriptProfile }): React.ReactElement {
+  // The functions the script spends the most time in come first
+  const entries = [...profile.entries].sort(([, a], [, b]) => b.time - a.time);
+
+  if (entries.length === 0) {
+    return <Typography>No ns functions were called since the profiling started.</Typography>;
+  }
+  return (
+    <Table padding="none" size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>
+            <Typography>Function</Typography>
+          </TableCell>
+          <TableCell align="right">
+            <Typography>Calls</Typography>
+          </TableCell>
+          <TableCell align="right">
+            <Typography>Total time</Typography>
+          </TableCell>
+          <TableCell align="right">
+            <Typography>Average time</Typography>
+          </TableCell>
+          <TableCell align="right">
+            <Typography>Errors</Typography>
+          </TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {entries.map(([functionPath, entry]) => (
+          <TableRow key={functionPath}>
+            <TableCell>
+              <Typography>ns.{functionPath}</Typography>
+            </TableCell>
+            <TableCell align="right">
+              <Typography>{formatNumber(entry.calls, 0, 1e6, true)}</Typography>
+            </TableCell>
+            <TableCell align="right">
+              <Typography>{formatMs(entry.time)}</Typography>
+            </TableCell>
+            <TableCell align="right">
+              <Typography>{formatMs(entry.time / entry.calls)}</Typography>
+            </TableCell>
+            <TableCell align="right">
+              <Typography color={entry.errors > 0 ? "error" : undefined}>
+                {formatNumber(entry.errors, 0, 1e6, true)}
+              </Typography>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
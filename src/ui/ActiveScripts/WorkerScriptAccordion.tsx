@@ -26,6 +26,8 @@ import ExpandMore from "@mui/icons-material/ExpandMore";
 
 import { killWorkerScriptByPid } from "../../Netscript/killWorkerScript";
 import { WorkerScript } from "../../Netscript/WorkerScript";
+import { ScriptProfile } from "../../Netscript/Profiler";
+import { ScriptProfileTable } from "./ScriptProfileTable";
 
 import { dialogBoxCreate } from "../React/DialogBox";
 import { LogBoxEvents } from "../React/LogBoxManager";
@@ -33,6 +35,7 @@ import { convertTimeMsToTimeElapsedString } from "../../utils/StringHelperFuncti
 import { arrayToString } from "../../utils/helpers/ArrayHelpers";
 import { Money } from "../React/Money";
 import { MoneyRate } from "../React/MoneyRate";
+import { useRerender } from "../React/hooks";
 
 const useStyles = makeStyles()({
   noborder: {
@@ -47,6 +50,7 @@ interface IProps {
 export function WorkerScriptAccordion(props: IProps): React.ReactElement {
   const { classes } = useStyles();
   const [open, setOpen] = React.useState(false);
+  const rerender = useRerender();
   const workerScript = props.workerScript;
   const scriptRef = workerScript.scriptRef;
 
@@ -59,6 +63,11 @@ export function WorkerScriptAccordion(props: IProps): React.ReactElement {
     if (killScript()) dialogBoxCreate("Killing script");
   }
 
+  function profileClickHandler(): void {
+    workerScript.profile = workerScript.profile ? null : new ScriptProfile();
+    rerender();
+  }
+
   // Calculations for script stats
   const onlineMps = scriptRef.onlineMoneyMade / scriptRef.onlineRunningTime;
   const onlineEps = scriptRef.onlineExpGained / scriptRef.onlineRunningTime;
@@ -161,7 +170,17 @@ export function WorkerScriptAccordion(props: IProps): React.ReactElement {
             </TableBody>
           </Table>
 
+          {workerScript.profile && (
+            <Box my={1}>
+              <Typography>
+                └ Profile of the last {convertTimeMsToTimeElapsedString(Date.now() - workerScript.profile.startTime)}:
+              </Typography>
+              <ScriptProfileTable profile={workerScript.profile} />
+            </Box>
+          )}
+
           <Button onClick={logClickHandler}>LOG</Button>
+          <Button onClick={profileClickHandler}>{workerScript.profile ? "STOP PROFILING" : "PROFILE"}</Button>
           <IconButton onClick={killScriptClickHandler}>
             <DeleteIcon color="error" />
           </IconButton>
@@ -0,0 +1,91 @@
+import React from "react";
+
+import Box from "@mui/material/Box";
+import Typography from "@mui/material/Typography";
+
+import { Settings } from "../../Settings/Settings";
+
+export interface LineChartSeries {
+  label: string;
+  values: number[];
+  /** Defaults to a color of the theme, different for each series */
+  color?: string;
+}
+
+interface IProps {
+  series: LineChartSeries[];
+  formatValue: (value: number) => string;
+  /** Height of the plot in pixels */
+  height?: number;
+}
+
+/** Colors of the theme that are used for the series, in order */
+export function getSeriesColors(): string[] {
+  const theme = Settings.theme;
+  return [theme.primary, theme.money, theme.hack, theme.hp, theme.cha, theme.int, theme.combat, theme.info, theme.rep];
+}
+
+const width = 600;
+
+/** A line chart of values that are measured at regular intervals, e.g. every cycle. The newest values are on the right. */
+export function LineChart({ series, formatValue, height = 200 }: IProps): React.ReactElement {
+  const colors = getSeriesColors();
+  const points = Math.max(...series.map((s) => s.values.length), 0);
+  const values = series.flatMap((s) => s.values).filter((value) => isFinite(value));
+  if (points < 2 || values.length === 0) {
+    return <Typography>Not enough data yet, the chart is shown after two cycles.</Typography>;
+  }
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (min === max) {
+    min -= Math.abs(min) || 1;
+    max += Math.abs(max) || 1;
+  }
+  const x = (index: number) => (index / (points - 1)) * width;
+  const y = (value: number) => height - ((value - min) / (max - min)) * height;
+
+  return (
+    <Box>
+      <Box display="flex">
+        <Box display="flex" flexDirection="column" justifyContent="space-between" sx={{ mr: 1, textAlign: "right" }}>
+          <Typography variant="body2">{formatValue(max)}</Typography>
+          <Typography variant="body2">{formatValue(min)}</Typography>
+        </Box>
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          preserveAspectRatio="none"
+          style={{
+            width: "100%",
+            maxWidth: `${width}px`,
+            height: `${height}px`,
+            border: `1px solid ${Settings.theme.well}`,
+          }}
+        >
+          {min < 0 && max > 0 && (
+            <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke={Settings.theme.secondary} strokeDasharray="4" />
+          )}
+          {series.map((s, index) => (
+            <polyline
+              key={s.label}
+              fill="none"
+              stroke={s.color ?? colors[index % colors.length]}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+              // Series with fewer values are aligned to the right, with the newest values
+              points={s.values
+                .map((value, i) => (isFinite(value) ? `${x(points - s.values.length + i)},${y(value)}` : ""))
+                .join(" ")}
+            />
+          ))}
+        </svg>
+      </Box>
+      <Box display="flex" flexWrap="wrap" columnGap={2}>
+        {series.map((s, index) => (
+          <Typography key={s.label} sx={{ color: s.color ?? colors[index % colors.length] }}>
+            ■ {s.label}: {s.values.length > 0 ? formatValue(s.values[s.values.length - 1]) : "-"}
+          </Typography>
+        ))}
+      </Box>
+    </Box>
+  );
+}
@@ -1,11 +1,13 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { EventEmitter } from "../../utils/EventEmitter";
-import { RunningScript } from "../../Script/RunningScript";
+import { RunningScript, logLevels } from "../../Script/RunningScript";
 import { killWorkerScriptByPid } from "../../Netscript/killWorkerScript";
 
 import Typography from "@mui/material/Typography";
 import Box from "@mui/material/Box";
 import Paper from "@mui/material/Paper";
+import Button from "@mui/material/Button";
+import TextField from "@mui/material/TextField";
 
 import Draggable, { DraggableEvent } from "react-draggable";
 import { ResizableBox, ResizeCallbackData } from "react-resizable";
@@ -16,6 +18,8 @@ import ExpandMoreIcon from "@mui/icons-material/ExpandMore";
 import ExpandLessIcon from "@mui/icons-material/ExpandLess";
 import StopCircleIcon from "@mui/icons-material/StopCircle";
 import PlayCircleIcon from "@mui/icons-material/PlayCircle";
+import FilterListIcon from "@mui/icons-material/FilterList";
+import SaveIcon from "@mui/icons-material/Save";
 import { workerScripts } from "../../Netscript/WorkerScripts";
 import { startWorkerScript } from "../../NetscriptWorker";
 import { GetServer } from "../../Server/AllServers";
@@ -27,8 +31,24 @@ import { useRerender } from "./hooks";
 import { dialogBoxCreate } from "./DialogBox";
 import { makeStyles } from "tss-react/mui";
 import { logBoxBaseZIndex } from "./Constants";
+import { SnackbarEvents } from "./Snackbar";
+import { ToastVariant } from "@enums";
+import { resolveTextFilePath } from "../../Paths/TextFilePath";
+import type { LogLevel } from "@nsdefs";
 let layerCounter = 0;
 
+/** Writes the log of a script to a text file next to the script, e.g. hack-12.log.txt for hack.js with pid 12 */
+function exportLog(script: RunningScript): void {
+  const server = GetServer(script.server);
+  const path = resolveTextFilePath(`${script.filename.replace(/\.[^.]+$/, "")}-${script.pid}.log.txt`);
+  if (!server || !path) {
+    return dialogBoxCreate(`Could not export the log of ${script.filename} to ${script.server}.`);
+  }
+  const lines = script.logs.filter((line): line is string => typeof line === "string");
+  server.writeToTextFile(path, lines.join("\n"));
+  SnackbarEvents.emit(`Exported the log to ${path} on ${server.hostname}`, ToastVariant.SUCCESS, 3000);
+}
+
 export const LogBoxEvents = new EventEmitter<[RunningScript]>();
 export const LogBoxCloserEvents = new EventEmitter<[number]>();
 export const LogBoxClearEvents = new EventEmitter<[]>();
@@ -153,6 +173,12 @@ const useStyles = makeStyles()({
     whiteSpace: "pre-wrap",
     wordWrap: "break-word",
   },
+  filters: {
+    display: "flex",
+    alignItems: "center",
+    gap: "4px",
+    padding: "0 4px",
+  },
   titleButton: {
     borderWidth: "0 0 0 1px",
     borderColor: Settings.theme.welllight,
@@ -173,6 +199,9 @@ function LogWindow({ hidden, script, onClose }: LogWindowProps): React.ReactElem
   const propsRef = useRef(new LogBoxProperties(rerender, rootRef));
   script.tailProps = propsRef.current;
   const [minimized, setMinimized] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [search, setSearch] = useState("");
+  const [hiddenLevels, setHiddenLevels] = useState<LogLevel[]>([]);
 
   const textAreaKeyDown = (e: React.KeyboardEvent) => {
     if (e.ctrlKey && e.key === "a") {
@@ -255,6 +284,22 @@ function LogWindow({ hidden, script, onClose }: LogWindowProps): React.ReactElem
     setMinimized(!minimized);
   }
 
+  function toggleFilters(): void {
+    setShowFilters(!showFilters);
+  }
+
+  function toggleLevel(level: LogLevel): void {
+    setHiddenLevels(hiddenLevels.includes(level) ? hiddenLevels.filter((l) => l !== level) : [...hiddenLevels, level]);
+  }
+
+  /** Whether a log entry matches the filters of the window */
+  function isShown(line: React.ReactNode, level: LogLevel | undefined): boolean {
+    if (!showFilters) return true;
+    if (level && hiddenLevels.includes(level)) return false;
+    if (!search) return true;
+    return typeof line === "string" && line.toLowerCase().includes(search.toLowerCase());
+  }
+
   function lineColor(s: string): "error" | "success" | "warn" | "info" | "primary" {
     if (s.match(/(^\[[^\]]+\] )?ERROR/) || s.match(/(^\[[^\]]+\] )?FAIL/)) {
       return "error";
@@ -374,6 +419,14 @@ function LogWindow({ hidden, script, onClose }: LogWindowProps): React.ReactElem
                     <StopCircleIcon color="error" />
                   </IconButton>
                 )}
+                <IconButton
+                  title="Filter logs"
+                  className={classes.titleButton}
+                  onClick={toggleFilters}
+                  onTouchEnd={toggleFilters}
+                >
+                  <FilterListIcon color={showFilters ? "primary" : "secondary"} />
+                </IconButton>
                 <IconButton
                   title={minimized ? "Expand" : "Collapse"}
                   className={classes.titleButton}
@@ -388,18 +441,55 @@ function LogWindow({ hidden, script, onClose }: LogWindowProps): React.ReactElem
               </span>
             </Paper>
 
+            {showFilters && !minimized && (
+              <Paper className={classes.filters} sx={{ height: `${minConstraints[1]}px` }}>
+                <TextField
+                  size="small"
+                  placeholder="Search"
+                  value={search}
+                  onChange={(event) => setSearch(event.target.value)}
+                  // Keep the terminal from taking the focus while typing
+                  onKeyDown={(event) => event.stopPropagation()}
+                  sx={{ flex: "1 1 auto" }}
+                  inputProps={{ style: { padding: "2px 4px" } }}
+                />
+                {logLevels.map((level) => (
+                  <Button
+                    key={level}
+                    size="small"
+                    sx={{ minWidth: 0, padding: "0 4px" }}
+                    color={hiddenLevels.includes(level) ? "secondary" : "primary"}
+                    title={`${hiddenLevels.includes(level) ? "Show" : "Hide"} ${level} entries`}
+                    onClick={() => toggleLevel(level)}
+                  >
+                    {level}
+                  </Button>
+                ))}
+                <IconButton size="small" title="Export the log to a text file" onClick={() => exportLog(script)}>
+                  <SaveIcon fontSize="small" />
+                </IconButton>
+              </Paper>
+            )}
+
             <Paper
               className={classes.logs}
-              style={{ height: `calc(100% - ${minConstraints[1]}px)`, display: minimized ? "none" : "flex" }}
+              style={{
+                height: `calc(100% - ${minConstraints[1] * (showFilters ? 2 : 1)}px)`,
+                display: minimized ? "none" : "flex",
+              }}
               tabIndex={-1}
               ref={textArea}
               onKeyDown={textAreaKeyDown}
             >
               <div style={{ display: "flex", flexDirection: "column" }}>
-                {script.logs.map(
-                  (line: React.ReactNode, i: number): React.ReactNode =>
-                    typeof line !== "string" ? line : <ANSIITypography key={i} text={line} color={lineColor(line)} />,
-                )}
+                {script.logs.map((line: React.ReactNode, i: number): React.ReactNode => {
+                  if (!isShown(line, script.logLevels[i])) return null;
+                  return typeof line !== "string" ? (
+                    line
+                  ) : (
+                    <ANSIITypography key={i} text={line} color={lineColor(line)} />
+                  );
+                })}
               </div>
             </Paper>
           </>
@@ -1,8 +1,12 @@
 import * as babel from "@babel/standalone";
 import { transformSync, type ParserConfig } from "@swc/wasm-web";
 import * as acorn from "acorn";
+import * as walk from "acorn-walk";
+import { extendAcornWalkForTypeScriptNodes } from "../ThirdParty/acorn-typescript-walk";
+import { extend as extendAcornWalkForJsxNodes } from "acorn-jsx-walk";
 import { resolveScriptFilePath, validScriptExtensions, type ScriptFilePath } from "../Paths/ScriptFilePath";
 import type { Script } from "../Script/Script";
+import type { Node } from "../NetscriptJSEvaluator";
 
 export type AcornASTProgram = acorn.Program;
 export type BabelASTProgram = object;
@@ -25,12 +29,28 @@ export interface FileTypeFeature {
 
 export class ModuleResolutionError extends Error {}
 
+/** A probable misuse of the Netscript API, found by lintScript */
+export interface ScriptDiagnostic {
+  rule: "missing-await" | "ns-after-exit" | "infinite-loop";
+  message: string;
+  /** Offsets of the offending code */
+  start: number;
+  end: number;
+}
+
+// Extend acorn-walk to support TypeScript nodes.
+extendAcornWalkForTypeScriptNodes(walk.base);
+
+// Extend acorn-walk to support JSX nodes.
+extendAcornWalkForJsxNodes(walk.base);
+
 const supportedFileTypes = [FileType.JSX, FileType.TS, FileType.TSX] as const;
 
 export function getFileType(filename: string): FileType {
   const extension = filename.substring(filename.lastIndexOf(".") + 1);
   switch (extension) {
     case "txt":
+    case "sh":
       return FileType.PLAINTEXT;
     case "json":
       return FileType.JSON;
@@ -120,6 +140,205 @@ export function getModuleScript(
   return script;
 }
 
+/**
+ * ns functions that return a promise, which has to be awaited before calling other ns functions. Functions whose name
+ * is too common to be recognized by itself are listed with their namespace, e.g. rpc.call.
+ */
+const asyncNsFunctions = new Set([
+  "asleep",
+  "chargeFragment",
+  "grow",
+  "hack",
+  "installBackdoor",
+  "makeMove",
+  "manualHack",
+  "nextPortWrite",
+  "nextUpdate",
+  "nextWrite",
+  "opponentNextTurn",
+  "passTurn",
+  "prompt",
+  "rpc.call",
+  "share",
+  "sleep",
+  "waitForOngoingGrafting",
+  "weaken",
+  "wget",
+]);
+
+/** Functions whose callbacks are called later, possibly after the script has ended */
+const deferredCallbackFunctions = new Set(["setTimeout", "setInterval", "requestAnimationFrame", "addEventListener"]);
+
+/** The identifier at the start of a chain like ns.getPortHandle(1).nextWrite, or undefined if it isn't one */
+function getRootIdentifier(node: Node): string | undefined {
+  for (;;) {
+    switch (node.type) {
+      case "Identifier":
+        return node.name;
+      case "MemberExpression":
+        node = node.object;
+        break;
+      case "CallExpression":
+        node = node.callee;
+        break;
+      case "ChainExpression":
+        node = node.expression;
+        break;
+      default:
+        return undefined;
+    }
+  }
+}
+
+/** The path of a property without its root, e.g. rpc.call for ns.rpc.call, or undefined if it isn't a plain path */
+function getMemberPath(node: Node): string | undefined {
+  const names: string[] = [];
+  while (node.type === "MemberExpression" && !node.computed && node.property.type === "Identifier") {
+    names.unshift(node.property.name);
+    node = node.object;
+  }
+  return node.type === "Identifier" && names.length ? names.join(".") : undefined;
+}
+
+/** The name of the called function, e.g. setTimeout for both setTimeout(...) and window.setTimeout(...) */
+function getCalleeName(node: Node): string | undefined {
+  const callee = node.callee;
+  if (callee.type === "Identifier") return callee.name;
+  if (callee.type === "MemberExpression" && callee.property.type === "Identifier") return callee.property.name;
+  return undefined;
+}
+
+function isTrueLiteral(node: Node): boolean {
+  return node.type === "Literal" && (node.value === true || node.value === 1);
+}
+
+interface LoopBodyState {
+  /** Whether the node is in a loop or switch inside the body, which an unlabeled break leaves instead of the loop */
+  nested: boolean;
+  /** Labels of the statements inside the body */
+  labels: Set<string>;
+}
+
+/**
+ * Whether a loop body can yield or leave the loop. Nested functions don't count, they don't run as part of the loop.
+ * Breaks and continues only count if they target the loop or a statement around it, except a continue of the loop.
+ */
+function canLeaveLoop(body: Node, loopLabel: string | undefined): boolean {
+  let found = false;
+  const setFound = () => {
+    found = true;
+  };
+  const walkNested = (node: Node, state: LoopBodyState, callback: walk.WalkerCallback<LoopBodyState>) =>
+    walk.base[node.type as keyof typeof walk.base]?.(node, { ...state, nested: true }, callback);
+  walk.recursive<LoopBodyState>(
+    body,
+    { nested: false, labels: new Set() },
+    {
+      Function: () => undefined,
+      AwaitExpression: setFound,
+      ReturnStatement: setFound,
+      ThrowStatement: setFound,
+      BreakStatement: (node: Node, state) => {
+        if (node.label ? !state.labels.has(node.label.name) : !state.nested) setFound();
+      },
+      ContinueStatement: (node: Node, state) => {
+        if (node.label && !state.labels.has(node.label.name) && node.label.name !== loopLabel) setFound();
+      },
+      LabeledStatement: (node: Node, state, callback) =>
+        callback(node.body, { ...state, labels: new Set([...state.labels, node.label.name]) }),
+      WhileStatement: walkNested,
+      DoWhileStatement: walkNested,
+      ForStatement: walkNested,
+      ForInStatement: walkNested,
+      ForOfStatement: walkNested,
+      SwitchStatement: walkNested,
+    },
+  );
+  return found;
+}
+
+/**
+ * Finds common misuses of the Netscript API that would otherwise only be noticed when the script runs:
+ * - Calls to ns functions returning a promise that isn't awaited (e.g. ns.sleep or ns.hack).
+ * - ns functions used in callbacks (e.g. of setTimeout) that can run after the script has ended.
+ * - Infinite loops that never await anything, which freeze the game.
+ *
+ * ns is recognized by the name of the first parameter of main, or by the name "ns" in other functions.
+ */
+export function lintScript(ast: AST, code: string): ScriptDiagnostic[] {
+  const nsNames = new Set(["ns"]);
+  for (const statement of (ast as AcornASTProgram).body) {
+    const declaration = statement.type === "ExportNamedDeclaration" ? statement.declaration : statement;
+    if (declaration?.type !== "FunctionDeclaration" || declaration.id?.name !== "main") continue;
+    const [param] = declaration.params;
+    if (param?.type === "Identifier") nsNames.add(param.name);
+  }
+  const isNsExpression = (node: Node) => nsNames.has(getRootIdentifier(node) ?? "");
+
+  const diagnostics: ScriptDiagnostic[] = [];
+  function report(rule: ScriptDiagnostic["rule"], node: Node, message: string): void {
+    if (diagnostics.some((diagnostic) => diagnostic.rule === rule && diagnostic.start === node.start)) return;
+    diagnostics.push({ rule, message, start: node.start, end: node.end });
+  }
+
+  function checkLoop(node: Node, test: Node | null, ancestors: Node[]): void {
+    if (test !== null && !isTrueLiteral(test)) return;
+    const previousLine = code.slice(0, node.start).trimEnd().split("\n").pop() ?? "";
+    const parent = ancestors[ancestors.length - 2];
+    const label = parent?.type === "LabeledStatement" ? parent.label.name : undefined;
+    if (/^\s*\/\/\s*@ignore-infinite/.test(previousLine) || canLeaveLoop(node.body, label)) return;
+    report(
+      "infinite-loop",
+      node,
+      "Possible infinite loop that never awaits anything, which freezes the game. " +
+        "Await something in the loop (e.g. ns.sleep). If this is a false positive, use `// @ignore-infinite` to suppress.",
+    );
+  }
+
+  walk.ancestor(ast as acorn.Node, {
+    CallExpression: (node: Node, _state: unknown, ancestors: Node[]) => {
+      const callee = node.callee;
+      const name = getCalleeName(node);
+      const path = getMemberPath(callee);
+      const asyncName = asyncNsFunctions.has(path ?? "") ? path : asyncNsFunctions.has(name ?? "") ? name : undefined;
+      const parent = ancestors[ancestors.length - 2];
+      if (
+        callee.type === "MemberExpression" &&
+        asyncName !== undefined &&
+        isNsExpression(callee) &&
+        parent?.type === "ExpressionStatement"
+      ) {
+        report(
+          "missing-await",
+          node,
+          `ns.${asyncName} returns a promise that is not awaited. ` +
+            "Calling other ns functions before it resolves kills the script. Use await to wait for it.",
+        );
+      }
+      if (!deferredCallbackFunctions.has(name ?? "")) return;
+      for (const argument of node.arguments) {
+        if (argument.type !== "ArrowFunctionExpression" && argument.type !== "FunctionExpression") continue;
+        walk.simple(argument.body, {
+          MemberExpression: (member: Node) => {
+            if (member.object.type !== "Identifier" || !nsNames.has(member.object.name)) return;
+            report(
+              "ns-after-exit",
+              member,
+              `${code.slice(member.start, member.end)} is used in a ${name} callback, which can run after the ` +
+                "script has ended. Using ns after the script has ended throws an error. " +
+                "Await a promise (e.g. ns.sleep) instead, or clean up with ns.atExit.",
+            );
+          },
+        });
+      }
+    },
+    WhileStatement: (node: Node, _state: unknown, ancestors: Node[]) => checkLoop(node, node.test, ancestors),
+    DoWhileStatement: (node: Node, _state: unknown, ancestors: Node[]) => checkLoop(node, node.test, ancestors),
+    ForStatement: (node: Node, _state: unknown, ancestors: Node[]) => checkLoop(node, node.test, ancestors),
+  });
+  return diagnostics.sort((a, b) => a.start - b.start);
+}
+
 /**
  * This function must be synchronous to avoid race conditions. Check https://github.com/bitburner-official/bitburner-src/pull/1173#issuecomment-2026940461
  * for more information.
@@ -1,3 +1,4 @@
+import { omit } from "lodash";
 import { PositiveInteger } from "../../src/types";
 import { Corporation } from "../../src/Corporation/Corporation";
 import { CorpUpgrades } from "../../src/Corporation/data/CorporationUpgrades";
@@ -6,15 +7,33 @@ import {
   calculateUpgradeCost,
   calculateOfficeSizeUpgradeCost,
 } from "../../src/Corporation/helpers";
+import * as corpConstants from "../../src/Corporation/data/Constants";
 import { Player, setPlayer } from "../../src/Player";
 import { PlayerObject } from "../../src/PersonObjects/Player/PlayerObject";
 import {
   acceptInvestmentOffer,
   buyBackShares,
+  createDivision,
+  exportMaterial,
   goPublic,
   issueNewShares,
   sellShares,
+  setPolicies,
+  updateExportMaterial,
 } from "../../src/Corporation/Actions";
+import { applyPolicies, getDefaultPolicies } from "../../src/Corporation/Policies";
+import {
+  getCompetitors,
+  getMarketShare,
+  getMarketShareSalesMultiplier,
+  processCompetitors,
+} from "../../src/Corporation/Competitors";
+import { CompetitorsData } from "../../src/Corporation/data/CompetitorData";
+import * as DialogBox from "../../src/ui/React/DialogBox";
+import { Product } from "../../src/Corporation/Product";
+import { getCorporationSnapshot, simulateCorporation } from "../../src/Corporation/Simulation";
+import { getSupplyChain } from "../../src/Corporation/SupplyChain";
+import { CityName, CorpEmployeeJob, IndustryType } from "../../src/Enums";
 
 describe("Corporation", () => {
   let corporation: Corporation;
@@ -117,6 +136,275 @@ describe("Corporation", () => {
     });
   });
 
+  describe("Corporation history", () => {
+    it("should record the funds of a cycle by source", () => {
+      corporation.gainFunds(1e9, "operating revenue");
+      corporation.loseFunds(2e8, "office");
+      corporation.loseFunds(1e8, "office");
+      corporation.recordHistory();
+      expect(corporation.history).toHaveLength(1);
+      expect(corporation.history[0].funds).toEqual(corporation.funds);
+      expect(corporation.history[0].fundsBySource).toEqual({ "operating revenue": 1e9, office: -3e8 });
+      expect(corporation.cycleFundsBySource).toEqual({});
+    });
+    it("should keep only the last cycles", () => {
+      for (let cycle = 0; cycle < corpConstants.historyLength + 5; cycle++) {
+        corporation.gainFunds(cycle, "operating revenue");
+        corporation.recordHistory();
+      }
+      expect(corporation.history).toHaveLength(corpConstants.historyLength);
+      expect(corporation.history[0].fundsBySource["operating revenue"]).toEqual(5);
+    });
+  });
+
+  describe("Corporation simulation", () => {
+    let snapshot: string;
+    beforeEach(() => {
+      Player.corporation = corporation;
+      createDivision(corporation, IndustryType.Agriculture, "Farm");
+      snapshot = getCorporationSnapshot(corporation);
+    });
+
+    it("should not change the corporation", () => {
+      const result = simulateCorporation(snapshot, 3, []);
+      expect(result.cycles).toHaveLength(3);
+      expect(getCorporationSnapshot(corporation)).toEqual(snapshot);
+      expect(result.snapshot).not.toEqual(snapshot);
+    });
+    it("should have the same result for the same snapshot", () => {
+      // Only the timestamps of the history in the snapshots differ
+      const result = omit(simulateCorporation(snapshot, 3, []), "snapshot");
+      expect(omit(simulateCorporation(snapshot, 3, []), "snapshot")).toEqual(result);
+    });
+    it("should make the decisions", () => {
+      const result = simulateCorporation(snapshot, 2, [
+        {
+          cycle: 1,
+          type: "buyMaterial",
+          divisionName: "Farm",
+          city: CityName.Sector12,
+          materialName: "Water",
+          amount: 1,
+        },
+      ]);
+      // The materials are bought during one cycle, at the given amount per second
+      expect(result.divisions.Farm.materials[CityName.Sector12]?.Water).toEqual(10);
+    });
+    it("should return the errors as warnings instead of showing them", () => {
+      const dialogBoxCreate = jest.spyOn(DialogBox, "dialogBoxCreate");
+      const food = corporation.divisions.get("Farm")!.warehouses[CityName.Sector12]!.materials.Food;
+      food.desiredSellAmount = "INV";
+      food.desiredSellPrice = "MP";
+      const result = simulateCorporation(getCorporationSnapshot(corporation), 2, []);
+      expect(result.warnings).toEqual([
+        "Error evaluating your sell amount for material Food in Farm's Sector-12 office. The sell amount is being set to zero",
+      ]);
+      expect(dialogBoxCreate).not.toHaveBeenCalled();
+      dialogBoxCreate.mockRestore();
+    });
+    it("should throw on invalid decisions", () => {
+      expect(() =>
+        simulateCorporation(snapshot, 2, [
+          { cycle: 2, type: "setSmartSupply", divisionName: "Farm", city: CityName.Sector12, enabled: true },
+        ]),
+      ).toThrow("Decision 0 has an invalid cycle");
+      expect(() =>
+        simulateCorporation(snapshot, 2, [
+          { cycle: 0, type: "setSmartSupply", divisionName: "Mine", city: CityName.Sector12, enabled: true },
+        ]),
+      ).toThrow("Decision 0: No division named 'Mine'");
+    });
+  });
+
+  describe("Corporation supply chain", () => {
+    beforeEach(() => {
+      Player.corporation = corporation;
+      createDivision(corporation, IndustryType.Agriculture, "Farm");
+      createDivision(corporation, IndustryType.Restaurant, "Restaurant");
+    });
+
+    it("should have the warehouses as nodes and the exports as edges", () => {
+      const food = corporation.divisions.get("Farm")!.warehouses[CityName.Sector12]!.materials.Food;
+      exportMaterial(corporation.divisions.get("Restaurant")!, CityName.Sector12, food, "EPROD");
+      const supplyChain = getSupplyChain(corporation);
+      expect(supplyChain.nodes.map((node) => node.id)).toEqual(["Farm/Sector-12", "Restaurant/Sector-12"]);
+      expect(supplyChain.edges).toHaveLength(1);
+      expect(supplyChain.edges[0]).toMatchObject({
+        from: "Farm/Sector-12",
+        to: "Restaurant/Sector-12",
+        material: food,
+      });
+
+      updateExportMaterial(food, supplyChain.edges[0].export, "eprod / 2");
+      expect(food.exports[0].amount).toEqual("EPROD/2");
+      expect(() => updateExportMaterial(food, food.exports[0], "EPROD/")).toThrow();
+    });
+    it("should find the materials that pile up or run out", () => {
+      const materials = corporation.divisions.get("Farm")!.warehouses[CityName.Sector12]!.materials;
+      materials.Food.productionAmount = 10;
+      materials.Food.actualSellAmount = 5;
+      materials.Plants.productionAmount = 10;
+      materials.Plants.actualSellAmount = 10;
+      materials.Water.productionAmount = -10;
+      const flows = getSupplyChain(corporation).nodes[0].flows;
+      const bottleneck = (name: string) => flows.find((flow) => flow.material.name === name)?.bottleneck;
+      expect(bottleneck("Food")).toEqual("surplus");
+      expect(bottleneck("Plants")).toEqual(null);
+      expect(bottleneck("Water")).toEqual("shortage");
+    });
+  });
+
+  describe("Corporation policies", () => {
+    beforeEach(() => {
+      Player.corporation = corporation;
+      createDivision(corporation, IndustryType.Tobacco, "Tobacco");
+    });
+
+    it("should hire and assign employees by ratio", () => {
+      const division = corporation.divisions.get("Tobacco")!;
+      const office = division.offices[CityName.Sector12]!;
+      setPolicies(division, {
+        ...getDefaultPolicies(),
+        hireToCapacity: true,
+        jobRatios: { [CorpEmployeeJob.Operations]: 2, [CorpEmployeeJob.Engineer]: 1 },
+      });
+      applyPolicies(corporation, division);
+      expect(office.numEmployees).toEqual(office.size);
+      expect(office.employeeNextJobs[CorpEmployeeJob.Unassigned]).toEqual(0);
+      expect(office.employeeNextJobs[CorpEmployeeJob.Operations]).toEqual(2);
+      expect(office.employeeNextJobs[CorpEmployeeJob.Engineer]).toEqual(1);
+    });
+    it("should buy tea and throw parties below the minimums", () => {
+      const division = corporation.divisions.get("Tobacco")!;
+      const office = division.offices[CityName.Sector12]!;
+      office.hireRandomEmployee(CorpEmployeeJob.Unassigned);
+      office.avgEnergy = 50;
+      office.avgMorale = 90;
+      setPolicies(division, { ...getDefaultPolicies(), minEnergy: 60, minMorale: 80, partyCostPerEmployee: 1e6 });
+      applyPolicies(corporation, division);
+      expect(office.teaPending).toEqual(true);
+      expect(office.partyMult).toEqual(1);
+      expect(corporation.cycleFundsBySource.tea).toEqual(-corpConstants.teaCostPerEmployee);
+    });
+    it("should discontinue the lowest rated product at the maximum number of products", () => {
+      const division = corporation.divisions.get("Tobacco")!;
+      setPolicies(division, { ...getDefaultPolicies(), discontinueLowestRatedProduct: true });
+      for (let i = 0; i < division.maxProducts; i++) {
+        const product = new Product({
+          name: `Product ${i}`,
+          createCity: CityName.Sector12,
+          designInvestment: 0,
+          advertisingInvestment: 0,
+        });
+        product.finished = true;
+        product.rating = i === 1 ? 1 : 10;
+        division.products.set(product.name, product);
+      }
+      division.products.get("Product 0")!.finished = false;
+      applyPolicies(corporation, division);
+      expect(division.products.has("Product 1")).toEqual(true);
+
+      division.products.get("Product 0")!.finished = true;
+      applyPolicies(corporation, division);
+      expect(division.products.has("Product 1")).toEqual(false);
+      expect(division.products.size).toEqual(division.maxProducts - 1);
+    });
+    it("should throw on invalid policies", () => {
+      const division = corporation.divisions.get("Tobacco")!;
+      expect(() => setPolicies(division, { ...getDefaultPolicies(), minMorale: -1 })).toThrow("Minimum morale");
+      expect(() => setPolicies(division, { ...getDefaultPolicies(), minEnergy: 101 })).toThrow(
+        "Minimum energy must be at most 100",
+      );
+      expect(() =>
+        setPolicies(division, { ...getDefaultPolicies(), jobRatios: { [CorpEmployeeJob.Engineer]: NaN } }),
+      ).toThrow("The ratio of Engineer");
+    });
+  });
+
+  describe("Corporation competitors", () => {
+    let product: Product;
+    beforeEach(() => {
+      Player.corporation = corporation;
+      createDivision(corporation, IndustryType.Tobacco, "Tobacco");
+      product = new Product({
+        name: "Cigar",
+        createCity: CityName.Sector12,
+        designInvestment: 0,
+        advertisingInvestment: 0,
+      });
+      product.finished = true;
+      product.rating = 100;
+      product.markup = 1;
+      product.cityData[CityName.Sector12].productionCost = 50;
+      product.cityData[CityName.Sector12].effectiveRating = 50;
+      product.cityData[CityName.Sector12].actualSellAmount = 1;
+      corporation.divisions.get("Tobacco")!.products.set(product.name, product);
+    });
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should start with the competitors of the industry", () => {
+      const competitors = getCompetitors(corporation, IndustryType.Tobacco);
+      expect(competitors.map((competitor) => competitor.name)).toEqual(
+        CompetitorsData[IndustryType.Tobacco]!.map((data) => data.name),
+      );
+      expect(getMarketShare(corporation, IndustryType.Tobacco)).toEqual(0);
+      expect(getCompetitors(corporation, IndustryType.Agriculture)).toEqual([]);
+    });
+    it("should share the market with the competitors", () => {
+      jest.spyOn(Math, "random").mockReturnValue(1);
+      // Sold at the market price
+      product.uiMarketPrice[CityName.Sector12] = 100;
+      processCompetitors(corporation);
+      const competitors = corporation.competitors[IndustryType.Tobacco]!;
+      const share = getMarketShare(corporation, IndustryType.Tobacco);
+      expect(share).toBeGreaterThan(0);
+      const salesMultiplier = getMarketShareSalesMultiplier(corporation, IndustryType.Tobacco);
+      expect(salesMultiplier).toBeGreaterThanOrEqual(0.5);
+      expect(salesMultiplier).toBeLessThanOrEqual(2);
+      expect(share + competitors.reduce((total, competitor) => total + competitor.marketShare, 0)).toBeCloseTo(1);
+
+      // Undercutting the competitors gains market share, until they lower their prices
+      product.uiMarketPrice[CityName.Sector12] = 50;
+      processCompetitors(corporation);
+      expect(getMarketShare(corporation, IndustryType.Tobacco)).toBeGreaterThan(share);
+      expect(getMarketShareSalesMultiplier(corporation, IndustryType.Tobacco)).toBeGreaterThan(salesMultiplier);
+      for (const [index, data] of CompetitorsData[IndustryType.Tobacco]!.entries()) {
+        expect(competitors[index].priceMult).toBeLessThan(data.priceMult);
+        expect(competitors[index].priceMult).toBeGreaterThanOrEqual(data.minPriceMult);
+      }
+    });
+    it("should launch products that increase the competition", () => {
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      const competition = product.competition;
+      processCompetitors(corporation);
+      for (const [index, data] of CompetitorsData[IndustryType.Tobacco]!.entries()) {
+        expect(corporation.competitors[IndustryType.Tobacco]![index].products).toEqual(
+          Math.min(data.products + 1, data.maxProducts),
+        );
+      }
+      expect(product.competition).toBeGreaterThan(competition);
+    });
+    it("should keep the products and ratings of competitors within their maximums", () => {
+      jest.spyOn(Math, "random").mockReturnValue(0);
+      for (let cycle = 0; cycle < 1000; cycle++) processCompetitors(corporation);
+      for (const [index, data] of CompetitorsData[IndustryType.Tobacco]!.entries()) {
+        const competitor = corporation.competitors[IndustryType.Tobacco]![index];
+        expect(competitor.products).toEqual(data.maxProducts);
+        expect(competitor.rating).toBeGreaterThan(data.rating);
+        expect(competitor.rating).toBeLessThanOrEqual(data.maxRating);
+      }
+    });
+    it("should start over when the corporation leaves the industry", () => {
+      processCompetitors(corporation);
+      expect(corporation.competitors[IndustryType.Tobacco]).toBeDefined();
+      corporation.divisions.delete("Tobacco");
+      processCompetitors(corporation);
+      expect(corporation.competitors[IndustryType.Tobacco]).toBeUndefined();
+    });
+  });
+
   describe("helpers.calculateOfficeSizeUpgradeCost matches documented formula", () => {
     // for discussion and computation of these test values, see:
     // https://github.com/bitburner-official/bitburner-src/pull/1179#discussion_r1534948725
@@ -0,0 +1,119 @@
+import type { Script } from "../../../src/Script/Script";
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Server } from "../../../src/Server/Server";
+import { RunningScript } from "../../../src/Script/RunningScript";
+import { WorkerScript } from "../../../src/Netscript/WorkerScript";
+import { NetscriptFunctions } from "../../../src/NetscriptFunctions";
+import { NetscriptChannels, NetscriptPorts } from "../../../src/NetscriptWorker";
+import { PortNumber, getPortsSave, loadPorts } from "../../../src/NetscriptPort";
+import { AddToAllServers, DeleteServer } from "../../../src/Server/AllServers";
+
+function getNS(hostname: string, pid: number) {
+  const server = new Server({ hostname, adminRights: true, maxRam: 8 });
+  AddToAllServers(server);
+  server.writeToScriptFile("test.js" as ScriptFilePath, "");
+  const script = server.scripts.get("test.js" as ScriptFilePath) as Script;
+  const runningScript = new RunningScript(script, 2);
+  return new WorkerScript(runningScript, pid, NetscriptFunctions).env.vars;
+}
+
+describe("Named channels", function () {
+  afterEach(() => {
+    NetscriptChannels.clear();
+    DeleteServer("home");
+    DeleteServer("n00dles");
+  });
+
+  test("Channels are shared by name and keep their capacity", function () {
+    const ns = getNS("home", 1);
+    const writer = ns.getChannel<number>("batcher/control", { capacity: 2 });
+    const reader = ns.getChannel<number>("batcher/control");
+    expect(reader.capacity).toEqual(2);
+
+    expect(writer.write(1)).toBeNull();
+    expect(writer.tryWrite(2)).toBe(true);
+    expect(writer.tryWrite(3)).toBe(false);
+    expect(writer.full()).toBe(true);
+    expect(writer.write(4)).toEqual(1);
+
+    expect(reader.read()).toEqual(2);
+    expect(reader.read()).toEqual(4);
+    expect(reader.read()).toEqual("NULL PORT DATA");
+    // An empty channel remembers its capacity
+    expect(ns.getChannel("batcher/control").capacity).toEqual(2);
+
+    expect(() => ns.getChannel("batcher/control", { capacity: 5 })).toThrow("already exists with capacity 2");
+    expect(() => ns.getChannel("")).toThrow("cannot be empty");
+  });
+
+  test("Host scoped channels are separate per server", function () {
+    const home = getNS("home", 1);
+    const noodles = getNS("n00dles", 2);
+    home.getChannel("status", { scope: "host" }).write("home");
+    noodles.getChannel("status", { scope: "host" }).write("n00dles");
+    home.getChannel("status").write("global");
+
+    expect(home.getChannel("status", { scope: "host" }).host).toEqual("home");
+    expect(noodles.getChannel("status", { scope: "host" }).read()).toEqual("n00dles");
+    expect(home.getChannel("status", { scope: "host" }).read()).toEqual("home");
+    expect(noodles.getChannel("status").read()).toEqual("global");
+  });
+
+  test("nextWrite wakes every waiting reader", async function () {
+    const ns = getNS("home", 1);
+    const channel = ns.getChannel("events");
+    const woken: number[] = [];
+    const readers = [1, 2, 3].map((i) => channel.nextWrite().then(() => woken.push(i)));
+    channel.write("go");
+    await Promise.all(readers);
+    expect(woken).toEqual([1, 2, 3]);
+
+    const waiting = channel.nextWrite();
+    channel.close();
+    await waiting;
+    expect(NetscriptChannels.size).toEqual(0);
+  });
+});
+
+describe("Persistent ports", function () {
+  afterEach(() => {
+    loadPorts("");
+    DeleteServer("home");
+  });
+
+  test("Only persistent ports and channels survive save/load", function () {
+    const ns = getNS("home", 1);
+    ns.getPortHandle(1).setPersistent(true);
+    ns.writePort(1, { target: "n00dles", batches: [1, 2] });
+    ns.writePort(2, "not saved");
+    const channel = ns.getChannel("daemon/queue", { capacity: 5, scope: "host" });
+    channel.setPersistent(true);
+    channel.write("job");
+    // Emptied persistent ports are kept, so the flag isn't lost
+    ns.getPortHandle(3).setPersistent(true);
+
+    loadPorts(JSON.stringify(getPortsSave()));
+
+    expect(ns.readPort(2)).toEqual("NULL PORT DATA");
+    expect(ns.getPortHandle(3).isPersistent()).toBe(true);
+    expect(ns.readPort(1)).toEqual({ target: "n00dles", batches: [1, 2] });
+    expect(NetscriptPorts.has(1 as PortNumber)).toBe(true);
+    const loadedChannel = ns.getChannel("daemon/queue", { scope: "host" });
+    expect(loadedChannel.isPersistent()).toBe(true);
+    expect(loadedChannel.capacity).toEqual(5);
+    expect(loadedChannel.read()).toEqual("job");
+  });
+
+  test("Persistent ports reject data that cannot be saved", function () {
+    const ns = getNS("home", 1);
+    const port = ns.getPortHandle(1);
+    port.write(new Map());
+    expect(() => port.setPersistent(true)).toThrow("Cannot store an instance of Map in a persistent port");
+    port.clear();
+    port.setPersistent(true);
+    expect(() => port.write({ when: new Date() })).toThrow("Cannot store an instance of Date");
+    expect(() => ns.writePort(1, [1, NaN])).toThrow("Cannot store NaN");
+    expect(() => ns.tryWritePort(1, { a: undefined })).toThrow("Cannot store undefined");
+    expect(port.empty()).toBe(true);
+  });
+});
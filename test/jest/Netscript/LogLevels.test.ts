@@ -0,0 +1,69 @@
+import type { Script } from "../../../src/Script/Script";
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Server } from "../../../src/Server/Server";
+import { RunningScript, inferLogLevel } from "../../../src/Script/RunningScript";
+import { WorkerScript } from "../../../src/Netscript/WorkerScript";
+import { NetscriptFunctions } from "../../../src/NetscriptFunctions";
+import { AddToAllServers, DeleteServer } from "../../../src/Server/AllServers";
+import { Settings } from "../../../src/Settings/Settings";
+import { FormatsNeedToChange } from "../../../src/ui/formatNumber";
+
+test("Levels of entries written without a level", () => {
+  expect(inferLogLevel("ERROR Could not hack")).toEqual("error");
+  expect(inferLogLevel("[12:00:00] FAIL batch")).toEqual("error");
+  expect(inferLogLevel("WARNING low RAM")).toEqual("warn");
+  expect(inferLogLevel("DEBUG threads")).toEqual("debug");
+  expect(inferLogLevel("SUCCESS hacked")).toEqual("info");
+  expect(inferLogLevel("hacked n00dles, no ERROR")).toEqual("info");
+  expect(inferLogLevel(null)).toEqual("info");
+});
+
+test("Log levels of a script", () => {
+  // Ensure that formatting functions work properly
+  FormatsNeedToChange.emit();
+  let server;
+  try {
+    server = new Server({ hostname: "home", adminRights: true, maxRam: 8 });
+    AddToAllServers(server);
+    expect(server.writeToScriptFile("test.js" as ScriptFilePath, "")).toEqual({ overwritten: false });
+    const script = server.scripts.get("test.js" as ScriptFilePath) as Script;
+    const runningScript = new RunningScript(script, 2);
+    const ws = new WorkerScript(runningScript, 1, NetscriptFunctions);
+    const ns = ws.env.vars;
+
+    ns.print("WARN printed");
+    ns.log("debug", "Calculated threads", { hack: 12, target: "n00dles", servers: ["home"] });
+    ns.log("error", "Batch failed");
+    ns.getServerMaxRam("home");
+    expect(() => ns.log("verbose" as never, "message")).toThrow("Invalid log level: verbose");
+    expect(() => ns.log("info", "message", 4 as never)).toThrow("Invalid type for fields");
+
+    ns.setLogLevel("info");
+    ns.log("debug", "dropped");
+    ns.getServerMaxRam("home");
+    ns.log("info", "kept");
+    ns.print("printed");
+
+    expect(runningScript.logs).toEqual([
+      "WARN printed",
+      'DEBUG Calculated threads hack=12 target=n00dles servers=["home"]',
+      "ERROR Batch failed",
+      "getServerMaxRam: returned 8.00GB",
+      "log: Invalid log level: verbose. Should be one of debug, info, warn, error.",
+      "log: Invalid type for fields: number. Should be object.",
+      "INFO kept",
+      "printed",
+    ]);
+    expect(runningScript.logLevels).toEqual(["warn", "debug", "error", "debug", "error", "error", "info", "info"]);
+
+    // Levels are dropped together with the entries when the log is full
+    const capacity = Settings.MaxLogCapacity;
+    Settings.MaxLogCapacity = runningScript.logs.length - 1;
+    ns.log("warn", "full");
+    Settings.MaxLogCapacity = capacity;
+    expect(runningScript.logs[0]).toEqual('DEBUG Calculated threads hack=12 target=n00dles servers=["home"]');
+    expect(runningScript.logLevels).toEqual(["debug", "error", "debug", "error", "error", "info", "info", "warn"]);
+  } finally {
+    if (server) DeleteServer(server.hostname);
+  }
+});
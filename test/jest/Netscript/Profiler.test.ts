@@ -0,0 +1,80 @@
+import type { Script } from "../../../src/Script/Script";
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Server } from "../../../src/Server/Server";
+import { RunningScript } from "../../../src/Script/RunningScript";
+import { WorkerScript } from "../../../src/Netscript/WorkerScript";
+import { workerScripts } from "../../../src/Netscript/WorkerScripts";
+import { ScriptDeath } from "../../../src/Netscript/ScriptDeath";
+import { ScriptProfile, profileCall } from "../../../src/Netscript/Profiler";
+import { NetscriptFunctions } from "../../../src/NetscriptFunctions";
+import { AddToAllServers, DeleteServer } from "../../../src/Server/AllServers";
+
+describe("profileCall", () => {
+  test("Counts calls and errors of sync functions", () => {
+    const profile = new ScriptProfile();
+    expect(profileCall(profile, "getHostname", () => "home")).toEqual("home");
+    expect(profileCall(profile, "getHostname", () => "home")).toEqual("home");
+    expect(() =>
+      profileCall(profile, "getServer", () => {
+        throw new Error("Invalid hostname");
+      }),
+    ).toThrow("Invalid hostname");
+    expect(profile.toJSON().functions).toEqual({
+      getHostname: { calls: 2, time: expect.any(Number), errors: 0 },
+      getServer: { calls: 1, time: expect.any(Number), errors: 1 },
+    });
+  });
+
+  test("Measures async functions until their promise settles", async () => {
+    const profile = new ScriptProfile();
+    const sleep = () => new Promise((resolve) => setTimeout(() => resolve(true), 50));
+    await expect(profileCall(profile, "sleep", sleep)).resolves.toEqual(true);
+    await expect(profileCall(profile, "hack", () => Promise.reject(new Error("Killed")))).rejects.toThrow("Killed");
+    const { functions } = profile.toJSON();
+    expect(functions.sleep).toEqual({ calls: 1, time: expect.any(Number), errors: 0 });
+    expect(functions.sleep.time).toBeGreaterThanOrEqual(45);
+    expect(functions.hack).toEqual({ calls: 1, time: expect.any(Number), errors: 1 });
+  });
+
+  test("Does not count the death of the script as an error", async () => {
+    const profile = new ScriptProfile();
+    const death = Object.create(ScriptDeath.prototype) as ScriptDeath;
+    await expect(profileCall(profile, "sleep", () => Promise.reject(death))).rejects.toBe(death);
+    expect(profile.toJSON().functions.sleep).toEqual({ calls: 1, time: expect.any(Number), errors: 0 });
+  });
+});
+
+test("ns.getProfile", () => {
+  let server;
+  try {
+    server = new Server({ hostname: "home", adminRights: true, maxRam: 8 });
+    AddToAllServers(server);
+    expect(server.writeToScriptFile("test.js" as ScriptFilePath, "")).toEqual({ overwritten: false });
+    const script = server.scripts.get("test.js" as ScriptFilePath) as Script;
+
+    const profiled = new WorkerScript(new RunningScript(script, 2), 1, NetscriptFunctions);
+    const unprofiled = new WorkerScript(new RunningScript(script, 2), 2, NetscriptFunctions);
+    workerScripts.set(profiled.pid, profiled);
+    workerScripts.set(unprofiled.pid, unprofiled);
+    profiled.profile = new ScriptProfile();
+
+    const ns = profiled.env.vars;
+    ns.getHostname();
+    ns.getHostname();
+    expect(() => ns.getServerMaxRam("nonexistent")).toThrow();
+    // The call in progress is already counted
+    expect(ns.getProfile()?.functions).toEqual({
+      getHostname: { calls: 2, time: expect.any(Number), errors: 0 },
+      getProfile: { calls: 1, time: 0, errors: 0 },
+      getServerMaxRam: { calls: 1, time: expect.any(Number), errors: 1 },
+    });
+
+    const otherNs = unprofiled.env.vars;
+    expect(otherNs.getProfile(1)?.functions.getProfile).toEqual({ calls: 1, time: expect.any(Number), errors: 0 });
+    expect(otherNs.getProfile()).toBeNull();
+    expect(otherNs.getProfile(3)).toBeNull();
+  } finally {
+    workerScripts.clear();
+    if (server) DeleteServer(server.hostname);
+  }
+});
@@ -0,0 +1,138 @@
+import type { Script } from "../../../src/Script/Script";
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Server } from "../../../src/Server/Server";
+import { RunningScript } from "../../../src/Script/RunningScript";
+import { WorkerScript } from "../../../src/Netscript/WorkerScript";
+import { ScriptDeath } from "../../../src/Netscript/ScriptDeath";
+import { ScriptRecorder, ScriptReplayer, parseTrace } from "../../../src/Netscript/Recorder";
+import { NetscriptFunctions } from "../../../src/NetscriptFunctions";
+import { AddToAllServers, DeleteServer } from "../../../src/Server/AllServers";
+import { FormatsNeedToChange } from "../../../src/ui/formatNumber";
+
+describe("Record and replay", () => {
+  let server: Server;
+  let script: Script;
+  beforeEach(() => {
+    // Ensure that formatting functions work properly
+    FormatsNeedToChange.emit();
+    server = new Server({ hostname: "home", adminRights: true, maxRam: 8 });
+    AddToAllServers(server);
+    server.writeToScriptFile("test.js" as ScriptFilePath, "");
+    script = server.scripts.get("test.js" as ScriptFilePath) as Script;
+  });
+  afterEach(() => {
+    DeleteServer(server.hostname);
+  });
+
+  function startScript(pid: number, args: string[] = []): WorkerScript {
+    return new WorkerScript(new RunningScript(script, 2, args), pid, NetscriptFunctions);
+  }
+
+  test("Replays the recorded results", async () => {
+    const recorded = startScript(1, ["n00dles"]);
+    recorded.recorder = new ScriptRecorder(recorded.scriptRef);
+    let ns = recorded.env.vars;
+    ns.getServerMaxRam("home");
+    expect(() => ns.getServerMaxRam("nonexistent")).toThrow();
+    await ns.sleep(10);
+    ns.print("done");
+
+    const trace = parseTrace(JSON.stringify(recorded.recorder.trace));
+    expect(trace).toMatchObject({ script: "test.js", hostname: "home", args: ["n00dles"], threads: 1 });
+    expect(trace.calls).toEqual([
+      { function: "getServerMaxRam", args: ["home"], status: "returned", result: 8 },
+      {
+        function: "getServerMaxRam",
+        args: ["nonexistent"],
+        status: "threw",
+        error: expect.stringContaining("Invalid hostname: 'nonexistent'"),
+      },
+      { function: "sleep", args: [10], async: true, status: "returned", result: true },
+      { function: "print", args: ["done"], status: "returned" },
+    ]);
+
+    // The game state changed since the recording
+    server.maxRam = 16;
+    const replayed = startScript(2);
+    replayed.replayer = new ScriptReplayer(trace);
+    ns = replayed.env.vars;
+    expect(ns.getServerMaxRam("home")).toEqual(8);
+    expect(() => ns.getServerMaxRam("nonexistent")).toThrow("Invalid hostname: 'nonexistent'");
+    await expect(ns.sleep(10)).resolves.toEqual(true);
+    // Functions that only affect the script itself still run
+    ns.print("done");
+    expect(replayed.scriptRef.logs.at(-1)).toEqual("done");
+
+    // The replay stops at the end of the recorded run
+    let death;
+    try {
+      ns.getServerMaxRam("home");
+    } catch (error) {
+      death = error;
+    }
+    expect(death).toBeInstanceOf(ScriptDeath);
+    expect(replayed.scriptRef.logs.at(-1)).toEqual(
+      "getServerMaxRam: Replay finished: The recorded run made no more calls.",
+    );
+  });
+
+  test("Stops when the script diverges from the recorded run", () => {
+    const recorded = startScript(1);
+    recorded.recorder = new ScriptRecorder(recorded.scriptRef);
+    recorded.env.vars.getServerMaxRam("home");
+
+    const replayed = startScript(2);
+    replayed.replayer = new ScriptReplayer(recorded.recorder.trace);
+    expect(() => replayed.env.vars.getServerUsedRam("home")).toThrow(
+      "The replay diverged from the recorded run at call 1.\n" +
+        'Recorded: getServerMaxRam("home")\n' +
+        'Replayed: getServerUsedRam("home")',
+    );
+  });
+
+  test("Refuses functions that return objects with methods", () => {
+    const recorded = startScript(1);
+    recorded.recorder = new ScriptRecorder(recorded.scriptRef);
+    expect(() => recorded.env.vars.getPortHandle(1)).toThrow("getPortHandle returns an object with methods");
+    expect(recorded.recorder.trace.calls).toEqual([]);
+
+    const replayed = startScript(2);
+    replayed.replayer = new ScriptReplayer(recorded.recorder.trace);
+    expect(() => replayed.env.vars.getPortHandle(1)).toThrow("which can't be replayed");
+  });
+
+  test("Replays errors with the same shape", () => {
+    const trace = parseTrace(
+      JSON.stringify({
+        version: 1,
+        args: [],
+        threads: 1,
+        calls: [
+          { function: "getServerMaxRam", args: ["a"], status: "threw", error: "RUNTIME ERROR" },
+          { function: "getServerMaxRam", args: ["b"], status: "threw", error: "Bad input", errorName: "TypeError" },
+        ],
+      }),
+    );
+    const replayed = startScript(1);
+    replayed.replayer = new ScriptReplayer(trace);
+    const getError = (hostname: string) => {
+      try {
+        replayed.env.vars.getServerMaxRam(hostname);
+      } catch (error) {
+        return error;
+      }
+    };
+    expect(getError("a")).toEqual("RUNTIME ERROR");
+    const error = getError("b");
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({ name: "TypeError", message: "Bad input" });
+  });
+
+  test("Rejects invalid trace files", () => {
+    expect(() => parseTrace("{")).toThrow("The file is not valid JSON");
+    expect(() => parseTrace('{"version": 1, "args": []}')).toThrow("The trace is missing its args, threads or calls.");
+    expect(() => parseTrace('{"version": 1, "args": [], "threads": 1, "calls": [{}]}')).toThrow(
+      "The trace has invalid calls.",
+    );
+  });
+});
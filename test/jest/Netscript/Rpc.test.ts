@@ -0,0 +1,71 @@
+import type { Script } from "../../../src/Script/Script";
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Server } from "../../../src/Server/Server";
+import { RunningScript } from "../../../src/Script/RunningScript";
+import { WorkerScript } from "../../../src/Netscript/WorkerScript";
+import { rpcServices, workerScripts } from "../../../src/Netscript/WorkerScripts";
+import { killWorkerScript } from "../../../src/Netscript/killWorkerScript";
+import { NetscriptFunctions } from "../../../src/NetscriptFunctions";
+import { AddToAllServers, DeleteServer, GetServer } from "../../../src/Server/AllServers";
+
+function startScript(filename: string, pid: number) {
+  const server = GetServer("home") as Server;
+  server.writeToScriptFile(filename as ScriptFilePath, "");
+  const script = server.scripts.get(filename as ScriptFilePath) as Script;
+  const runningScript = new RunningScript(script, 2);
+  const ws = new WorkerScript(runningScript, pid, NetscriptFunctions);
+  server.runScript(runningScript);
+  workerScripts.set(pid, ws);
+  return ws;
+}
+
+describe("ns.rpc", function () {
+  beforeEach(() => {
+    AddToAllServers(new Server({ hostname: "home", adminRights: true, maxRam: 64 }));
+  });
+  afterEach(() => {
+    for (const ws of workerScripts.values()) killWorkerScript(ws);
+    DeleteServer("home");
+  });
+
+  test("Calls are answered by the serving script", async function () {
+    const server = startScript("server.js", 1).env.vars;
+    const client = startScript("client.js", 2).env.vars;
+    server.rpc.serve("math/add", (a: number, b: number) => a + b);
+    server.rpc.serve("echo", async (value: unknown) => value);
+
+    expect(await client.rpc.call("math/add", [1, 2])).toEqual(3);
+    const value = { nested: [1, 2] };
+    const echoed = await client.rpc.call("echo", [value]);
+    expect(echoed).toEqual(value);
+    expect(echoed).not.toBe(value);
+
+    expect(() => client.rpc.serve("echo", () => null)).toThrow("already being served by pid 1");
+    expect(server.rpc.unserve("echo")).toBe(true);
+    expect(server.rpc.unserve("echo")).toBe(false);
+    expect(() => client.rpc.call("echo", [])).toThrow("No script is serving echo");
+  });
+
+  test("Calls fail when the handler throws or times out", async function () {
+    const server = startScript("server.js", 1).env.vars;
+    const client = startScript("client.js", 2).env.vars;
+    server.rpc.serve("fail", () => {
+      throw new Error("bad request");
+    });
+    server.rpc.serve("slow", () => new Promise(() => undefined));
+
+    await expect(client.rpc.call("fail")).rejects.toContain("bad request");
+    await expect(client.rpc.call("slow", [], { timeout: 10 })).rejects.toContain("timed out after 10ms");
+  });
+
+  test("Pending calls fail and services are removed when the server dies", async function () {
+    const serverScript = startScript("server.js", 1);
+    const client = startScript("client.js", 2).env.vars;
+    serverScript.env.vars.rpc.serve("slow", () => new Promise(() => undefined));
+
+    const pending = client.rpc.call("slow");
+    killWorkerScript(serverScript);
+    await expect(pending).rejects.toContain("died before responding to slow");
+    expect(rpcServices.size).toEqual(0);
+  });
+});
@@ -459,4 +459,47 @@ describe("Parsing NetScript code to work out static RAM costs", function () {
       expectCost(calculated, HackCost);
     });
   });
+
+  describe("Locations of costs", function () {
+    it("Costs are tied to the references in the script and the imports that add them", async function () {
+      const libNameOne = "libTestOne.js" as ScriptFilePath;
+      const libCodeOne = `import { growTarget } from "libTestTwo.js";
+export function hackTarget(ns) { return ns.hack("n00dles") + growTarget(ns); }
+export function unused(ns) { return ns.weaken("n00dles"); }`;
+      const libNameTwo = "libTestTwo.js" as ScriptFilePath;
+      const libCodeTwo = `export function growTarget(ns) { return ns.grow("n00dles"); }`;
+      const code = `import { hackTarget } from "libTestOne.js";
+export async function main(ns) {
+  await ns.hack("n00dles");
+  await hackTarget(ns);
+}`;
+      const calculated = calculateRamUsage(
+        code,
+        filename,
+        server,
+        new Map([
+          [libNameOne, new Script(libNameOne, libCodeOne)],
+          [libNameTwo, new Script(libNameTwo, libCodeTwo)],
+        ]),
+      );
+      const locations = (name: string) => calculated.entries?.find((entry) => entry.name === name)?.locations;
+      /** Location of the name of the ns function that is called in the code */
+      const nsCall = (filename: ScriptFilePath, code: string, name: string) => {
+        const start = code.indexOf(`ns.${name}(`) + 3;
+        return { filename, start, end: start + name.length };
+      };
+      const importOne = { filename, start: 0, end: code.indexOf(";") + 1 };
+      const importTwo = { filename: libNameOne, start: 0, end: libCodeOne.indexOf(";") + 1 };
+
+      expect(locations("hack")).toEqual([
+        nsCall(filename, code, "hack"),
+        { ...nsCall(libNameOne, libCodeOne, "hack"), importChain: [importOne] },
+      ]);
+      expect(locations("grow")).toEqual([
+        { ...nsCall(libNameTwo, libCodeTwo, "grow"), importChain: [importOne, importTwo] },
+      ]);
+      expect(locations("weaken")).toBeUndefined();
+      expect(locations("baseCost")).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,78 @@
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Server } from "../../../src/Server/Server";
+import { getDependencyGraph } from "../../../src/Script/DependencyGraph";
+import { RamCostConstants } from "../../../src/Netscript/RamCostGenerator";
+
+describe("getDependencyGraph", function () {
+  const server = new Server({ hostname: "home" });
+  const write = (filename: string, code: string) => server.writeToScriptFile(filename as ScriptFilePath, code);
+  write(
+    "lib/format.js",
+    `import { log } from "lib/log.js";
+    export function format(ns) { log(ns); return ns.getHostname(); }`,
+  );
+  write(
+    "lib/log.js",
+    `import { format } from "./format.js";
+    export function log(ns) { ns.print(format(ns)); }`,
+  );
+  write("lib/servers.js", `export function buy(ns) { ns.purchaseServer("pserv", 8); }`);
+  write("lib/unused.js", `export function grow(ns) { return ns.grow("n00dles"); }`);
+
+  it("Finds the imports of a script, the RAM that each module adds, and the import cycles", function () {
+    const code = `import { format } from "lib/format.js";
+      import { buy } from "/lib/servers.js";
+      import { grow } from "lib/unused.js";
+      export async function main(ns) { ns.tprint(format(ns)); buy(ns); }`;
+    const graph = getDependencyGraph(code, "main.js" as ScriptFilePath, server.hostname, server.scripts);
+
+    expect([...graph.modules.keys()]).toEqual([
+      "main.js",
+      "lib/format.js",
+      "lib/servers.js",
+      "lib/unused.js",
+      "lib/log.js",
+    ]);
+    expect(graph.modules.get("main.js" as ScriptFilePath)?.imports).toEqual([
+      "lib/format.js",
+      "lib/servers.js",
+      "lib/unused.js",
+    ]);
+    expect(graph.cycles).toEqual([["lib/format.js", "lib/log.js"]]);
+    const inCycle = [...graph.modules.values()].filter((module) => module.inCycle).map((module) => module.filename);
+    expect(inCycle).toEqual(["lib/format.js", "lib/log.js"]);
+
+    const moduleRam = (filename: string) => graph.modules.get(filename as ScriptFilePath)?.ram;
+    expect(moduleRam("main.js")).toEqual(RamCostConstants.Base);
+    expect(moduleRam("lib/format.js")).toEqual(RamCostConstants.GetHostname);
+    expect(moduleRam("lib/servers.js")).toEqual(RamCostConstants.PurchaseServer);
+    // The module is imported, but its function is not used, so it doesn't add RAM
+    expect(moduleRam("lib/unused.js")).toEqual(0);
+    expect(graph.ram.cost).toBeCloseTo(
+      RamCostConstants.Base + RamCostConstants.GetHostname + RamCostConstants.PurchaseServer,
+    );
+  });
+
+  it("Reports import cycles that follow the imports", function () {
+    const code = `import "./b.js"; import "./c.js";`;
+    write("cycle/a.js", code);
+    write("cycle/b.js", `import "./a.js";`);
+    write("cycle/c.js", `import "./a.js";`);
+    const graph = getDependencyGraph(code, "cycle/a.js" as ScriptFilePath, server.hostname, server.scripts);
+    // b doesn't import c, so the cycle goes through one of them
+    expect(graph.cycles).toEqual([["cycle/a.js", "cycle/b.js"]]);
+    const inCycle = [...graph.modules.values()].filter((module) => module.inCycle).map((module) => module.filename);
+    expect(inCycle).toEqual(["cycle/a.js", "cycle/b.js", "cycle/c.js"]);
+  });
+
+  it("Reports the modules that cannot be imported", function () {
+    const code = `import { missing } from "lib/missing.js";
+      export async function main(ns) { missing(ns); }`;
+    const graph = getDependencyGraph(code, "main.js" as ScriptFilePath, server.hostname, server.scripts);
+    expect(graph.modules.get("main.js" as ScriptFilePath)).toMatchObject({
+      imports: [],
+      error: 'Invalid module: "lib/missing.js". Base module: "main.js".',
+    });
+    expect(graph.ram.errorMessage).toEqual('Invalid module: "lib/missing.js". Base module: "main.js".');
+  });
+});
@@ -0,0 +1,58 @@
+import { Script } from "../../../src/Script/Script";
+import { getFlagSchema, getFlagUsage, validateFlags } from "../../../src/Script/FlagSchema";
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+
+const code = `export const flagSchema = [
+  ["target", "n00dles", "Server to hack"],
+  ["action", "hack", "What to do to the target", ["hack", "grow", "weaken"]],
+  ["delay", -1],
+  ["exclude", []],
+  ["v", false, "Verbose"],
+];
+export async function main(ns) {
+  ns.flags(flagSchema);
+}`;
+
+function getSchema(filename: string, code: string) {
+  return getFlagSchema(new Script(filename as ScriptFilePath, code, "home"));
+}
+
+describe("Flag schemas", function () {
+  it("Reads the exported schema without running the script", function () {
+    expect(getSchema("test.js", code)).toEqual([
+      ["target", "n00dles", "Server to hack"],
+      ["action", "hack", "What to do to the target", ["hack", "grow", "weaken"]],
+      ["delay", -1],
+      ["exclude", []],
+      ["v", false, "Verbose"],
+    ]);
+    expect(getSchema("test.ts", `export const flagSchema = [["loop", false]] as const;`)).toEqual([["loop", false]]);
+    expect(getSchema("test.js", "export async function main(ns) {}")).toBeNull();
+    expect(() => getSchema("test.js", "const t = 'n00dles'; export const flagSchema = [['target', t]];")).toThrow(
+      "literal values",
+    );
+    expect(() => getSchema("test.js", "export const flagSchema = [['target']];")).toThrow("entries");
+  });
+
+  it("Validates flags like ns.flags, including numbers and allowed values", function () {
+    const schema = getSchema("test.js", code);
+    if (!schema) throw new Error("Schema was not found");
+    validateFlags(schema, ["--target", "joesguns", "--action", "grow", "--exclude", "a", "-v", "extra", 5]);
+    expect(() => validateFlags(schema, ["--trget", "joesguns"])).toThrow("unknown or unexpected option: --trget");
+    expect(() => validateFlags(schema, ["--action", "share"])).toThrow("Allowed values: hack, grow, weaken");
+    expect(() => validateFlags(schema, ["--delay", "soon"])).toThrow("--delay must be a number");
+  });
+
+  it("Generates usage text", function () {
+    const schema = getSchema("test.js", code);
+    if (!schema) throw new Error("Schema was not found");
+    expect(getFlagUsage("test.js", schema)).toEqual([
+      "Usage: run test.js [flags...] [args...]",
+      "  --target <string>              Server to hack (default: n00dles)",
+      "  --action <hack|grow|weaken>    What to do to the target (default: hack)",
+      "  --delay <number>               (default: -1)",
+      "  --exclude <string>...",
+      "  -v                             Verbose",
+    ]);
+  });
+});
@@ -0,0 +1,64 @@
+import { FileType, lintScript, parseAST } from "../../../src/utils/ScriptTransformer";
+
+function lint(code: string, fileType = FileType.JS) {
+  return lintScript(parseAST(code, fileType), code).map((diagnostic) => [
+    diagnostic.rule,
+    code.slice(diagnostic.start, diagnostic.end),
+  ]);
+}
+
+describe("lintScript", function () {
+  it("Reports ns promises that are not awaited", function () {
+    const code = `export async function main(n) {
+      n.sleep(100);
+      await n.sleep(100);
+      n.getPortHandle(1).nextWrite();
+      const promise = n.hack("n00dles");
+      await promise;
+      n.print("not a promise");
+      n.rpc.call("math/add", [1, 2]);
+      n.print.call(null, "not a promise");
+    }
+    function helper(ns: NS) {
+      ns.weaken("n00dles");
+    }`;
+    expect(lint(code, FileType.TS)).toEqual([
+      ["missing-await", "n.sleep(100)"],
+      ["missing-await", "n.getPortHandle(1).nextWrite()"],
+      ["missing-await", 'n.rpc.call("math/add", [1, 2])'],
+      ["missing-await", 'ns.weaken("n00dles")'],
+    ]);
+  });
+
+  it("Reports ns used in callbacks that can run after the script ended", function () {
+    const code = `export async function main(ns) {
+      setTimeout(() => ns.print("done"), 1000);
+      window.addEventListener("click", function () { ns.tprint("clicked"); });
+      ns.atExit(() => ns.print("exit"));
+    }`;
+    expect(lint(code)).toEqual([
+      ["ns-after-exit", "ns.print"],
+      ["ns-after-exit", "ns.tprint"],
+    ]);
+  });
+
+  it("Reports infinite loops that never await", function () {
+    const code = `export async function main(ns) {
+      while (true) { ns.print("frozen"); }
+      while (true) { await ns.sleep(1000); }
+      for (;;) { if (ns.getServerMoneyAvailable("home") > 1e9) break; }
+      do { const wait = async () => { await ns.sleep(1); }; } while (true);
+      // @ignore-infinite
+      while (true) { ns.print("suppressed"); }
+      while (true) { for (const x of [1]) break; switch (ns.args[0]) { default: break; } }
+      outer: while (true) { for (;;) { break outer; } }
+      loop: while (true) { inner: for (;;) { continue loop; } }
+    }`;
+    expect(lint(code)).toEqual([
+      ["infinite-loop", 'while (true) { ns.print("frozen"); }'],
+      ["infinite-loop", "do { const wait = async () => { await ns.sleep(1); }; } while (true);"],
+      ["infinite-loop", "while (true) { for (const x of [1]) break; switch (ns.args[0]) { default: break; } }"],
+      ["infinite-loop", "while (true) { inner: for (;;) { continue loop; } }"],
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { resolveScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Script } from "../../../src/Script/Script";
+import { Server } from "../../../src/Server/Server";
+import { Settings } from "../../../src/Settings/Settings";
+import { Terminal } from "../../../src/Terminal";
+import { revert } from "../../../src/Terminal/commands/revert";
+
+const filename = resolveScriptFilePath("hack.js");
+if (!filename) throw new Error("Could not resolve hardcoded filepath.");
+
+describe("Script revisions", function () {
+  const maxRevisions = Settings.MaxScriptRevisions;
+  beforeEach(() => {
+    Settings.MaxScriptRevisions = 10;
+  });
+  afterEach(() => {
+    Settings.MaxScriptRevisions = maxRevisions;
+  });
+
+  it("Keeps the overwritten code, the most recent first, up to the limit", function () {
+    Settings.MaxScriptRevisions = 2;
+    const server = new Server({ hostname: "TestServer" });
+    server.writeToScriptFile(filename, "v1");
+    server.writeToScriptFile(filename, "v2");
+    // Saving unchanged code does not add a revision
+    server.writeToScriptFile(filename, "v2");
+    server.writeToScriptFile(filename, "v3");
+    server.writeToScriptFile(filename, "v4");
+    const script = server.scripts.get(filename) as Script;
+    expect(script.code).toEqual("v4");
+    expect(script.revisions.map((revision) => revision.code)).toEqual(["v3", "v2"]);
+
+    Settings.MaxScriptRevisions = 0;
+    server.writeToScriptFile(filename, "v5");
+    expect(script.revisions).toEqual([]);
+  });
+
+  it("Are saved with the script", function () {
+    const server = new Server({ hostname: "TestServer" });
+    server.writeToScriptFile(filename, "v1");
+    server.writeToScriptFile(filename, "v2");
+    const script = server.scripts.get(filename) as Script;
+    const loaded = Script.fromJSON(JSON.parse(JSON.stringify(script)));
+    expect(loaded.code).toEqual("v2");
+    expect(loaded.revisions).toEqual(script.revisions);
+  });
+
+  it("Can be restored with the revert command", function () {
+    const server = new Server({ hostname: "TestServer" });
+    server.writeToScriptFile(filename, "v1");
+    server.writeToScriptFile(filename, "v2");
+    server.writeToScriptFile(filename, "v3");
+    const script = server.scripts.get(filename) as Script;
+
+    revert(["hack.js", 2], server);
+    expect(script.code).toEqual("v1");
+    // The reverted code is kept, so that the revert can be undone
+    expect(script.revisions.map((revision) => revision.code)).toEqual(["v3", "v2", "v1"]);
+
+    Terminal.clear();
+    revert(["hack.js", 4], server);
+    expect(script.code).toEqual("v1");
+    expect(Terminal.outputHistory.at(-1)).toMatchObject({
+      text: "Invalid version: 4. hack.js has 3 previous version(s), see 'history hack.js'.",
+    });
+  });
+});
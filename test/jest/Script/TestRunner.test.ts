@@ -0,0 +1,56 @@
+import { createMockNs, runTests } from "../../../src/Script/TestRunner";
+
+describe("Test runner", function () {
+  it("Runs tests and reports failed assertions", async function () {
+    const results = await runTests(({ describe, it, expect }) => {
+      describe("math", () => {
+        it("adds", () => expect(1 + 2).toBe(3));
+        describe("objects", () => {
+          it("compares deeply", () => expect({ a: [1, 2] }).toEqual({ a: [1, 3] }));
+        });
+      });
+      it("negates", () => expect([1, 2]).not.toContain(2));
+      it("awaits", async () => {
+        await Promise.resolve();
+        expect(() => {
+          throw new Error("bad input");
+        }).toThrow("bad");
+        expect(0.1 + 0.2).toBeCloseTo(0.3);
+      });
+      it("rejects", () => Promise.reject(new Error("rejected")));
+    });
+    expect(results).toEqual([
+      { name: ["math", "adds"], error: null },
+      { name: ["math", "objects", "compares deeply"], error: 'Expected: {"a":[1,3]}, received {"a":[1,2]}' },
+      { name: ["negates"], error: "Expected not: [1,2] to contain 2" },
+      { name: ["awaits"], error: null },
+      { name: ["rejects"], error: "rejected" },
+    ]);
+  });
+
+  it("Passes a mocked ns object to each test", async function () {
+    let firstNs = createMockNs();
+    const results = await runTests(({ it, expect, fn }) => {
+      it("records calls", (ns) => {
+        firstNs = ns;
+        ns.getServerMoneyAvailable.mockReturnValue(1000);
+        expect(ns.getServerMoneyAvailable("n00dles")).toBe(1000);
+        expect(ns.corporation.getCorporation()).toBe(undefined);
+        expect(ns.getServerMoneyAvailable).toHaveBeenCalledWith("n00dles");
+        expect(ns.hack).not.toHaveBeenCalled();
+        const callback = fn((value: number) => value * 2);
+        expect([1, 2].map((value) => callback(value))).toEqual([2, 4]);
+        expect(callback).toHaveBeenCalledTimes(2);
+      });
+      it("gets a new ns object", (ns) => {
+        expect(ns === firstNs).toBe(false);
+        expect(ns.args).toEqual([]);
+        expect(ns.getServerMoneyAvailable).toHaveBeenCalled();
+      });
+    });
+    expect(results).toEqual([
+      { name: ["records calls"], error: null },
+      { name: ["gets a new ns object"], error: "Expected: mock function to have been called" },
+    ]);
+  });
+});
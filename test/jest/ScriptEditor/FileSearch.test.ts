@@ -0,0 +1,86 @@
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import type { TextFilePath } from "../../../src/Paths/TextFilePath";
+import { Server } from "../../../src/Server/Server";
+import { AddToAllServers, DeleteServer } from "../../../src/Server/AllServers";
+import { createSearchRegExp, findMatches, replaceMatches, searchFiles } from "../../../src/ScriptEditor/ui/fileSearch";
+
+describe("findMatches", () => {
+  const content = "const a = 1;\n  ns.hack(target);\nawait ns.HACK(a);";
+
+  test("Positions of plain text matches", () => {
+    expect(findMatches(content, createSearchRegExp({ pattern: "hack", isRegex: false, matchCase: false }))).toEqual([
+      { lineNumber: 2, column: 6, length: 4, lineText: "  ns.hack(target);" },
+      { lineNumber: 3, column: 10, length: 4, lineText: "await ns.HACK(a);" },
+    ]);
+    expect(findMatches(content, createSearchRegExp({ pattern: "HACK", isRegex: false, matchCase: true }))).toHaveLength(
+      1,
+    );
+    // Special characters are not regular expression syntax in plain text
+    expect(findMatches(content, createSearchRegExp({ pattern: "(a)", isRegex: false, matchCase: true }))).toEqual([
+      { lineNumber: 3, column: 14, length: 3, lineText: "await ns.HACK(a);" },
+    ]);
+  });
+
+  test("Regular expressions", () => {
+    const regExp = createSearchRegExp({ pattern: "^\\s*ns\\.(\\w+)", isRegex: true, matchCase: true });
+    expect(findMatches(content, regExp)).toEqual([
+      { lineNumber: 2, column: 1, length: 9, lineText: "  ns.hack(target);" },
+    ]);
+    // Empty matches are skipped
+    expect(findMatches(content, createSearchRegExp({ pattern: "^", isRegex: true, matchCase: true }))).toEqual([]);
+    expect(() => createSearchRegExp({ pattern: "(", isRegex: true, matchCase: true })).toThrow(SyntaxError);
+  });
+
+  test("Limit", () => {
+    expect(findMatches(content, createSearchRegExp({ pattern: "a", isRegex: false, matchCase: true }), 2)).toHaveLength(
+      2,
+    );
+  });
+});
+
+test("replaceMatches", () => {
+  const content = "ns.hack(a); ns.grow(a);";
+  expect(replaceMatches(content, { pattern: "ns.(\\w+)\\(a\\)", isRegex: true, matchCase: true }, "$1(b)")).toEqual(
+    "hack(b); grow(b);",
+  );
+  // $ is not special for plain text
+  expect(replaceMatches(content, { pattern: "(a)", isRegex: false, matchCase: true }, "($1)")).toEqual(
+    "ns.hack($1); ns.grow($1);",
+  );
+});
+
+test("searchFiles", () => {
+  const home = new Server({ hostname: "home" });
+  const other = new Server({ hostname: "other" });
+  try {
+    AddToAllServers(home);
+    AddToAllServers(other);
+    home.writeToScriptFile("lib/b.js" as ScriptFilePath, "export const target = 'n00dles';");
+    home.writeToScriptFile("a.js" as ScriptFilePath, "ns.hack('n00dles');\nns.grow('n00dles');");
+    home.writeToTextFile("targets.txt" as TextFilePath, "foodnstuff");
+    other.writeToScriptFile("a.js" as ScriptFilePath, "ns.hack('n00dles');");
+    const query = { pattern: "n00dles", isRegex: false, matchCase: true };
+
+    expect(searchFiles(query, "home").map((result) => [result.path, result.matches.length])).toEqual([
+      ["a.js", 2],
+      ["lib/b.js", 1],
+    ]);
+    expect(searchFiles(query, null).map((result) => `${result.hostname}:${result.path}`)).toEqual([
+      "home:a.js",
+      "home:lib/b.js",
+      "other:a.js",
+    ]);
+    // Files that are open in the editor are searched with their unsaved content
+    const openFileContent = (hostname: string, path: string) =>
+      hostname === "home" && path === "targets.txt" ? "n00dles" : undefined;
+    expect(searchFiles(query, "home", openFileContent).map((result) => result.path)).toEqual([
+      "a.js",
+      "lib/b.js",
+      "targets.txt",
+    ]);
+    expect(searchFiles(query, "nonexistent")).toEqual([]);
+  } finally {
+    DeleteServer(home.hostname);
+    DeleteServer(other.hostname);
+  }
+});
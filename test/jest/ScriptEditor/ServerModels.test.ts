@@ -0,0 +1,94 @@
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import type { OpenScript } from "../../../src/ScriptEditor/ui/OpenScript";
+import * as monaco from "monaco-editor";
+import { Server } from "../../../src/Server/Server";
+import { parseModelUri, syncServerModels } from "../../../src/ScriptEditor/ui/serverModels";
+
+// Models kept in memory, in place of the monaco editor, which doesn't run in jest
+jest.mock("monaco-editor", () => {
+  const models = new Map<string, { uri: { path: string }; value: string; disposed: boolean }>();
+  const Uri = {
+    from: ({ scheme, path }: { scheme: string; path: string }) => {
+      path = path.startsWith("/") ? path : `/${path}`;
+      return { scheme, path, toString: () => `${scheme}://${path}` };
+    },
+  };
+  const createModel = (value: string, __language: string, uri: { path: string }) => {
+    const model = {
+      uri,
+      value,
+      disposed: false,
+      getValue: () => model.value,
+      setValue: (newValue: string) => (model.value = newValue),
+      isDisposed: () => model.disposed,
+      dispose: () => {
+        model.disposed = true;
+        models.delete(uri.path);
+      },
+    };
+    models.set(uri.path, model);
+    return model;
+  };
+  const editor = {
+    createModel,
+    getModel: (uri: { path: string }) => models.get(uri.path) ?? null,
+    getModels: () => [...models.values()],
+  };
+  return { Uri, editor };
+});
+
+describe("syncServerModels", () => {
+  const filename = "lib/format.js" as ScriptFilePath;
+  let server: Server;
+  const getModel = () => monaco.editor.getModel(monaco.Uri.from({ scheme: "file", path: `home/${filename}` }));
+
+  beforeEach(() => {
+    for (const model of monaco.editor.getModels()) model.dispose();
+    server = new Server({ hostname: "home" });
+    server.writeToScriptFile(filename, "export const a = 1;");
+    expect(syncServerModels(server, [])).toEqual([]);
+  });
+
+  test("Creates the models of the scripts on the server, except the open ones", () => {
+    expect(getModel()?.getValue()).toEqual("export const a = 1;");
+    server.writeToScriptFile("main.js" as ScriptFilePath, "");
+    const openScript = { hostname: "home", path: "main.js" } as OpenScript;
+    syncServerModels(server, [openScript]);
+    expect(monaco.editor.getModels().map((model) => parseModelUri(model.uri))).toEqual([
+      { hostname: "home", path: filename },
+    ]);
+  });
+
+  test("Returns the models that were edited in the editor, e.g. by a rename", () => {
+    const model = getModel();
+    model?.setValue("export const b = 1;");
+    expect(syncServerModels(server, [])).toEqual([model]);
+    // The edit is kept until the script is saved
+    expect(model?.getValue()).toEqual("export const b = 1;");
+  });
+
+  test("Updates the models of scripts that were changed on the server", () => {
+    server.writeToScriptFile(filename, "export const a = 2;");
+    expect(syncServerModels(server, [])).toEqual([]);
+    expect(getModel()?.getValue()).toEqual("export const a = 2;");
+  });
+
+  test("Disposes the models of deleted scripts", () => {
+    const model = getModel();
+    server.removeFile(filename);
+    syncServerModels(server, []);
+    expect(model?.isDisposed()).toEqual(true);
+    expect(getModel()).toBeNull();
+  });
+});
+
+describe("parseModelUri", () => {
+  test("Finds the server and the script of a model", () => {
+    expect(parseModelUri(monaco.Uri.from({ scheme: "file", path: "home/lib/format.js" }))).toEqual({
+      hostname: "home",
+      path: "lib/format.js",
+    });
+    expect(parseModelUri(monaco.Uri.from({ scheme: "file", path: "home/notes.txt" }))).toBeNull();
+    expect(parseModelUri(monaco.Uri.from({ scheme: "inmemory", path: "home/main.js" }))).toBeNull();
+  });
+});
@@ -1,4 +1,4 @@
-import { parseCommand } from "../../../src/Terminal/Parser";
+import { expandVariables, parseCommand, parsePipeline, parseShellScript } from "../../../src/Terminal/Parser";
 test("parseCommand Tests", () => {
   const expectedParsings = {
     // A quoted string that is not the entire argument should retain the quotes
@@ -14,3 +14,64 @@ test("parseCommand Tests", () => {
     expect(parseCommand(commandString)).toEqual(expectedArray);
   }
 });
+
+test("parsePipeline Tests", () => {
+  const expectedPipelines = {
+    ls: { commands: ["ls"], redirect: null },
+    "ls | grep js > files.txt": { commands: ["ls", "grep js"], redirect: { filename: "files.txt", append: false } },
+    "cat log.txt|grep ERROR|tail -n 5 >> errors.txt": {
+      commands: ["cat log.txt", "grep ERROR", "tail -n 5"],
+      redirect: { filename: "errors.txt", append: true },
+    },
+    // Quoted pipes and redirections are part of the arguments
+    'grep "a|b>c" log.txt > "out.txt"': {
+      commands: ['grep "a|b>c" log.txt'],
+      redirect: { filename: "out.txt", append: false },
+    },
+  };
+  for (const [commandString, expectedPipeline] of Object.entries(expectedPipelines)) {
+    expect(parsePipeline(commandString)).toEqual(expectedPipeline);
+  }
+  for (const invalid of ["ls |", "| grep js", "ls > a.txt | grep js", "ls > > a.txt", "ls >", "ls > a.txt b.txt"]) {
+    expect(() => parsePipeline(invalid)).toThrow();
+  }
+});
+
+test("parseShellScript Tests", () => {
+  const commands = [
+    "a=1",
+    "if grep x f.txt",
+    "then echo yes",
+    "elif expr $a",
+    "then",
+    "echo maybe",
+    "else echo no",
+    "fi",
+  ];
+  expect(parseShellScript([...commands, "for s in n00dles home", "do scp a.js $s", "done"])).toEqual([
+    { type: "command", command: "a=1" },
+    {
+      type: "if",
+      branches: [
+        { condition: "grep x f.txt", body: [{ type: "command", command: "echo yes" }] },
+        { condition: "expr $a", body: [{ type: "command", command: "echo maybe" }] },
+      ],
+      elseBody: [{ type: "command", command: "echo no" }],
+    },
+    { type: "for", variable: "s", words: "n00dles home", body: [{ type: "command", command: "scp a.js $s" }] },
+  ]);
+  const invalidScripts = [["if ls", "echo", "fi"], ["if ls", "then echo"], ["fi"], ["for in a", "do ls", "done"]];
+  for (const invalid of invalidScripts) expect(() => parseShellScript(invalid)).toThrow();
+});
+
+test("expandVariables Tests", () => {
+  const variables: Record<string, string> = { TARGET: "n00dles", "1": "first", "?": "0" };
+  const getVariable = (name: string): string | undefined => variables[name];
+  expect(expandVariables("hack $TARGET ${TARGET}s $1 $? $MISSING ${MISSING}", getVariable)).toEqual(
+    "hack n00dles n00dless first 0 $MISSING ${MISSING}",
+  );
+  expect(expandVariables(`echo "$TARGET's" '$TARGET'`, getVariable)).toEqual(`echo "n00dles's" '$TARGET'`);
+  expect(expandVariables(`echo \\$TARGET "\\$TARGET" '\\$TARGET'`, getVariable)).toEqual(
+    `echo $TARGET "$TARGET" '\\$TARGET'`,
+  );
+});
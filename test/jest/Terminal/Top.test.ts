@@ -0,0 +1,44 @@
+import type { Script } from "../../../src/Script/Script";
+import type { ScriptFilePath } from "../../../src/Paths/ScriptFilePath";
+import { Server } from "../../../src/Server/Server";
+import { RunningScript } from "../../../src/Script/RunningScript";
+import { AddToAllServers, prestigeAllServers } from "../../../src/Server/AllServers";
+import { formatUptime, getTopProcesses } from "../../../src/Terminal/commands/top";
+
+function startScript(server: Server, filename: string, pid: number, threads: number, income: number, uptime: number) {
+  server.writeToScriptFile(filename as ScriptFilePath, "");
+  const runningScript = new RunningScript(server.scripts.get(filename as ScriptFilePath) as Script, 1.6);
+  runningScript.pid = pid;
+  runningScript.threads = threads;
+  runningScript.onlineMoneyMade = income * uptime;
+  runningScript.onlineRunningTime = uptime;
+  server.runScript(runningScript);
+}
+
+describe("top", function () {
+  beforeEach(() => {
+    prestigeAllServers();
+    const home = new Server({ hostname: "home", adminRights: true, maxRam: 1024 });
+    const pserv = new Server({ hostname: "pserv-0", adminRights: true, maxRam: 1024 });
+    AddToAllServers(home);
+    AddToAllServers(pserv);
+    startScript(home, "hack.js", 1, 10, 100, 60);
+    startScript(pserv, "grow.js", 2, 50, 0, 30);
+    startScript(pserv, "share.js", 3, 20, 5, 120);
+  });
+
+  it("Lists the scripts of all servers sorted by the chosen column", function () {
+    const pids = (...args: Parameters<typeof getTopProcesses>) => getTopProcesses(...args).map((script) => script.pid);
+    expect(pids("ram")).toEqual([2, 3, 1]);
+    expect(pids("threads", false)).toEqual([1, 3, 2]);
+    expect(pids("income")).toEqual([1, 3, 2]);
+    expect(pids("uptime")).toEqual([3, 1, 2]);
+    expect(pids("pid", false)).toEqual([1, 2, 3]);
+  });
+
+  it("Formats uptimes", function () {
+    expect(formatUptime(5.5)).toEqual("00:00:05");
+    expect(formatUptime(3 * 3600 + 25 * 60 + 7)).toEqual("03:25:07");
+    expect(formatUptime(2 * 86400 + 61)).toEqual("2-00:01:01");
+  });
+});
@@ -0,0 +1,30 @@
+import { Player } from "../../../src/Player";
+import { Server } from "../../../src/Server/Server";
+import { prestigeAllServers } from "../../../src/Server/AllServers";
+import { resolveTextFilePath } from "../../../src/Paths/TextFilePath";
+import { Terminal } from "../../../src/Terminal";
+
+describe("Terminal variables", function () {
+  let home: Server;
+  beforeEach(() => {
+    prestigeAllServers();
+    Player.init();
+    home = Player.getHomeComputer();
+    Terminal.clear();
+  });
+
+  const lastOutput = () => Terminal.outputHistory.at(-1);
+
+  it("Leaves the arguments of shell scripts untouched at the prompt", function () {
+    Terminal.executeCommands("TARGET=n00dles; echo $TARGET costs $5 $0 $# $@ $MISSING");
+    expect(lastOutput()).toMatchObject({ text: "n00dles costs $5 $0 $# $@ $MISSING" });
+  });
+
+  it("Expands the arguments of shell scripts", function () {
+    const path = resolveTextFilePath("args.sh");
+    if (!path) throw new Error("Could not resolve hardcoded filepath.");
+    home.writeToContentFile(path, "echo $0 $# $1 $2");
+    Terminal.runShellScript(path, ["first"], home);
+    expect(lastOutput()).toMatchObject({ text: "args.sh 1 first $2" });
+  });
+});
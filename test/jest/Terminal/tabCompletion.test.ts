@@ -155,6 +155,15 @@ describe("getTabCompletionPossibilities", function () {
     );
   });
 
+  it("completes flags from the flag schema of a script", async () => {
+    const code = `export const flagSchema = [["target", "n00dles"], ["action", "hack", "", ["hack", "grow"]], ["v", false]];`;
+    Player.getHomeComputer().writeToScriptFile(asFilePath("flags.js"), code);
+    let options = await getTabCompletionPossibilities("run flags.js --", root);
+    expect(options.sort()).toEqual(["--action", "--help", "--target"]);
+    options = await getTabCompletionPossibilities("./flags.js --action ", root);
+    expect(options.sort()).toEqual(["grow", "hack"]);
+  });
+
   it("completes the cat command", async () => {
     writeFiles();
     const cattableFilePaths = [